@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
+import { readGroundingNotebooks } from '@/lib/ai/retrieval';
+import { buildEvaluationPrompt, EVALUATION_GENERATION, parseEvaluation } from '@/lib/ai/dialogue';
+
+export const runtime = 'edge';
+
+/**
+ * Judge an autoplay conversation against its objective: goal reached, looping, or continue (with a steer)
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const body = await req.json();
+        const { goal, party_a_context, party_b_context, history } = body;
+
+        if (typeof goal !== 'string' || !goal.trim() || !Array.isArray(history)) {
+            return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+        }
+
+        // Evaluation shares the autoplay provider routing
+        const llmConfig = await getLLMRequestConfig(req, 'autoplay');
+        const { model } = llmConfig;
+
+        if (!isLLMConfigured(llmConfig)) {
+            // The Python backend has no evaluator; autoplay then runs to its cycle limit
+            return NextResponse.json({ error: 'Configure API Key in Settings' }, { status: 401 });
+        }
+
+        const { text, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'autoplay',
+            model,
+            ...EVALUATION_GENERATION,
+            signal: req.signal,
+            messages: buildEvaluationPrompt({
+                goal: goal.trim(),
+                party_a_context,
+                party_b_context,
+                history,
+                notebooks: readGroundingNotebooks(body)
+            })
+        });
+
+        return NextResponse.json({ evaluation: parseEvaluation(text), usage, servedBy });
+
+    } catch (error) {
+        console.error('Error in /api/ai/autoplay/evaluate:', error);
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
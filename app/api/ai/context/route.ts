@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prompts } from '@/lib/ai/prompts';
-import { makeOpenAIRequest, makeAnthropicRequest, makeGoogleRequest, makeOpenRouterRequest, makeGroqRequest } from '@/lib/ai/providers';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
+import { parseJSONContent } from '@/lib/ai/providers';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
 
 export const runtime = 'edge';
 
@@ -9,14 +10,16 @@ export async function POST(req: NextRequest) {
     try {
         const { text } = await req.json();
 
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'context');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             // Fallback
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 const pyRes = await fetch(`${backendUrl}/api/ai/context`, {
                     method: 'POST',
+                    signal: req.signal,
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ text })
                 });
@@ -27,63 +30,27 @@ export async function POST(req: NextRequest) {
         }
 
         const prompt = prompts.contextExtraction(text);
-        let content = "";
+        const { text: content, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'context',
+            model,
+            maxTokens: 300,
+            temperature: 0.2, // Low temp for JSON
+            json: true,
+            signal: req.signal,
+            messages: [{ role: 'user', content: prompt }]
+        });
 
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 300,
-                messages: [{ role: 'user', content: prompt }]
-            });
-            content = data.content[0].text;
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, prompt);
-            content = data.text;
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else {
-            // OpenAI (default)
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', {
-                model,
-                max_tokens: 300,
-                temperature: 0.2, // Low temp for JSON
-                response_format: { type: "json_object" },
-                messages: [
-                    { role: "system", content: "Output valid JSON only." },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        }
-
-
-        // Parse JSON
         try {
-            const json = JSON.parse(content);
-            return NextResponse.json(json);
-        } catch (e) {
-            // Cleanup markdown
-            const clean = content.replace(/```json\n|```/g, '').trim();
-            try {
-                return NextResponse.json(JSON.parse(clean));
-            } catch (e2) {
-                console.error("Failed to parse JSON context:", content);
-                // Default fallback
-                return NextResponse.json({
-                    party_a: { context: "User", languages: ["en"] },
-                    party_b: { context: "Assistant", languages: ["en"] }
-                });
-            }
+            return NextResponse.json({ ...parseJSONContent<Record<string, unknown>>(content), usage, servedBy });
+        } catch {
+            console.error("Failed to parse JSON context:", content);
+            // Default fallback
+            return NextResponse.json({
+                party_a: { context: "User", languages: ["en"] },
+                party_b: { context: "Assistant", languages: ["en"] },
+                usage,
+                servedBy
+            });
         }
 
     } catch (error: any) {
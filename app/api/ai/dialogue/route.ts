@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prompts } from '@/lib/ai/prompts';
+import { parseJSONContent, type ChatRequest } from '@/lib/ai/providers';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
+import { extractCitationMarkers, readGroundingNotebooks, selectCitations } from '@/lib/ai/retrieval';
+import { STREAM_CONTENT_TYPE } from '@/lib/ai/stream-protocol';
+import {
+    AUTOPLAY_GENERATION,
+    buildAutoPlayPrompt,
+    buildEvaluationPrompt,
+    buildRespondPrompt,
+    cleanAutoPlayMessage,
+    encodeDialogueEvent,
+    EVALUATION_GENERATION,
+    parseEvaluation,
+    RESPOND_GENERATION,
+    type DialogueStreamEvent,
+    type DialogueUsage
+} from '@/lib/ai/dialogue';
+import { runSimulation, type SimulationSteps, type SimulationTurn } from '@/lib/services/simulation/engine';
+
+export const runtime = 'edge';
+
+const DEFAULT_CYCLES = 5;
+const MAX_CYCLES = 20;
+
+type DialogueFeature = 'autoplay' | 'respond' | 'translation';
+
+interface DialogueParty {
+    context: string;
+    languages: string[];
+}
+
+const readParty = (value: unknown): DialogueParty | null => {
+    const party = value as { context?: unknown; languages?: unknown } | null;
+    if (!party || typeof party.context !== 'string') return null;
+    const languages = Array.isArray(party.languages)
+        ? party.languages.filter((code): code is string => typeof code === 'string' && !!code.trim())
+        : [];
+    return { context: party.context, languages: languages.length > 0 ? languages : ['en'] };
+};
+
+const toHistory = (turns: SimulationTurn[]) => turns.map(({ role, content }) => ({ role, content }));
+
+/**
+ * Generate a whole conversation for a scenario: Party A lines from the autoplay prompt,
+ * Party B answers from the respond prompt, each turn translated into the other languages in play.
+ * With a `goal`, every cycle is checked against it and the run stops once it is reached.
+ * Returns JSON, or with `stream: true` one `turn` event per turn and a final `done`.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const body = await req.json();
+        const partyA = readParty(body.party_a);
+        const partyB = readParty(body.party_b);
+        if (!partyA || !partyB) {
+            return NextResponse.json({ error: 'Invalid input', details: 'party_a and party_b need a context' }, { status: 400 });
+        }
+        const requested = Number(body.cycles ?? DEFAULT_CYCLES);
+        const cycles = Number.isFinite(requested) ? Math.min(MAX_CYCLES, Math.max(1, Math.round(requested))) : DEFAULT_CYCLES;
+        const notebooks = readGroundingNotebooks(body);
+        const goal = typeof body.goal === 'string' ? body.goal.trim() : '';
+
+        // One provider/model (the request's headers) serves every call; per-feature routes are not applied here
+        const config = await getLLMRequestConfig(req);
+        if (!isLLMConfigured(config)) {
+            // The Python backend has no batch endpoint
+            return NextResponse.json({ error: 'Configure API Key in Settings' }, { status: 401 });
+        }
+
+        const usage: DialogueUsage[] = [];
+        const llm = getLLMClient(config);
+        const chat = async (feature: DialogueFeature, request: Omit<ChatRequest, 'feature' | 'model'>) => {
+            const result = await llm.chat({ ...request, feature, model: config.model });
+            usage.push({ feature, usage: result.usage, servedBy: result.servedBy });
+            return result.text;
+        };
+
+        // Everyone in the dialogue should be able to read every turn
+        const languagesInPlay = [...new Set([...partyA.languages, ...partyB.languages])];
+        const translate = async (text: string, sourceLang: string, signal: AbortSignal) => {
+            const targets = languagesInPlay.filter(code => code !== sourceLang);
+            if (targets.length === 0) return undefined;
+            const content = await chat('translation', {
+                maxTokens: 1000,
+                json: true,
+                signal,
+                messages: [{ role: 'user', content: prompts.translateMultiple(text, targets) }]
+            });
+            try {
+                return parseJSONContent(content) as Record<string, string>;
+            } catch {
+                // A turn without translations is still usable
+                console.error('Dialogue Translation Parse Error:', content);
+                return undefined;
+            }
+        };
+
+        const steps: SimulationSteps = {
+            generatePartyA: async (transcript, signal, steer) => {
+                const { messages } = buildAutoPlayPrompt({
+                    party_a_context: partyA.context,
+                    party_b_context: partyB.context,
+                    party_a_lang: partyA.languages[0],
+                    history: toHistory(transcript),
+                    notebooks,
+                    goal,
+                    steer
+                });
+                return cleanAutoPlayMessage(await chat('autoplay', { ...AUTOPLAY_GENERATION, messages, signal }));
+            },
+
+            deliverPartyA: async (text, _transcript, signal) => ({
+                role: 'party_a',
+                content: text,
+                translations: await translate(text, partyA.languages[0], signal)
+            }),
+
+            generatePartyB: async (message, transcript, signal) => {
+                // The transcript already ends with `message`
+                const { messages, grounding } = buildRespondPrompt({
+                    message,
+                    party_a_context: partyA.context,
+                    party_b_context: partyB.context,
+                    source_lang: partyA.languages[0],
+                    return_lang: partyB.languages[0],
+                    history: toHistory(transcript.slice(0, -1)),
+                    notebooks
+                });
+                const raw = await chat('respond', { ...RESPOND_GENERATION, messages, signal });
+                const { text, cited } = extractCitationMarkers(raw, grounding.citations.map(citation => citation.label));
+                const content = text.trim();
+                if (!content) return null;
+                const citations = selectCitations(grounding.citations, cited);
+                return {
+                    role: 'party_b',
+                    content,
+                    translations: await translate(content, partyB.languages[0], signal),
+                    citations: citations.length > 0 ? citations : undefined
+                };
+            }
+        };
+
+        if (goal) {
+            steps.evaluateCycle = async (transcript, _cycle, signal) => {
+                try {
+                    return parseEvaluation(await chat('autoplay', {
+                        ...EVALUATION_GENERATION,
+                        signal,
+                        messages: buildEvaluationPrompt({
+                            goal,
+                            party_a_context: partyA.context,
+                            party_b_context: partyB.context,
+                            history: toHistory(transcript),
+                            notebooks
+                        })
+                    }));
+                } catch (error) {
+                    // Without a verdict the dialogue continues to its cycle limit
+                    if (!signal.aborted) console.warn('Dialogue evaluation failed', error);
+                    return null;
+                }
+            };
+        }
+
+        if (body.stream) {
+            const encoder = new TextEncoder();
+            const controller = new AbortController();
+            req.signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+            const stream = new ReadableStream<Uint8Array>({
+                async start(streamController) {
+                    // Nothing more is sent once the client has gone
+                    const send = (event: DialogueStreamEvent) => {
+                        if (!controller.signal.aborted) streamController.enqueue(encoder.encode(encodeDialogueEvent(event)));
+                    };
+                    let cycle = 0;
+                    const result = await runSimulation(steps, {
+                        maxCycles: cycles,
+                        signal: controller.signal,
+                        onStep: (_step, current) => { cycle = current; },
+                        onTurn: turn => send({ type: 'turn', cycle, turn }),
+                        onEvaluation: (evaluation, current) => send({ type: 'evaluation', cycle: current, evaluation })
+                    });
+                    if (result.stopReason === 'error' && result.transcript.length === 0) {
+                        send({ type: 'error', error: 'Dialogue generation failed', details: result.error });
+                    } else {
+                        send({
+                            type: 'done',
+                            cycles: result.cycles,
+                            stopReason: result.stopReason,
+                            evaluation: result.evaluation,
+                            error: result.error,
+                            usage
+                        });
+                    }
+                    if (!controller.signal.aborted) streamController.close();
+                },
+                cancel() {
+                    controller.abort();
+                }
+            });
+
+            return new NextResponse(stream, {
+                headers: { 'Content-Type': STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache' }
+            });
+        }
+
+        const result = await runSimulation(steps, { maxCycles: cycles, signal: req.signal });
+        if (result.stopReason === 'error' && result.transcript.length === 0) {
+            return NextResponse.json({ error: 'Dialogue generation failed', details: result.error }, { status: 502 });
+        }
+        return NextResponse.json({ ...result, usage });
+
+    } catch (error) {
+        console.error('Error in /api/ai/dialogue:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error', details: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
-import { makeAnthropicRequest, makeGoogleRequest, makeGroqRequest, makeOpenAIRequest, makeOpenRouterRequest } from '@/lib/ai/providers';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
+import { LLMProviderError, type ChatRequest } from '@/lib/ai/providers';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { openEventStream, STREAM_CONTENT_TYPE } from '@/lib/ai/stream-protocol';
+import { stripMarkdownFence } from '@/lib/utils/markdown';
 
 export const runtime = 'edge';
 
@@ -58,15 +61,17 @@ Structure guidance (required, evidence-based, and adaptive):
 
 export async function POST(req: NextRequest) {
     try {
-        const { history = [], party_a_context, party_b_context } = await req.json();
+        const { history = [], party_a_context, party_b_context, stream = false } = await req.json();
 
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'notebook');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 const pyRes = await fetch(`${backendUrl}/api/ai/notebook`, {
                     method: 'POST',
+                    signal: req.signal,
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ history, party_a_context, party_b_context })
                 });
@@ -86,40 +91,34 @@ ${historyText}
 
 Write the notebook now.`;
 
-        const messages = [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-        ];
-
-        let content = '';
-
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 2000,
-                system: systemPrompt,
-                messages: [{ role: 'user', content: userPrompt }]
+        const llm = getLLMClient(llmConfig);
+        const request: ChatRequest = {
+            feature: 'notebook',
+            model,
+            maxTokens: 2000,
+            temperature: 0.4,
+            signal: req.signal,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ]
+        };
+
+        // Streaming mode: raw Markdown deltas; the client strips the code fence as it renders
+        if (stream) {
+            return new NextResponse(await openEventStream(llm.stream(request)), {
+                headers: { 'Content-Type': STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache' }
             });
-            content = data.content?.[0]?.text || '';
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, `${systemPrompt}\n\n${userPrompt}`);
-            content = data.text || '';
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, { model, messages, temperature: 0.4 });
-            content = data.choices?.[0]?.message?.content || '';
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, { model, messages, temperature: 0.4 });
-            content = data.choices?.[0]?.message?.content || '';
-        } else {
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', { model, messages, temperature: 0.4 });
-            content = data.choices?.[0]?.message?.content || '';
         }
 
-        let markdown = (content || '').trim();
-        markdown = markdown.replace(/^```markdown\s*/i, '').replace(/```\s*$/, '').trim();
+        const { text: content, usage, servedBy } = await llm.chat(request);
+        const markdown = stripMarkdownFence(content || '');
 
-        return NextResponse.json({ markdown });
+        return NextResponse.json({ markdown, usage, servedBy });
     } catch (error: any) {
+        if (error instanceof LLMProviderError) {
+            return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
         console.error('Error in /api/ai/notebook:', error);
         return NextResponse.json(
             { error: 'Internal Server Error', details: error.message },
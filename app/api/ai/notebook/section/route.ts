@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
+import { LLMProviderError, type ChatRequest } from '@/lib/ai/providers';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { openEventStream, STREAM_CONTENT_TYPE } from '@/lib/ai/stream-protocol';
+import { getLangName, NOTEBOOK_SECTION_ACTIONS, prompts, type NotebookSectionAction } from '@/lib/ai/prompts';
+import { stripMarkdownFence } from '@/lib/utils/markdown';
+
+export const runtime = 'edge';
+
+/**
+ * Rewrite one notebook section (expand, simplify, examples, translate, fact-check).
+ * Answers with the replacement Markdown only; the client shows it as a suggested change.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const { action, section = '', title = '', outline = '', target_lang = 'en', stream = false } = await req.json();
+
+        if (!NOTEBOOK_SECTION_ACTIONS.includes(action)) {
+            return NextResponse.json({ error: `Unknown section action: ${action}` }, { status: 400 });
+        }
+        if (!section.trim()) {
+            return NextResponse.json({ error: 'Section is empty.' }, { status: 400 });
+        }
+
+        const llmConfig = await getLLMRequestConfig(req, 'notebook');
+        // The Python backend has no section editing, so there is nothing to fall back to
+        if (!isLLMConfigured(llmConfig)) {
+            return NextResponse.json(
+                { error: 'Section editing needs an AI provider. Configure one in Settings.' },
+                { status: 503 }
+            );
+        }
+
+        const llm = getLLMClient(llmConfig);
+        const request: ChatRequest = {
+            feature: 'notebook',
+            model: llmConfig.model,
+            maxTokens: 2000,
+            temperature: 0.3,
+            signal: req.signal,
+            messages: [
+                {
+                    role: 'user',
+                    content: prompts.notebookSectionEdit(action as NotebookSectionAction, section, title || 'Untitled Notebook', outline, getLangName(target_lang))
+                }
+            ]
+        };
+
+        if (stream) {
+            return new NextResponse(await openEventStream(llm.stream(request)), {
+                headers: { 'Content-Type': STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache' }
+            });
+        }
+
+        const { text, usage, servedBy } = await llm.chat(request);
+        return NextResponse.json({ markdown: stripMarkdownFence(text || ''), usage, servedBy });
+    } catch (error) {
+        if (error instanceof LLMProviderError) {
+            return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+        }
+        console.error('Error in /api/ai/notebook/section:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error', details: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
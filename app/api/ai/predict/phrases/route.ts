@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prompts } from '@/lib/ai/prompts';
-import { makeOpenAIRequest, makeAnthropicRequest, makeGoogleRequest, makeOpenRouterRequest, makeGroqRequest } from '@/lib/ai/providers';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
 
 export const runtime = 'edge';
 
@@ -14,13 +14,15 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'History required' }, { status: 400 });
         }
 
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'predictions');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 const pyRes = await fetch(`${backendUrl}/api/ai/predict/phrases`, {
                     method: 'POST',
+                    signal: req.signal,
                     headers: {
                         'Content-Type': 'application/json',
                         'ngrok-skip-browser-warning': 'true'
@@ -43,60 +45,31 @@ export async function POST(req: NextRequest) {
         }
 
         const prompt = prompts.predictPhrases(party_context || "User", historyText, lang_name || "English");
-        let content = "";
-
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 300,
-                messages: [{ role: 'user', content: prompt }]
-            });
-            content = data.content[0].text;
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, prompt);
-            content = data.text;
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else {
-            // OpenAI
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', {
-                model,
-                max_tokens: 300,
-                response_format: { type: "json_object" },
-                messages: [
-                    { role: "system", content: "Output valid JSON only." },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        }
+        const { text: content, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'predictions',
+            model,
+            maxTokens: 300,
+            json: true,
+            signal: req.signal,
+            messages: [{ role: 'user', content: prompt }]
+        });
 
         // Parse JSON
         try {
             const json = JSON.parse(content);
             // Ensure array
             const phrases = Array.isArray(json) ? json : (json.phrases || json.predictions || []);
-            return NextResponse.json({ phrases });
+            return NextResponse.json({ phrases, usage, servedBy });
         } catch (e) {
             // Try to find array in text
             const match = content.match(/\[[\s\S]*\]/);
             if (match) {
                 try {
-                    return NextResponse.json({ phrases: JSON.parse(match[0]) });
+                    return NextResponse.json({ phrases: JSON.parse(match[0]), usage, servedBy });
                 } catch (e2) { }
             }
             console.error("Predict Parse Error:", content);
-            return NextResponse.json({ phrases: [] }); // Fail gracefully
+            return NextResponse.json({ phrases: [], usage, servedBy }); // Fail gracefully
         }
 
     } catch (error: any) {
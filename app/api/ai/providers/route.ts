@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getServerConfiguredProviders, isServerKeysOnly } from '@/lib/ai/key-vault';
+
+export const runtime = 'edge';
+
+/**
+ * Report which providers the server holds credentials for (never the credentials themselves)
+ */
+export async function GET() {
+    try {
+        const providers = await getServerConfiguredProviders();
+        return NextResponse.json({ providers, keysOnly: isServerKeysOnly() });
+    } catch (error) {
+        console.error('Error in /api/ai/providers:', error);
+        return NextResponse.json({ providers: [], keysOnly: false }, { status: 500 });
+    }
+}
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prompts } from '@/lib/ai/prompts';
-import { makeOpenAIRequest, makeAnthropicRequest, makeGoogleRequest, makeOpenRouterRequest, makeGroqRequest } from '@/lib/ai/providers';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
 
 export const runtime = 'edge';
 
 export async function GET(req: NextRequest) {
     try {
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'scenario');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 // Try legacy backend if no key
                 const pyRes = await fetch(`${backendUrl}/api/ai/scenario/random`, {
+                    signal: req.signal,
                     headers: { 'ngrok-skip-browser-warning': 'true' }
                 });
                 if (!pyRes.ok) throw new Error('Backend failed');
@@ -24,41 +26,15 @@ export async function GET(req: NextRequest) {
         }
 
         const prompt = prompts.scenarioRandom();
-        let scenario = "";
+        const { text: scenario, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'scenario',
+            model,
+            maxTokens: 150,
+            signal: req.signal,
+            messages: [{ role: 'user', content: prompt }]
+        });
 
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 150,
-                messages: [{ role: 'user', content: prompt }]
-            });
-            scenario = data.content[0].text;
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, prompt);
-            scenario = data.text;
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            scenario = data.choices[0].message.content;
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            scenario = data.choices[0].message.content;
-        } else {
-            // OpenAI
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', {
-                model,
-                max_tokens: 150,
-                messages: [{ role: "user", content: prompt }]
-            });
-            scenario = data.choices[0].message.content;
-        }
-
-        return NextResponse.json({ scenario: scenario.trim() });
+        return NextResponse.json({ scenario: scenario.trim(), usage, servedBy });
 
     } catch (error: any) {
         console.error("Scenario API Error:", error);
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getLangName, prompts } from '@/lib/ai/prompts';
-import { makeOpenAIRequest, makeAnthropicRequest, makeGoogleRequest, makeOpenRouterRequest, makeGroqRequest } from '@/lib/ai/providers';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
 
 export const runtime = 'edge';
 
@@ -9,14 +9,16 @@ export async function POST(req: NextRequest) {
     try {
         const { conversation_history, source_lang = 'en', num_suggestions = 6 } = await req.json();
 
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'suggestions');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             // Fallback to Python Backend if configured
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 const pyRes = await fetch(`${backendUrl}/api/ai/suggestions`, {
                     method: 'POST',
+                    signal: req.signal,
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ conversation_history, source_lang, num_suggestions })
                 });
@@ -51,51 +53,17 @@ export async function POST(req: NextRequest) {
         const prompt = prompts.suggestions(user_input, ai_response, contextText, num_suggestions, targetLangName, source_lang);
         const systemMsg = `You are an AI conversation assistant specializing in generating engaging, natural conversation replies in ${targetLangName}.`;
 
-        let content = "";
-
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 300,
-                messages: [{ role: 'user', content: prompt }],
-                system: systemMsg
-            });
-            content = data.content[0].text;
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, `${systemMsg}\n\n${prompt}`);
-            content = data.text;
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, {
-                model,
-                messages: [
-                    { role: "system", content: systemMsg },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, {
-                model,
-                messages: [
-                    { role: "system", content: systemMsg },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        } else {
-            // OpenAI (default)
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', {
-                model,
-                max_tokens: 300,
-                temperature: 0.9,
-                messages: [
-                    { role: "system", content: systemMsg },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        }
-
+        const { text: content, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'suggestions',
+            model,
+            maxTokens: 300,
+            temperature: 0.9,
+            signal: req.signal,
+            messages: [
+                { role: 'system', content: systemMsg },
+                { role: 'user', content: prompt }
+            ]
+        });
 
         // Parse Output
         const suggestions = content.split('\n')
@@ -105,7 +73,9 @@ export async function POST(req: NextRequest) {
 
         return NextResponse.json({
             suggestions: suggestions.slice(0, num_suggestions),
-            count: suggestions.length
+            count: suggestions.length,
+            usage,
+            servedBy
         });
 
     } catch (error: any) {
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prompts } from '@/lib/ai/prompts';
-import { makeOpenAIRequest, makeAnthropicRequest, makeGoogleRequest, makeOpenRouterRequest, makeGroqRequest } from '@/lib/ai/providers';
-import { getLLMRequestConfig } from '@/lib/ai/llm-request';
+import { parseJSONContent } from '@/lib/ai/providers';
+import { getLLMClient } from '@/lib/ai/llm-client';
+import { getLLMRequestConfig, isLLMConfigured } from '@/lib/ai/llm-request';
 
 export const runtime = 'edge';
 
@@ -13,13 +14,15 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
         }
 
-        const { apiKey, model, provider } = getLLMRequestConfig(req);
+        const llmConfig = await getLLMRequestConfig(req, 'translation');
+        const { model } = llmConfig;
 
-        if (!apiKey) {
+        if (!isLLMConfigured(llmConfig)) {
             const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
             try {
                 const pyRes = await fetch(`${backendUrl}/api/ai/translate/multiple`, {
                     method: 'POST',
+                    signal: req.signal,
                     headers: {
                         'Content-Type': 'application/json',
                         'ngrok-skip-browser-warning': 'true'
@@ -34,57 +37,20 @@ export async function POST(req: NextRequest) {
         }
 
         const prompt = prompts.translateMultiple(text, target_langs);
-        let content = "";
+        const { text: content, usage, servedBy } = await getLLMClient(llmConfig).chat({
+            feature: 'translation',
+            model,
+            maxTokens: 1000,
+            json: true,
+            signal: req.signal,
+            messages: [{ role: 'user', content: prompt }]
+        });
 
-        if (provider === 'anthropic') {
-            const data = await makeAnthropicRequest(apiKey, {
-                model,
-                max_tokens: 1000,
-                messages: [{ role: 'user', content: prompt }]
-            });
-            content = data.content[0].text;
-        } else if (provider === 'google') {
-            const data = await makeGoogleRequest(apiKey, model, prompt);
-            content = data.text;
-        } else if (provider === 'openrouter') {
-            const data = await makeOpenRouterRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else if (provider === 'groq') {
-            const data = await makeGroqRequest(apiKey, {
-                model,
-                messages: [{ role: "user", content: prompt }]
-            });
-            content = data.choices[0].message.content;
-        } else {
-            // OpenAI
-            const data = await makeOpenAIRequest(apiKey, '/chat/completions', {
-                model,
-                max_tokens: 1000,
-                response_format: { type: "json_object" },
-                messages: [
-                    { role: "system", content: "Output valid JSON only." },
-                    { role: "user", content: prompt }
-                ]
-            });
-            content = data.choices[0].message.content;
-        }
-
-        // Parse JSON
         try {
-            const json = JSON.parse(content);
-            return NextResponse.json({ translations: json });
-        } catch (e) {
-            // Fix JSON markdown
-            const clean = content.replace(/```json\n|```/g, '');
-            try {
-                return NextResponse.json({ translations: JSON.parse(clean) });
-            } catch (e2) {
-                console.error("Translation Parse Error:", content);
-                return NextResponse.json({ error: "Failed to parse translations" }, { status: 500 });
-            }
+            return NextResponse.json({ translations: parseJSONContent(content), usage, servedBy });
+        } catch {
+            console.error("Translation Parse Error:", content);
+            return NextResponse.json({ error: "Failed to parse translations" }, { status: 500 });
         }
 
     } catch (error: any) {
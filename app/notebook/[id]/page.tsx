@@ -2,9 +2,14 @@
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams } from 'next/navigation';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { getNotebookById, NotebookDoc, upsertNotebook } from '@/lib/utils/notebook-storage';
+import { getNotebookById, getNotebookRevisions, NotebookDoc, NotebookRevision, restoreNotebookRevision, upsertNotebook } from '@/lib/utils/notebook-storage';
+import { slugifyHeading, splitMarkdownSections } from '@/lib/utils/markdown';
+import { addUsage, EMPTY_USAGE_TOTALS, formatCost, formatTokens } from '@/lib/utils/usage-tracker';
+import { NotebookExportMenu } from '@/components/shared/NotebookExportMenu';
+import { NotebookMarkdown } from '@/components/shared/NotebookMarkdown';
+import { NotebookHistoryModal } from '@/components/shared/NotebookHistoryModal';
+import { NotebookSectionEditor, type SectionEdit, type TextRange } from '@/components/shared/NotebookSectionEditor';
+import { StorageErrorBanner } from '@/components/shared/StorageErrorBanner';
 
 const formatDate = (value: string) => {
     try {
@@ -22,29 +27,69 @@ export default function NotebookPage() {
     }, [params]);
 
     const [doc, setDoc] = useState<NotebookDoc | null>(null);
-    const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+    const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
     const [isSaving, setIsSaving] = useState(false);
+    const [saveFailed, setSaveFailed] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [revisions, setRevisions] = useState<NotebookRevision[]>([]);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [selection, setSelection] = useState<TextRange | null>(null);
+    const [isSectionEditPending, setIsSectionEditPending] = useState(false);
     const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const previewRef = useRef<HTMLDivElement>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const jumpedRef = useRef(false);
 
     useEffect(() => {
         if (!notebookId) return;
-        const loaded = getNotebookById(notebookId);
-        if (loaded) {
-            setDoc(loaded);
-            setStatus('ready');
-        } else {
-            setStatus('missing');
-        }
+        Promise.all([getNotebookById(notebookId), getNotebookRevisions(notebookId)])
+            .then(([loaded, history]) => {
+                if (loaded) {
+                    setDoc(loaded);
+                    setRevisions(history);
+                    setStatus('ready');
+                } else {
+                    setStatus('missing');
+                }
+            })
+            .catch(() => setStatus('error'));
     }, [notebookId]);
 
+    // Jump to a linked location once loaded: ?at=<offset>&len=<n> selects text in the editor,
+    // #<heading-slug> scrolls the preview to that section
+    useEffect(() => {
+        if (status !== 'ready' || !doc || jumpedRef.current) return;
+        jumpedRef.current = true;
+        const params = new URLSearchParams(window.location.search);
+        const at = Number(params.get('at'));
+        let anchor = decodeURIComponent(window.location.hash.slice(1));
+        if (params.has('at') && Number.isFinite(at) && textareaRef.current) {
+            const textarea = textareaRef.current;
+            const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+            textarea.focus();
+            textarea.setSelectionRange(at, at + (Number(params.get('len')) || 0));
+            textarea.scrollTop = Math.max(0, (doc.content.slice(0, at).split('\n').length - 3) * lineHeight);
+            if (!anchor) {
+                const section = splitMarkdownSections(doc.content).filter(item => item.start <= at).pop();
+                if (section) anchor = slugifyHeading(section.heading);
+            }
+        }
+        if (anchor) document.getElementById(anchor)?.scrollIntoView({ block: 'start' });
+    }, [status, doc]);
+
     useEffect(() => {
         if (!doc) return;
         if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
         setIsSaving(true);
         saveTimerRef.current = setTimeout(() => {
-            upsertNotebook(doc);
-            setIsSaving(false);
+            upsertNotebook(doc)
+                .then((saved) => getNotebookRevisions(saved.id))
+                .then((history) => {
+                    setRevisions(history);
+                    setSaveFailed(false);
+                })
+                .catch(() => setSaveFailed(true))
+                .finally(() => setIsSaving(false));
         }, 500);
         return () => {
             if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
@@ -59,6 +104,35 @@ export default function NotebookPage() {
         setDoc((prev) => prev ? { ...prev, content: value, updatedAt: new Date().toISOString() } : prev);
     };
 
+    // Flush a pending autosave so unsaved edits land in history before an AI or restore revision
+    const flushPendingSave = async (current: NotebookDoc) => {
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        await upsertNotebook(current);
+    };
+
+    const handleRestore = async (revision: NotebookRevision) => {
+        if (!doc) return;
+        await flushPendingSave(doc);
+        const restored = await restoreNotebookRevision(doc.id, revision.id);
+        if (!restored) throw new Error('That revision no longer exists.');
+        setRevisions(await getNotebookRevisions(restored.id));
+        setDoc(restored);
+    };
+
+    const handleSectionAccept = async ({ start, end, replacement, change, usage }: SectionEdit) => {
+        if (!doc) return;
+        await flushPendingSave(doc);
+        const saved = await upsertNotebook({
+            ...doc,
+            content: `${doc.content.slice(0, start)}${replacement}${doc.content.slice(end)}`,
+            updatedAt: new Date().toISOString(),
+            usage: usage ? addUsage(doc.usage ?? EMPTY_USAGE_TOTALS, usage) : doc.usage
+        }, change);
+        setRevisions(await getNotebookRevisions(saved.id));
+        setDoc(saved);
+        setSelection(null);
+    };
+
     const handleCopy = async () => {
         if (!doc?.content) return;
         try {
@@ -70,24 +144,16 @@ export default function NotebookPage() {
         }
     };
 
-    const handleDownload = () => {
-        if (!doc) return;
-        const blob = new Blob([doc.content], { type: 'text/markdown;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${doc.title || 'notebook'}.md`;
-        link.click();
-        URL.revokeObjectURL(url);
-    };
-
-    if (status === 'missing') {
+    if (status === 'missing' || status === 'error') {
         return (
             <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-6">
+                <StorageErrorBanner />
                 <div className="max-w-lg text-center space-y-3">
-                    <h1 className="text-2xl font-semibold">Notebook not found</h1>
+                    <h1 className="text-2xl font-semibold">{status === 'error' ? 'Notebook could not be loaded' : 'Notebook not found'}</h1>
                     <p className="text-muted-foreground">
-                        This notebook does not exist in local storage. Generate a new one from the conversation history.
+                        {status === 'error'
+                            ? 'Browser storage could not be read. Check that site storage is enabled and reload.'
+                            : 'This notebook does not exist in local storage. Generate a new one from the conversation history.'}
                     </p>
                 </div>
             </div>
@@ -104,6 +170,14 @@ export default function NotebookPage() {
 
     return (
         <div className="min-h-screen bg-background text-foreground">
+            <StorageErrorBanner />
+            <NotebookHistoryModal
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                revisions={revisions}
+                currentContent={doc.content}
+                onRestore={handleRestore}
+            />
             <div className="sticky top-0 z-10 border-b border-border bg-background/90 backdrop-blur">
                 <div className="max-w-6xl mx-auto px-6 py-4 flex flex-col gap-3">
                     <div className="flex flex-wrap items-center gap-3">
@@ -114,23 +188,34 @@ export default function NotebookPage() {
                             placeholder="Notebook title"
                         />
                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                            <span>{isSaving ? 'Saving...' : 'Saved'}</span>
+                            <span className={saveFailed && !isSaving ? 'text-destructive' : undefined}>
+                                {isSaving ? 'Saving...' : saveFailed ? 'Save failed' : 'Saved'}
+                            </span>
                             <span>•</span>
                             <span>Updated {formatDate(doc.updatedAt)}</span>
+                            {doc.usage && doc.usage.requests > 0 && (
+                                <>
+                                    <span>•</span>
+                                    <span title={`${doc.usage.requests} AI generation(s)`}>
+                                        {formatTokens(doc.usage.totalTokens)} tokens · {formatCost(doc.usage.cost)}
+                                    </span>
+                                </>
+                            )}
                         </div>
                         <div className="flex items-center gap-2 ml-auto">
                             <button
-                                onClick={handleCopy}
+                                onClick={() => setIsHistoryOpen(true)}
                                 className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors"
                             >
-                                {copied ? 'Copied' : 'Copy markdown'}
+                                History{revisions.length > 0 ? ` (${revisions.length})` : ''}
                             </button>
                             <button
-                                onClick={handleDownload}
+                                onClick={handleCopy}
                                 className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors"
                             >
-                                Download
+                                {copied ? 'Copied' : 'Copy markdown'}
                             </button>
+                            <NotebookExportMenu doc={doc} getRenderedHtml={() => previewRef.current?.innerHTML ?? ''} />
                         </div>
                     </div>
                     {doc.source && (
@@ -152,37 +237,27 @@ export default function NotebookPage() {
             <div className="max-w-6xl mx-auto px-6 py-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="flex flex-col gap-2">
                     <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Markdown</div>
+                    <NotebookSectionEditor
+                        content={doc.content}
+                        title={doc.title}
+                        selection={selection}
+                        onBusyChange={setIsSectionEditPending}
+                        onAccept={handleSectionAccept}
+                    />
                     <textarea
+                        ref={textareaRef}
                         value={doc.content}
                         onChange={(event) => handleContentChange(event.target.value)}
+                        onSelect={(event) => setSelection({ start: event.currentTarget.selectionStart, end: event.currentTarget.selectionEnd })}
+                        readOnly={isSectionEditPending}
                         className="min-h-[70vh] w-full rounded-lg border border-border bg-card/60 p-4 text-sm font-mono leading-relaxed focus:outline-none focus:ring-1 focus:ring-primary/50 resize-vertical"
                         spellCheck={false}
                     />
                 </div>
                 <div className="flex flex-col gap-2">
                     <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Preview</div>
-                    <div className="min-h-[70vh] w-full rounded-lg border border-border bg-card/60 p-5 overflow-y-auto custom-scrollbar">
-                        <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            components={{
-                                h1: ({ children }) => <h1 className="text-2xl font-semibold mb-3 mt-4">{children}</h1>,
-                                h2: ({ children }) => <h2 className="text-xl font-semibold mb-2 mt-4">{children}</h2>,
-                                h3: ({ children }) => <h3 className="text-lg font-semibold mb-2 mt-3">{children}</h3>,
-                                p: ({ children }) => <p className="text-sm leading-relaxed text-foreground/90">{children}</p>,
-                                ul: ({ children }) => <ul className="list-disc pl-5 space-y-1 text-sm">{children}</ul>,
-                                ol: ({ children }) => <ol className="list-decimal pl-5 space-y-1 text-sm">{children}</ol>,
-                                li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-                                code: ({ children }) => <code className="px-1 py-0.5 rounded bg-muted text-xs">{children}</code>,
-                                pre: ({ children }) => (
-                                    <pre className="bg-muted p-3 rounded-md overflow-x-auto text-xs leading-relaxed">{children}</pre>
-                                ),
-                                blockquote: ({ children }) => (
-                                    <blockquote className="border-l-2 border-border pl-3 text-sm text-muted-foreground italic">{children}</blockquote>
-                                )
-                            }}
-                        >
-                            {doc.content}
-                        </ReactMarkdown>
+                    <div ref={previewRef} className="min-h-[70vh] w-full rounded-lg border border-border bg-card/60 p-5 overflow-y-auto custom-scrollbar">
+                        <NotebookMarkdown content={doc.content} />
                     </div>
                 </div>
             </div>
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { getNotebookById, NotebookDoc } from '@/lib/utils/notebook-storage';
+import { NotebookMarkdown } from '@/components/shared/NotebookMarkdown';
+
+const formatDate = (value: string) => {
+    try {
+        return new Date(value).toLocaleString();
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Print-optimized notebook: single column, light theme, no app chrome. "Save as PDF" from the print dialog.
+ */
+export default function NotebookPrintPage() {
+    const params = useParams();
+    const notebookId = useMemo(() => {
+        const raw = params?.id;
+        return Array.isArray(raw) ? raw[0] : raw;
+    }, [params]);
+
+    const [doc, setDoc] = useState<NotebookDoc | null>(null);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+
+    useEffect(() => {
+        if (!notebookId) return;
+        getNotebookById(notebookId)
+            .then((loaded) => {
+                setDoc(loaded);
+                setStatus(loaded ? 'ready' : 'missing');
+            })
+            .catch(() => setStatus('error'));
+    }, [notebookId]);
+
+    useEffect(() => {
+        if (doc) document.title = doc.title || 'Notebook';
+    }, [doc]);
+
+    if (status !== 'ready' || !doc) {
+        return (
+            <div className="min-h-screen flex items-center justify-center p-6 text-sm text-muted-foreground">
+                {status === 'loading' ? 'Loading notebook...' : status === 'error' ? 'Notebook could not be loaded.' : 'Notebook not found.'}
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-white text-neutral-900 print:min-h-0">
+            <div className="print:hidden sticky top-0 border-b border-neutral-200 bg-white/90 backdrop-blur">
+                <div className="max-w-3xl mx-auto px-6 py-3 flex items-center gap-3 text-sm">
+                    <a href={`/notebook/${doc.id}`} className="text-neutral-500 hover:text-neutral-900">← Back to editor</a>
+                    <button
+                        onClick={() => window.print()}
+                        className="ml-auto px-3 py-1.5 text-xs font-semibold rounded-md bg-neutral-900 text-white hover:bg-neutral-700 transition-colors"
+                    >
+                        Print / Save as PDF
+                    </button>
+                </div>
+            </div>
+            <div className="max-w-3xl mx-auto px-6 py-10 print:p-0 print:max-w-none">
+                <div className="mb-6 pb-3 border-b border-neutral-200 text-xs text-neutral-500">
+                    Updated {formatDate(doc.updatedAt)}
+                    {doc.source?.partyAContext && <> · {doc.source.partyAContext}</>}
+                    {doc.source?.partyBContext && <> · {doc.source.partyBContext}</>}
+                </div>
+                {/* Force dark-on-white regardless of the app theme */}
+                <article className="[&_*]:!text-neutral-900 [&_pre]:!bg-neutral-100 [&_code]:!bg-neutral-100 [&_pre]:break-inside-avoid [&_h2]:break-after-avoid [&_h3]:break-after-avoid">
+                    <NotebookMarkdown content={doc.content} />
+                </article>
+            </div>
+        </div>
+    );
+}
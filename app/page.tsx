@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Github } from 'lucide-react';
+import { Github, Search } from 'lucide-react';
 import PartyAPanel from '@/components/party-a/PartyAPanel';
 import PartyBPanel from '@/components/party-b/PartyBPanel';
 import { AppSettings } from '@/components/shared/AppSettings';
@@ -11,16 +11,38 @@ import { usePartyA } from '@/hooks/usePartyA';
 import { usePartyB } from '@/hooks/usePartyB';
 import { useAudioController } from '@/hooks/useAudioController';
 import { useSimulationManager, SimulationDelegate } from '@/hooks/useSimulationManager';
+import { useUsageMeter } from '@/hooks/useUsageMeter';
 import { chatService } from '@/lib/services/llm';
 import { sequentialAudioPlayer } from '@/lib/utils/audio-player';
+import { isAbortError } from '@/lib/utils/api-client';
+import { usageTracker } from '@/lib/utils/usage-tracker';
 import { UserMenu } from '@/components/shared/UserMenu';
 import { ConfigurationModal } from '@/components/offline/ConfigurationModal';
 import { ModelSelector } from '@/components/offline/ModelSelector';
+import { UsageMeter } from '@/components/shared/UsageMeter';
 import { ConversationHistoryModal } from '@/components/shared/ConversationHistoryModal';
 import { NotebookBuilderModal } from '@/components/shared/NotebookBuilderModal';
+import { SessionLibraryModal } from '@/components/shared/SessionLibraryModal';
+import { StorageErrorBanner } from '@/components/shared/StorageErrorBanner';
+import { ImportModal } from '@/components/shared/ImportModal';
+import { SearchModal } from '@/components/shared/SearchModal';
 import { loadNotebooks, NotebookDoc } from '@/lib/utils/notebook-storage';
+import { loadGroundingNotebooks, resolveGrounding } from '@/lib/utils/notebook-collections';
+import type { GroundingNotebook } from '@/lib/ai/retrieval';
+import { buildSessionTitle, createSessionId, getSessionById, SessionDoc, upsertSession } from '@/lib/utils/session-storage';
+import {
+  appendTurn,
+  createConversationTree,
+  getActiveHistory,
+  getNode,
+  hasBranches,
+  rewindTo,
+  switchBranch,
+  type ConversationTree
+} from '@/lib/utils/conversation-tree';
 import { getApiUrl } from '@/lib/config/api';
 import { getLLMHeaders } from '@/lib/config/llm-config';
+import { getComparableRoutes, getVariantSpecs, type VariantMode } from '@/lib/utils/response-variants';
 
 // Types
 interface HistoryItem {
@@ -52,6 +74,14 @@ export default function Home() {
   const [activeNotebook, setActiveNotebook] = useState<NotebookDoc | null>(null);
   const [isNotebookBuilderOpen, setIsNotebookBuilderOpen] = useState(false);
   const activeNotebookRef = useRef<NotebookDoc | null>(null);
+  // Notebooks respond/autoplay retrieve excerpts from (a collection's members, or the active notebook)
+  const groundingRef = useRef<GroundingNotebook[]>([]);
+  // Saved session the current conversation is written to (a new one starts with each context)
+  const [sessionId, setSessionId] = useState<string>(createSessionId);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // 'notebooks' is the notebook picker opened from the notebook selector
+  const [searchMode, setSearchMode] = useState<'all' | 'notebooks' | null>(null);
 
   useEffect(() => {
     const markInteraction = () => {
@@ -71,13 +101,26 @@ export default function Home() {
   }, []);
 
   const refreshNotebooks = useCallback(() => {
-    setNotebooks(loadNotebooks());
+    // Failures are surfaced by the storage banner
+    loadNotebooks().then(setNotebooks).catch(() => { });
   }, []);
 
   useEffect(() => {
     refreshNotebooks();
   }, [refreshNotebooks]);
 
+  // Ctrl/Cmd+K opens search
+  useEffect(() => {
+    const handleSearchShortcut = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setSearchMode('all');
+      }
+    };
+    window.addEventListener('keydown', handleSearchShortcut);
+    return () => window.removeEventListener('keydown', handleSearchShortcut);
+  }, []);
+
   useEffect(() => {
     activeNotebookRef.current = activeNotebook;
   }, [activeNotebook]);
@@ -104,6 +147,8 @@ export default function Home() {
   const [readingSpeed, setReadingSpeed] = useState(180); // WPM
   const [showTypingEffect, setShowTypingEffect] = useState(true);
   const [autoPlayActive, setAutoPlayActive] = useState(false);
+  // Objective for autoplay runs; checked after each cycle
+  const [autoPlayGoal, setAutoPlayGoal] = useState('');
 
   // 5. Initialize Auto-Play Mode (Order matters: defined here to use state below, but needs careful ordering with usePartyA)
   // Actually, we need to pass `isRunning` to usePartyA, but `useAutoPlay` isn't initialized yet.
@@ -142,8 +187,7 @@ export default function Home() {
             content: text,
             translations: partyA.state.lastSentTranslations
           };
-          conversationHistoryRef.current.push(newItem);
-          setHistoryState(prev => [...prev, newItem]);
+          appendToHistory(newItem);
         }
 
         // Generate Party B response with full context & history
@@ -151,12 +195,7 @@ export default function Home() {
           text,
           conversationHistoryRef.current, // Shared history
           partyA.state.context, // Party A context
-          activeNotebookRef.current
-            ? {
-                title: activeNotebookRef.current.title,
-                content: activeNotebookRef.current.content
-              }
-            : undefined
+          groundingRef.current
         );
       }
     }
@@ -170,15 +209,17 @@ export default function Home() {
     if (wasGenerating && !isGenerating) {
       // Just finished generating
 
-      if (partyB.state.response) {
+      if (discardResponseIdRef.current === partyB.state.responseId) {
+        // Cancelled by a rewind: the partial reply belongs to a branch that was left
+        discardResponseIdRef.current = null;
+      } else if (partyB.state.response) {
         if (!simulationManager.state.isRunning) {
           const newItem = {
             role: 'party_b',
             content: partyB.state.response,
             translations: partyB.state.translations
           };
-          conversationHistoryRef.current.push(newItem);
-          setHistoryState(prev => [...prev, newItem]);
+          appendToHistory(newItem);
         }
       }
     }
@@ -192,8 +233,24 @@ export default function Home() {
   // 5. Initialize Simulation Manager
   // ============================================================================
 
-  // History for Simulation Context
+  // History for Simulation Context: the active branch of the conversation tree
   const conversationHistoryRef = useRef<HistoryItem[]>([]);
+  const [conversationTree, setConversationTree] = useState<ConversationTree>(createConversationTree);
+  const conversationTreeRef = useRef(conversationTree);
+  // The Party B generation a rewind cancelled mid-reply, so its partial reply is not added to the new branch.
+  // Kept per generation: a regenerate cancels and restarts in one batch, and its reply must still be recorded.
+  const discardResponseIdRef = useRef<number | null>(null);
+
+  const applyConversationTree = (tree: ConversationTree) => {
+    conversationTreeRef.current = tree;
+    conversationHistoryRef.current = getActiveHistory(tree);
+    setConversationTree(tree);
+    setHistoryState([...conversationHistoryRef.current]);
+  };
+
+  const appendToHistory = (item: HistoryItem) => {
+    applyConversationTree(appendTurn(conversationTreeRef.current, item));
+  };
 
   // Refs for Party B state (for proper polling in waitForPartyBResponse)
   const partyBResponseRef = useRef(partyB.state.response);
@@ -222,17 +279,11 @@ export default function Home() {
   }, []);
 
   const delegate: SimulationDelegate = {
-    predictNextMessage: async (history, summary) => {
+    predictNextMessage: async (history, summary, signal, steer) => {
       // We use the local ref history + context
       try {
         // Construct prompt similar to useAutoPlay logic
         const currentHistory = conversationHistoryRef.current;
-        const notebookPayload = activeNotebookRef.current
-          ? {
-              title: activeNotebookRef.current.title,
-              content: activeNotebookRef.current.content
-            }
-          : undefined;
         const response = await chatService.generateNextMessage({
           party_a_context: partyA.state.context,
           party_b_context: partyB.state.context, // Party B context is what Party A is "reacting" to in a way? No, Party A just talks.
@@ -247,14 +298,32 @@ export default function Home() {
             role: h.role,
             content: h.content
           })),
-          notebook: notebookPayload
-        });
+          notebooks: groundingRef.current,
+          goal: autoPlayGoal.trim() || undefined,
+          steer
+        }, signal);
         return response.message;
       } catch (e) {
+        if (isAbortError(e)) return null;
         console.error("Prediction failed", e);
         return null;
       }
     },
+    evaluateProgress: async (goal, signal) => {
+      try {
+        return await chatService.evaluateAutoPlay({
+          goal,
+          party_a_context: partyA.state.context,
+          party_b_context: partyB.state.context,
+          history: conversationHistoryRef.current.map(h => ({ role: h.role, content: h.content })),
+          notebooks: groundingRef.current
+        }, signal);
+      } catch (e) {
+        // Without a verdict autoplay continues to its cycle limit
+        if (!isAbortError(e)) console.warn("Goal check failed", e);
+        return null;
+      }
+    },
     typeMessage: async (text) => {
       // Simple typing effect
       if (!text) return true;
@@ -304,6 +373,8 @@ export default function Home() {
 
       let attempts = 0;
       while (attempts < 600) { // 60s timeout
+        if (!isSimulationRunningRef.current) return null;
+
         const currentError = partyBErrorRef.current;
         if (currentError) {
           console.warn('Party B generation error:', currentError);
@@ -356,12 +427,13 @@ export default function Home() {
       // Use passed translations if available, otherwise try to extract (fallback)
       // For Party B, we were previously using a ref, but now useSimulationManager passes it from waitForPartyBResponse result.
 
-      const newItem = { role, content, translations };
-      conversationHistoryRef.current.push(newItem);
-      setHistoryState(prev => [...prev, newItem]);
+      appendToHistory({ role, content, translations });
     },
     warmupAudio: () => {
       sequentialAudioPlayer.resumeContext();
+    },
+    cancelPendingRequests: () => {
+      partyB.actions.cancelResponse();
     }
   };
 
@@ -372,9 +444,13 @@ export default function Home() {
     playbackMode,
     delayMultiplier,
     readingSpeed,
-    maxCycles: 10 // Default
+    maxCycles: 10, // Default
+    goal: autoPlayGoal
   });
 
+  // Running token/cost meter for the current conversation (reset with each new context)
+  const usageMeter = useUsageMeter();
+
   // Keep Ref in sync
   useEffect(() => {
     isSimulationRunningRef.current = simulationManager.state.isRunning;
@@ -425,11 +501,13 @@ export default function Home() {
     // Clear history ref
     simulationManager.actions.stop();
     // Clear history ref
-    conversationHistoryRef.current = [];
-    setHistoryState([]);
+    applyConversationTree(createConversationTree());
+    usageMeter.actions.reset();
+    setSessionId(createSessionId());
 
     if (source === 'conversation') {
       setActiveNotebook(null);
+      groundingRef.current = [];
     }
 
     partyA.actions.stopAllAudio();
@@ -470,7 +548,7 @@ export default function Home() {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
         'ngrok-skip-browser-warning': 'true',
-        ...getLLMHeaders()
+        ...getLLMHeaders('context')
       };
       const response = await fetch(getApiUrl('/api/ai/context'), {
         method: 'POST',
@@ -499,13 +577,179 @@ export default function Home() {
     const shouldReset = activeNotebookRef.current?.id !== doc.id;
     setActiveNotebook(doc);
     activeNotebookRef.current = doc;
+    groundingRef.current = await loadGroundingNotebooks(doc).catch(() => [doc]);
     if (shouldReset) {
       const contexts = await buildNotebookContexts(doc);
       handleContextSet(contexts, 'notebook');
+      // Recorded after the reset so the context call counts toward the new conversation
+      usageTracker.record('context', contexts.usage, contexts.servedBy);
     }
     await partyA.actions.submitText(text);
   };
 
+  // Restore a saved session: contexts, languages, history and its notebook or collection grounding
+  const handleResumeSession = async (doc: SessionDoc) => {
+    const notebook = doc.notebookId ? await resolveGrounding(doc.notebookId).catch(() => null) : null;
+    handleContextSet({ party_a: doc.partyA, party_b: doc.partyB }, 'conversation');
+
+    if (notebook) {
+      setActiveNotebook(notebook);
+      activeNotebookRef.current = notebook;
+      groundingRef.current = await loadGroundingNotebooks(notebook).catch(() => [notebook]);
+      setSelectedNotebookId(notebook.id);
+    }
+
+    setSessionId(doc.id);
+    applyConversationTree(doc.tree ? structuredClone(doc.tree) : createConversationTree(doc.history));
+  };
+
+  // ============================================================================
+  // Branching: rewind, edit and regenerate
+  // ============================================================================
+
+  // Leave the current turn: stop autoplay and drop a reply still streaming
+  const stopForRewind = () => {
+    if (simulationManager.state.isRunning) simulationManager.actions.stop();
+    partyB.actions.discardVariants();
+    if (partyBIsGeneratingRef.current) {
+      discardResponseIdRef.current = partyB.state.responseId;
+      partyB.actions.cancelResponse();
+    }
+  };
+
+  const handleRewind = (nodeId: string | null) => {
+    stopForRewind();
+    applyConversationTree(rewindTo(conversationTreeRef.current, nodeId));
+  };
+
+  const handleSwitchBranch = (nodeId: string) => {
+    stopForRewind();
+    applyConversationTree(switchBranch(conversationTreeRef.current, nodeId));
+  };
+
+  // Resend an edited Party A message as a new branch next to the original; Party B answers it
+  const handleEditMessage = (nodeId: string, text: string) => {
+    const node = getNode(conversationTreeRef.current, nodeId);
+    if (!node || !text.trim()) return;
+    stopForRewind();
+    applyConversationTree(rewindTo(conversationTreeRef.current, node.parentId));
+    partyA.actions.submitText(text);
+  };
+
+  // Ask Party B again; the new reply becomes a branch next to the original
+  const handleRegenerate = (nodeId: string) => {
+    const node = getNode(conversationTreeRef.current, nodeId);
+    const message = getNode(conversationTreeRef.current, node?.parentId ?? null);
+    if (!node || !message) return;
+    stopForRewind();
+    applyConversationTree(rewindTo(conversationTreeRef.current, message.id));
+    partyB.actions.generateResponse(
+      message.content,
+      conversationHistoryRef.current,
+      partyA.state.context,
+      groundingRef.current
+    );
+  };
+
+  // ============================================================================
+  // Comparing alternative Party B replies
+  // ============================================================================
+
+  // Re-checked when settings close, since providers may have been added or removed
+  const [canCompareModels, setCanCompareModels] = useState(false);
+  useEffect(() => {
+    if (!isSettingsOpen) setCanCompareModels(getComparableRoutes().length > 0);
+  }, [isSettingsOpen]);
+
+  // The Party A message behind the reply on screen, when that reply ends the active branch
+  const getComparedMessage = (tree: ConversationTree) => {
+    const reply = getNode(tree, tree.activeId);
+    const message = getNode(tree, reply?.parentId ?? null);
+    return reply?.role === 'party_b' && message?.role === 'party_a' && reply.content === partyB.state.response
+      ? message
+      : null;
+  };
+
+  const handleCompareReplies = (count: number, mode: VariantMode) => {
+    const message = getComparedMessage(conversationTreeRef.current);
+    const specs = getVariantSpecs(count, mode);
+    if (!message || specs.length === 0) return;
+    partyB.actions.generateVariants(
+      message.content,
+      getActiveHistory(rewindTo(conversationTreeRef.current, message.id)),
+      partyA.state.context,
+      groundingRef.current,
+      specs
+    );
+  };
+
+  // The chosen reply becomes a branch next to the one it replaces, so later turns build on it
+  const handleChooseVariant = (index: number) => {
+    const chosen = partyB.actions.chooseVariant(index);
+    const tree = conversationTreeRef.current;
+    const reply = getNode(tree, tree.activeId);
+    if (!chosen || reply?.role !== 'party_b') return;
+    applyConversationTree(appendTurn(rewindTo(tree, reply.parentId), { role: 'party_b', content: chosen.response }));
+  };
+
+  const canCompareReplies = !simulationManager.state.isRunning
+    && !partyB.state.isGenerating
+    && !!getComparedMessage(conversationTree);
+
+  // Latest resume handler, for the one-time ?session= load below
+  const resumeSessionRef = useRef(handleResumeSession);
+  useEffect(() => {
+    resumeSessionRef.current = handleResumeSession;
+  });
+
+  // Open a session passed from /session/[id] (?session=<id>)
+  useEffect(() => {
+    const requestedId = new URLSearchParams(window.location.search).get('session');
+    if (!requestedId) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    getSessionById(requestedId)
+      .then((doc) => doc && resumeSessionRef.current(doc))
+      .catch(() => { });
+  }, []);
+
+  // Autosave the conversation once it has messages. Saves run one at a time, in order, so a slow
+  // read-compare-write never overwrites a newer snapshot or loses the session's createdAt/title.
+  const sessionSaveRef = useRef<Promise<void>>(Promise.resolve());
+  useEffect(() => {
+    if (conversationTree.nodes.length === 0) return;
+
+    const snapshot = {
+      partyA: { context: partyA.state.context, languages: partyA.state.languages },
+      partyB: { context: partyB.state.context, languages: partyB.state.languages },
+      history: historyState,
+      tree: hasBranches(conversationTree) ? conversationTree : undefined,
+      notebookId: activeNotebook?.id
+    };
+
+    const save = async () => {
+      const existing = await getSessionById(sessionId);
+      // Resuming writes the same data back; don't bump its timestamp
+      if (existing && JSON.stringify({
+        partyA: existing.partyA,
+        partyB: existing.partyB,
+        history: existing.history,
+        tree: existing.tree,
+        notebookId: existing.notebookId
+      }) === JSON.stringify(snapshot)) return;
+
+      const now = new Date().toISOString();
+      await upsertSession({
+        id: sessionId,
+        title: existing?.title || buildSessionTitle(snapshot.partyB.context, historyState),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        ...snapshot
+      });
+    };
+    // Failures are surfaced by the storage banner
+    sessionSaveRef.current = sessionSaveRef.current.then(save).catch(() => { });
+  }, [sessionId, historyState, conversationTree, partyA.state.context, partyA.state.languages, partyB.state.context, partyB.state.languages, activeNotebook?.id]);
+
   const selectedNotebook = notebooks.find((notebook) => notebook.id === selectedNotebookId) || null;
 
   // ============================================================================
@@ -527,6 +771,10 @@ export default function Home() {
           }}
           autoplayCount={simulationManager.state.cycleCount}
           maxAutoplayCount={10}
+          autoPlayGoal={autoPlayGoal}
+          onAutoPlayGoalChange={setAutoPlayGoal}
+          autoPlayEvaluation={simulationManager.state.evaluation}
+          autoPlayStopReason={simulationManager.state.stopReason}
           mode={conversationMode}
           onModeChange={setConversationMode}
           notebooks={notebooks}
@@ -534,6 +782,7 @@ export default function Home() {
           onNotebookSelect={setSelectedNotebookId}
           onNotebookSend={handleNotebookSend}
           onOpenNotebookBuilder={() => setIsNotebookBuilderOpen(true)}
+          onSearchNotebooks={() => setSearchMode('notebooks')}
 
           // Left: Brand
           // Left: Brand
@@ -560,6 +809,7 @@ export default function Home() {
             <div className="flex flex-wrap items-center justify-end gap-2 md:gap-4">
               {/* Separate Model Selector */}
               <ModelSelector onOpenSettings={() => setIsSettingsOpen(true)} />
+              <UsageMeter totals={usageMeter.state.totals} onReset={usageMeter.actions.reset} />
               <AppSettings
                 pauseMicOnAudio={pauseMicOnAudio}
                 onPauseMicChange={setPauseMicOnAudio}
@@ -572,6 +822,14 @@ export default function Home() {
                 showTypingEffect={showTypingEffect}
                 onShowTypingEffectChange={setShowTypingEffect}
               />
+              <button
+                onClick={() => setSearchMode('all')}
+                aria-label="Search"
+                title="Search (Ctrl+K)"
+                className="inline-flex items-center justify-center rounded-full border border-border bg-background/60 p-2 text-muted-foreground transition hover:text-foreground hover:bg-muted"
+              >
+                <Search className="h-4 w-4" />
+              </button>
               <a
                 href={GITHUB_REPO_URL}
                 target="_blank"
@@ -586,6 +844,8 @@ export default function Home() {
               <UserMenu
                 onOpenSettings={() => { }}
                 onOpenKnowledgeStore={() => setIsHistoryOpen(true)}
+                onOpenSessions={() => setIsSessionsOpen(true)}
+                onOpenImport={() => setIsImportOpen(true)}
               />
             </div>
           }
@@ -665,8 +925,17 @@ export default function Home() {
           currentlyPlayingKey={partyB.state.playbackState?.key || null}
           highlightedWordIndex={partyB.state.playbackState?.wordIndex ?? -1}
           response={partyB.state.response}
+          citations={partyB.state.citations}
+          variants={partyB.state.variants}
+          activeVariant={partyB.state.activeVariant}
+          onShowVariant={partyB.actions.showVariant}
+          onChooseVariant={handleChooseVariant}
+          onDiscardVariants={partyB.actions.discardVariants}
+          onCompare={canCompareReplies ? handleCompareReplies : undefined}
+          canCompareModels={canCompareModels}
           isGenerating={partyB.state.isGenerating}
           error={partyB.state.error}
+          isTruncated={partyB.state.isTruncated}
           translations={partyB.state.translations}
           isTranslating={partyB.state.isTranslating}
           onPlayAudio={partyB.actions.playAudio}
@@ -688,6 +957,7 @@ export default function Home() {
         />
       </div>
       <Footer />
+      <StorageErrorBanner />
       <ConfigurationModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
       <ConversationHistoryModal
         isOpen={isHistoryOpen}
@@ -695,6 +965,40 @@ export default function Home() {
         history={historyState}
         partyAContext={partyA.state.context}
         partyBContext={partyB.state.context}
+        sessionId={historyState.length > 0 ? sessionId : undefined}
+        tree={conversationTree}
+        onSwitchBranch={handleSwitchBranch}
+        onRewind={handleRewind}
+        onEditMessage={(nodeId, text) => {
+          handleEditMessage(nodeId, text);
+          setIsHistoryOpen(false);
+        }}
+        onRegenerate={(nodeId) => {
+          handleRegenerate(nodeId);
+          setIsHistoryOpen(false);
+        }}
+      />
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={refreshNotebooks}
+      />
+      <SearchModal
+        isOpen={searchMode !== null}
+        onClose={() => setSearchMode(null)}
+        scope={searchMode === 'notebooks' ? 'notebook' : undefined}
+        onSelectNotebook={searchMode === 'notebooks'
+          ? (id) => {
+            refreshNotebooks();
+            setSelectedNotebookId(id);
+          }
+          : undefined}
+      />
+      <SessionLibraryModal
+        isOpen={isSessionsOpen}
+        onClose={() => setIsSessionsOpen(false)}
+        activeSessionId={historyState.length > 0 ? sessionId : null}
+        onResume={handleResumeSession}
       />
       <NotebookBuilderModal
         isOpen={isNotebookBuilderOpen}
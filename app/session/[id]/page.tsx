@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { HistoryMessage } from '@/components/shared/ConversationHistoryModal';
+import { StorageErrorBanner } from '@/components/shared/StorageErrorBanner';
+import { isCollectionId, resolveGrounding } from '@/lib/utils/notebook-collections';
+import { duplicateSession, getSessionById, SessionDoc, upsertSession } from '@/lib/utils/session-storage';
+
+const formatDate = (value: string) => {
+    try {
+        return new Date(value).toLocaleString();
+    } catch {
+        return value;
+    }
+};
+
+export default function SessionPage() {
+    const params = useParams();
+    const router = useRouter();
+    const sessionId = useMemo(() => {
+        const raw = params?.id;
+        return Array.isArray(raw) ? raw[0] : raw;
+    }, [params]);
+
+    const [doc, setDoc] = useState<SessionDoc | null>(null);
+    const [notebookTitle, setNotebookTitle] = useState<string | null>(null);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveFailed, setSaveFailed] = useState(false);
+    const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+    // Message linked as #message-<index> (search results); scrolled to and highlighted once loaded
+    const [linkedMessage] = useState(() => {
+        if (typeof window === 'undefined') return null;
+        const match = window.location.hash.match(/^#message-(\d+)$/);
+        return match ? Number(match[1]) : null;
+    });
+
+    useEffect(() => {
+        if (!sessionId) return;
+        const load = async () => {
+            const loaded = await getSessionById(sessionId);
+            if (!loaded) {
+                setStatus('missing');
+                return;
+            }
+            const notebook = loaded.notebookId ? await resolveGrounding(loaded.notebookId) : null;
+            setDoc(loaded);
+            setNotebookTitle(notebook?.title ?? null);
+            setStatus('ready');
+        };
+        load().catch(() => setStatus('error'));
+    }, [sessionId]);
+
+    useEffect(() => () => {
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    }, []);
+
+    useEffect(() => {
+        if (status !== 'ready' || linkedMessage === null) return;
+        document.getElementById(`message-${linkedMessage}`)?.scrollIntoView({ block: 'center' });
+    }, [status, linkedMessage]);
+
+    const handleTitleChange = (value: string) => {
+        if (!doc) return;
+        const next = { ...doc, title: value, updatedAt: new Date().toISOString() };
+        setDoc(next);
+        setIsSaving(true);
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = setTimeout(async () => {
+            try {
+                // Only the title is edited here; keep whatever else the main app saved since
+                const latest = await getSessionById(next.id);
+                await upsertSession(latest ? { ...latest, title: next.title, updatedAt: next.updatedAt } : next);
+                setSaveFailed(false);
+            } catch {
+                setSaveFailed(true);
+            } finally {
+                setIsSaving(false);
+            }
+        }, 500);
+    };
+
+    const handleDuplicate = async () => {
+        if (!doc) return;
+        const copy = await duplicateSession(doc.id).catch(() => null);
+        if (copy) router.push(`/session/${copy.id}`);
+    };
+
+    const handleDownload = () => {
+        if (!doc) return;
+        const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${doc.title || 'session'}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    if (status === 'missing' || status === 'error') {
+        return (
+            <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-6">
+                <StorageErrorBanner />
+                <div className="max-w-lg text-center space-y-3">
+                    <h1 className="text-2xl font-semibold">{status === 'error' ? 'Session could not be loaded' : 'Session not found'}</h1>
+                    <p className="text-muted-foreground">
+                        {status === 'error'
+                            ? 'Browser storage could not be read. Check that site storage is enabled and reload.'
+                            : 'This session does not exist in local storage. Conversations are saved automatically once they have messages.'}
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!doc) {
+        return (
+            <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-6">
+                <div className="text-sm text-muted-foreground">Loading session...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-background text-foreground">
+            <StorageErrorBanner />
+            <div className="sticky top-0 z-10 border-b border-border bg-background/90 backdrop-blur">
+                <div className="max-w-4xl mx-auto px-6 py-4 flex flex-col gap-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <input
+                            value={doc.title}
+                            onChange={(event) => handleTitleChange(event.target.value)}
+                            className="flex-1 min-w-[220px] text-xl font-semibold bg-transparent border-b border-border/60 focus:outline-none focus:border-primary"
+                            placeholder="Session title"
+                        />
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span className={saveFailed && !isSaving ? 'text-destructive' : undefined}>
+                                {isSaving ? 'Saving...' : saveFailed ? 'Save failed' : 'Saved'}
+                            </span>
+                            <span>•</span>
+                            <span>Updated {formatDate(doc.updatedAt)}</span>
+                        </div>
+                        <div className="flex items-center gap-2 ml-auto">
+                            <a
+                                href={`/?session=${doc.id}`}
+                                className="px-3 py-1.5 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                            >
+                                Resume
+                            </a>
+                            <button
+                                onClick={handleDuplicate}
+                                className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors"
+                            >
+                                Duplicate
+                            </button>
+                            <button
+                                onClick={handleDownload}
+                                className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors"
+                            >
+                                Download
+                            </button>
+                        </div>
+                    </div>
+                    <div className="text-xs text-muted-foreground flex flex-wrap gap-2">
+                        <span>{doc.history.length} messages</span>
+                        <span>• Started {formatDate(doc.createdAt)}</span>
+                        {doc.notebookId && (isCollectionId(doc.notebookId) ? (
+                            <span>• Collection: {notebookTitle || 'empty collection'}</span>
+                        ) : (
+                            <span>
+                                • Notebook:{' '}
+                                <a href={`/notebook/${doc.notebookId}`} className="underline hover:text-foreground">
+                                    {notebookTitle || 'deleted notebook'}
+                                </a>
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-4xl mx-auto px-6 py-6 space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {[
+                        { label: 'Party A', party: doc.partyA },
+                        { label: 'Party B', party: doc.partyB }
+                    ].map(({ label, party }) => (
+                        <div key={label} className="rounded-lg border border-border bg-card/60 p-3 space-y-1">
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{label}</span>
+                                <span className="text-[10px] uppercase font-mono text-muted-foreground">{party.languages.join(', ')}</span>
+                            </div>
+                            <p className="text-sm">{party.context || <span className="text-muted-foreground italic">No context</span>}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-4">
+                    {doc.history.map((item, idx) => (
+                        <div
+                            key={idx}
+                            id={`message-${idx}`}
+                            className={`scroll-mt-24 rounded-xl transition-shadow ${idx === linkedMessage ? 'ring-2 ring-primary/50 ring-offset-4 ring-offset-background' : ''}`}
+                        >
+                            <HistoryMessage item={item} />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
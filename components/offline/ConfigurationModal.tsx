@@ -1,6 +1,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { DEFAULT_MODELS, LLM_PROVIDERS, type LLMProvider } from '@/lib/config/llm-config';
+import {
+    CUSTOM_BASE_URL_KEY,
+    DEFAULT_MODELS,
+    FALLBACK_CHAIN_KEY,
+    FEATURE_ROUTES_KEY,
+    LLM_PROVIDERS,
+    ROUTABLE_FEATURES,
+    getServerProviderStatus,
+    getStoredFallbackChain,
+    getStoredFeatureRoutes,
+    type LLMFallbackEntry,
+    type LLMFeatureRoutes,
+    type LLMProvider,
+    type RoutableFeature,
+    type ServerProviderStatus
+} from '@/lib/config/llm-config';
+import { providerService } from '@/lib/services/llm/providers';
 
 export interface ConfigurationModalProps {
     isOpen: boolean;
@@ -14,7 +30,9 @@ const PROVIDER_ICONS: Record<Provider, string> = {
     anthropic: 'M12 2L2 22h20L12 2zm0 4l6 14H6l6-14z',
     google: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z',
     openrouter: 'M12 2a9 9 0 0 0-9 9v7c0 1.66 1.34 3 3 3h3v-8H5v-2c0-3.87 3.13-7 7-7s7 3.13 7 7v2h-4v8h3c1.66 0 3-1.34 3-3v-7a9 9 0 0 0-9-9z',
-    groq: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 14H9v-2h2v2zm0-4H9V8h2v4zm4 4h-2v-2h2v2zm0-4h-2V8h2v4z'
+    groq: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 14H9v-2h2v2zm0-4H9V8h2v4zm4 4h-2v-2h2v2zm0-4h-2V8h2v4z',
+    custom: 'M4 4h16v6H4V4zm0 10h16v6H4v-6zm3-8v2h2V6H7zm0 10v2h2v-2H7z',
+    mock: 'M9 2h6v2h-1v5.2l5.6 9.7A2 2 0 0 1 17.9 22H6.1a2 2 0 0 1-1.7-3.1L10 9.2V4H9V2z'
 };
 
 const PROVIDERS: { id: Provider; name: string; icon: string }[] = LLM_PROVIDERS.map((provider) => ({
@@ -34,6 +52,9 @@ const STORAGE_KEYS = {
     llmKey: (provider: Provider) => `key_${provider}`,
     audioKey: (provider: AudioProvider) => `key_${provider}`,
     llmModel: (provider: Provider) => `model_name_${provider}`,
+    customBaseUrl: CUSTOM_BASE_URL_KEY,
+    fallbackChain: FALLBACK_CHAIN_KEY,
+    featureRoutes: FEATURE_ROUTES_KEY,
     ttsModel: 'model_name_tts',
     sttModel: 'model_name_stt',
     deepgramModel: 'model_name_deepgram',
@@ -67,7 +88,7 @@ const DEFAULT_ACTIVE_AUDIO_PROVIDERS = {
 type AudioConfig = typeof DEFAULT_AUDIO_CONFIG;
 
 export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen, onClose }) => {
-    const [selectedTab, setSelectedTab] = useState<'llm' | 'audio'>('llm');
+    const [selectedTab, setSelectedTab] = useState<'llm' | 'routing' | 'audio'>('llm');
     const [selectedProvider, setSelectedProvider] = useState<Provider>('openai');
     const [selectedAudioProvider, setSelectedAudioProvider] = useState<AudioProvider>('openai');
 
@@ -77,9 +98,23 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
         anthropic: '',
         google: '',
         openrouter: '',
-        groq: ''
+        groq: '',
+        custom: '',
+        mock: ''
     });
 
+    // Base URL for the custom OpenAI-compatible provider
+    const [customBaseUrl, setCustomBaseUrl] = useState('');
+
+    // Ordered fallbacks tried when the selected provider fails
+    const [fallbackChain, setFallbackChain] = useState<LLMFallbackEntry[]>([]);
+
+    // Per-feature provider/model overrides (unset features use the selected provider)
+    const [featureRoutes, setFeatureRoutes] = useState<LLMFeatureRoutes>({});
+
+    // Providers whose keys live on the server (and whether browser keys are disabled)
+    const [serverStatus, setServerStatus] = useState<ServerProviderStatus>({ providers: [], keysOnly: false });
+
     const [audioKeys, setAudioKeys] = useState<Record<AudioProvider, string>>({
         openai: '',
         deepgram: '',
@@ -141,6 +176,11 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
         setKeys(storedKeys);
         setAudioKeys(storedAudioKeys);
         setModels(storedModels);
+        setCustomBaseUrl(getStoredValue(STORAGE_KEYS.customBaseUrl));
+        setFallbackChain(getStoredFallbackChain());
+        setFeatureRoutes(getStoredFeatureRoutes());
+        setServerStatus(getServerProviderStatus());
+        providerService.refreshServerStatus().then(setServerStatus);
 
         setAudioConfig({
             ttsModel: getStoredValue(STORAGE_KEYS.ttsModel, DEFAULT_AUDIO_CONFIG.ttsModel),
@@ -163,6 +203,56 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
         }
     }, [isOpen]);
 
+    const isServerManaged = (provider: Provider) => serverStatus.providers.includes(provider);
+
+    const isConfiguredFor = (provider: Provider) => {
+        if (provider === 'mock' || isServerManaged(provider)) return true;
+        if (serverStatus.keysOnly) return false;
+        return provider === 'custom' ? !!customBaseUrl : !!keys[provider];
+    };
+
+    const addFallback = () => {
+        const provider = PROVIDERS.find((p) => p.id !== selectedProvider && !fallbackChain.some((entry) => entry.provider === p.id))?.id || 'openai';
+        setFallbackChain((prev) => [...prev, { provider, model: models[provider] || DEFAULT_MODELS[provider] }]);
+    };
+
+    const updateFallback = (index: number, patch: Partial<LLMFallbackEntry>) => {
+        setFallbackChain((prev) => prev.map((entry, i) => {
+            if (i !== index) return entry;
+            // Switching provider resets the model to that provider's configured one
+            if (patch.provider && patch.provider !== entry.provider) {
+                return { provider: patch.provider, model: models[patch.provider] || DEFAULT_MODELS[patch.provider] };
+            }
+            return { ...entry, ...patch };
+        }));
+    };
+
+    const moveFallback = (index: number, direction: -1 | 1) => {
+        setFallbackChain((prev) => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const removeFallback = (index: number) => {
+        setFallbackChain((prev) => prev.filter((_, i) => i !== index));
+    };
+
+    const updateFeatureRoute = (feature: RoutableFeature, provider: Provider | '', model = '') => {
+        setFeatureRoutes((prev) => {
+            const next = { ...prev };
+            if (provider) {
+                next[feature] = { provider, model };
+            } else {
+                delete next[feature];
+            }
+            return next;
+        });
+    };
+
     const handleSave = () => {
         if (typeof window === 'undefined') {
             onClose();
@@ -177,9 +267,9 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
             }
         };
 
-        // Save all LLM keys
+        // Save all LLM keys (dropped from the browser when the server holds every key)
         PROVIDERS.forEach((provider) => {
-            persistValue(STORAGE_KEYS.llmKey(provider.id), keys[provider.id]);
+            persistValue(STORAGE_KEYS.llmKey(provider.id), serverStatus.keysOnly ? '' : keys[provider.id]);
         });
 
         // Save all audio keys (sync OpenAI audio key for backwards compatibility)
@@ -196,6 +286,11 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
         PROVIDERS.forEach((provider) => {
             localStorage.setItem(STORAGE_KEYS.llmModel(provider.id), models[provider.id]);
         });
+        persistValue(STORAGE_KEYS.customBaseUrl, customBaseUrl.trim());
+        const chain = fallbackChain
+            .map((entry) => ({ provider: entry.provider, model: entry.model.trim() || DEFAULT_MODELS[entry.provider] }));
+        persistValue(STORAGE_KEYS.fallbackChain, chain.length > 0 ? JSON.stringify(chain) : '');
+        persistValue(STORAGE_KEYS.featureRoutes, Object.keys(featureRoutes).length > 0 ? JSON.stringify(featureRoutes) : '');
 
         // Save Audio Config
         localStorage.setItem(STORAGE_KEYS.ttsModel, audioConfig.ttsModel);
@@ -215,7 +310,7 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
         localStorage.setItem(STORAGE_KEYS.selectedLlmModel, models[selectedProvider]); // Update current global model selection
 
         // Backward compatibility
-        if (selectedProvider === 'openai') {
+        if (selectedProvider === 'openai' && !serverStatus.keysOnly) {
             localStorage.setItem(STORAGE_KEYS.legacyOpenaiKey, keys.openai);
         } else {
             localStorage.removeItem(STORAGE_KEYS.legacyOpenaiKey);
@@ -264,6 +359,12 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
                             >
                                 LLM Provider
                             </button>
+                            <button
+                                onClick={() => setSelectedTab('routing')}
+                                className={`flex-1 py-3 text-sm font-medium border-b-2 transition-colors ${selectedTab === 'routing' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'}`}
+                            >
+                                Model Routing
+                            </button>
                             <button
                                 onClick={() => setSelectedTab('audio')}
                                 className={`flex-1 py-3 text-sm font-medium border-b-2 transition-colors ${selectedTab === 'audio' ? 'border-primary text-primary' : 'border-transparent text-muted-foreground hover:text-foreground'}`}
@@ -291,7 +392,7 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
                                                     <path d={p.icon} />
                                                 </svg>
                                                 {p.name}
-                                                {keys[p.id] && selectedProvider !== p.id && (
+                                                {isConfiguredFor(p.id) && p.id !== 'mock' && selectedProvider !== p.id && (
                                                     <div className="ml-auto w-1.5 h-1.5 rounded-full bg-green-500" />
                                                 )}
                                             </button>
@@ -314,22 +415,54 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
                                             </div>
 
                                             <div className="space-y-4">
-                                                {/* API Key Input */}
-                                                <div className="space-y-2">
-                                                    <label className="text-sm font-medium">API Key</label>
-                                                    <div className="relative">
+                                                {/* Server-held credentials replace the browser inputs */}
+                                                {selectedProvider !== 'mock' && (isServerManaged(selectedProvider) || serverStatus.keysOnly) && (
+                                                    <div className={`p-3 rounded-lg border text-xs ${isServerManaged(selectedProvider) ? 'border-green-500/30 bg-green-500/5 text-green-700 dark:text-green-400' : 'border-amber-500/30 bg-amber-500/5 text-amber-600'}`}>
+                                                        {isServerManaged(selectedProvider)
+                                                            ? `${selectedProviderMeta.name} credentials are managed by the server. Nothing is stored in this browser.`
+                                                            : `This deployment only uses server-held keys, and ${selectedProviderMeta.name} isn't configured on the server. Ask an administrator to add it.`}
+                                                    </div>
+                                                )}
+
+                                                {/* Base URL Input (custom provider only) */}
+                                                {selectedProvider === 'custom' && !isServerManaged('custom') && !serverStatus.keysOnly && (
+                                                    <div className="space-y-2">
+                                                        <label className="text-sm font-medium">Base URL</label>
                                                         <input
-                                                            type="password"
-                                                            value={keys[selectedProvider]}
-                                                            onChange={(e) => setKeys({ ...keys, [selectedProvider]: e.target.value })}
-                                                            placeholder={`apikey...`}
+                                                            type="text"
+                                                            value={customBaseUrl}
+                                                            onChange={(e) => setCustomBaseUrl(e.target.value)}
+                                                            placeholder="e.g. http://localhost:11434/v1"
                                                             className="w-full px-4 py-3 rounded-lg border border-input bg-muted/20 focus:bg-background focus:ring-2 focus:ring-primary/20 transition-all outline-none font-mono text-sm"
                                                         />
-                                                        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground bg-background px-2 py-0.5 rounded border border-border">
-                                                            Encrypted
+                                                        <p className="text-xs text-muted-foreground">
+                                                            Any OpenAI-compatible server (Ollama, llama.cpp, LM Studio). <code>/chat/completions</code> is appended automatically.
+                                                        </p>
+                                                    </div>
+                                                )}
+
+                                                {/* API Key Input (the mock provider runs in-process and needs none) */}
+                                                {selectedProvider === 'mock' ? (
+                                                    <div className="p-3 rounded-lg border border-border bg-muted/20 text-xs text-muted-foreground">
+                                                        Returns deterministic, scripted responses without any network calls. Useful for offline development, demos and CI.
+                                                    </div>
+                                                ) : !isServerManaged(selectedProvider) && !serverStatus.keysOnly && (
+                                                    <div className="space-y-2">
+                                                        <label className="text-sm font-medium">API Key{selectedProvider === 'custom' && <span className="text-muted-foreground font-normal"> (optional)</span>}</label>
+                                                        <div className="relative">
+                                                            <input
+                                                                type="password"
+                                                                value={keys[selectedProvider]}
+                                                                onChange={(e) => setKeys({ ...keys, [selectedProvider]: e.target.value })}
+                                                                placeholder={`apikey...`}
+                                                                className="w-full px-4 py-3 rounded-lg border border-input bg-muted/20 focus:bg-background focus:ring-2 focus:ring-primary/20 transition-all outline-none font-mono text-sm"
+                                                            />
+                                                            <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground bg-background px-2 py-0.5 rounded border border-border">
+                                                                Encrypted
+                                                            </div>
                                                         </div>
                                                     </div>
-                                                </div>
+                                                )}
 
                                                 {/* Model Name Input */}
                                                 <div className="space-y-2">
@@ -347,6 +480,82 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
                                                 </div>
                                             </div>
 
+                                            {/* Fallback Chain (applies to whichever provider is active) */}
+                                            <div className="pt-6 border-t border-border space-y-3">
+                                                <div className="flex items-center justify-between">
+                                                    <div>
+                                                        <label className="text-sm font-medium">Fallback Chain</label>
+                                                        <p className="text-xs text-muted-foreground">
+                                                            Tried in order when the active provider is rate limited, erroring or times out. Each fallback uses its own saved key.
+                                                        </p>
+                                                    </div>
+                                                    <button
+                                                        onClick={addFallback}
+                                                        className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors shrink-0"
+                                                    >
+                                                        Add fallback
+                                                    </button>
+                                                </div>
+                                                {fallbackChain.length === 0 ? (
+                                                    <p className="text-xs text-muted-foreground italic">No fallbacks. Failed requests return an error.</p>
+                                                ) : (
+                                                    <div className="space-y-2">
+                                                        {fallbackChain.map((entry, index) => {
+                                                            const isConfigured = isConfiguredFor(entry.provider);
+                                                            return (
+                                                                <div key={index} className="flex items-center gap-2">
+                                                                    <span className="w-5 text-xs text-muted-foreground tabular-nums">{index + 1}.</span>
+                                                                    <select
+                                                                        value={entry.provider}
+                                                                        onChange={(e) => updateFallback(index, { provider: e.target.value as Provider })}
+                                                                        className="px-2 py-2 rounded-lg border border-input bg-muted/20 text-xs outline-none focus:ring-2 focus:ring-primary/20"
+                                                                    >
+                                                                        {PROVIDERS.map((p) => (
+                                                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <input
+                                                                        type="text"
+                                                                        value={entry.model}
+                                                                        onChange={(e) => updateFallback(index, { model: e.target.value })}
+                                                                        placeholder={DEFAULT_MODELS[entry.provider]}
+                                                                        className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-input bg-muted/20 focus:bg-background focus:ring-2 focus:ring-primary/20 transition-all outline-none font-mono text-xs"
+                                                                    />
+                                                                    {!isConfigured && (
+                                                                        <span className="text-[9px] text-amber-500 bg-amber-500/10 px-1 rounded" title="Skipped until this provider is configured">
+                                                                            {entry.provider === 'custom' ? 'URL Missing' : 'Key Missing'}
+                                                                        </span>
+                                                                    )}
+                                                                    <button
+                                                                        onClick={() => moveFallback(index, -1)}
+                                                                        disabled={index === 0}
+                                                                        className="p-1.5 rounded-md hover:bg-muted transition-colors disabled:opacity-30"
+                                                                        aria-label="Move up"
+                                                                    >
+                                                                        <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="18 15 12 9 6 15" /></svg>
+                                                                    </button>
+                                                                    <button
+                                                                        onClick={() => moveFallback(index, 1)}
+                                                                        disabled={index === fallbackChain.length - 1}
+                                                                        className="p-1.5 rounded-md hover:bg-muted transition-colors disabled:opacity-30"
+                                                                        aria-label="Move down"
+                                                                    >
+                                                                        <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="6 9 12 15 18 9" /></svg>
+                                                                    </button>
+                                                                    <button
+                                                                        onClick={() => removeFallback(index)}
+                                                                        className="p-1.5 rounded-md text-muted-foreground hover:text-destructive hover:bg-muted transition-colors"
+                                                                        aria-label="Remove fallback"
+                                                                    >
+                                                                        <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18 6 6 18" /><path d="m6 6 12 12" /></svg>
+                                                                    </button>
+                                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
+
                                             <div className="pt-8 mt-8 border-t border-border">
                                                 <div className="bg-blue-500/10 border border-blue-500/20 text-blue-500 rounded-lg p-4 text-sm">
                                                     <h4 className="font-semibold mb-1 flex items-center gap-2">
@@ -359,6 +568,60 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({ isOpen,
                                         </div>
                                     </div>
                                 </>
+                            ) : selectedTab === 'routing' ? (
+                                <div className="flex-1 p-6 overflow-y-auto bg-background">
+                                    <div className="space-y-6">
+                                        <div>
+                                            <h3 className="text-lg font-semibold">Model Routing</h3>
+                                            <p className="text-xs text-muted-foreground">
+                                                Send each feature to its own provider and model, e.g. a fast, cheap model for predictions and translations.
+                                                Features left on default use <span className="font-medium text-foreground">{selectedProviderMeta.name}</span>.
+                                            </p>
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            {ROUTABLE_FEATURES.map((feature) => {
+                                                const route = featureRoutes[feature.id];
+                                                const isConfigured = !route || isConfiguredFor(route.provider);
+                                                return (
+                                                    <div key={feature.id} className="flex items-center gap-3 p-3 rounded-lg border border-border bg-muted/10">
+                                                        <div className="w-40 shrink-0">
+                                                            <div className="text-sm font-medium">{feature.name}</div>
+                                                            <div className="text-[10px] text-muted-foreground">{feature.description}</div>
+                                                        </div>
+                                                        <select
+                                                            value={route?.provider || ''}
+                                                            onChange={(e) => updateFeatureRoute(feature.id, e.target.value as Provider | '')}
+                                                            className="px-2 py-2 rounded-lg border border-input bg-muted/20 text-xs outline-none focus:ring-2 focus:ring-primary/20"
+                                                        >
+                                                            <option value="">Default</option>
+                                                            {PROVIDERS.map((p) => (
+                                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="text"
+                                                            value={route?.model || ''}
+                                                            onChange={(e) => route && updateFeatureRoute(feature.id, route.provider, e.target.value)}
+                                                            disabled={!route}
+                                                            placeholder={route ? models[route.provider] || DEFAULT_MODELS[route.provider] : models[selectedProvider]}
+                                                            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-input bg-muted/20 focus:bg-background focus:ring-2 focus:ring-primary/20 transition-all outline-none font-mono text-xs disabled:opacity-50"
+                                                        />
+                                                        {!isConfigured && route && (
+                                                            <span className="text-[9px] text-amber-500 bg-amber-500/10 px-1 rounded shrink-0" title="Requests for this feature go to the backend until the provider is configured">
+                                                                {route.provider === 'custom' ? 'URL Missing' : 'Key Missing'}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+
+                                        <p className="text-xs text-muted-foreground">
+                                            Leave the model empty to use the provider&apos;s configured model. Routed providers use the keys saved on the LLM Provider tab, and the fallback chain still applies.
+                                        </p>
+                                    </div>
+                                </div>
                             ) : (
                                 /* Audio Tab Content */
                                 <div className="flex-1 flex overflow-hidden">
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { DEFAULT_MODELS, LLM_PROVIDERS, getStoredProviderModel, hasApiKey, type LLMProvider } from '@/lib/config/llm-config';
+import { DEFAULT_MODELS, LLM_PROVIDERS, getStoredProviderModel, isProviderConfigured, type LLMProvider } from '@/lib/config/llm-config';
+import { usageTracker } from '@/lib/utils/usage-tracker';
+import { providerService } from '@/lib/services/llm/providers';
+import type { ServedBy } from '@/lib/ai/providers/types';
 
 export interface ModelSelectorProps {
     onOpenSettings: () => void;
@@ -24,6 +27,10 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
         sttMode: 'browser' as 'browser' | 'api'
     });
     const containerRef = useRef<HTMLDivElement>(null);
+    // Which provider/model actually answered the last request (may be a fallback)
+    const [lastServed, setLastServed] = useState<ServedBy | null>(() => usageTracker.getLastServed());
+
+    useEffect(() => usageTracker.subscribeServed(setLastServed), []);
 
     const loadState = React.useCallback(() => {
         if (typeof window !== 'undefined') {
@@ -55,7 +62,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
 
             if (isOffline) {
                 LLM_PROVIDERS.forEach((provider) => {
-                    if (!hasApiKey(provider.id)) missing.push(provider.id);
+                    if (!isProviderConfigured(provider.id)) missing.push(provider.id);
                 });
 
                 // Check Audio Keys
@@ -81,6 +88,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
 
     useEffect(() => {
         loadState();
+        // Server-held keys count as configured; loadState picks up the cached status
+        providerService.refreshServerStatus().then(loadState);
 
         // Listen for storage events to update UI when settings change
         window.addEventListener('storage', loadState);
@@ -137,6 +146,15 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
                     <span className="font-semibold capitalize">{LLM_PROVIDERS.find(p => p.id === selectedProvider)?.name}</span>
                     <span className="opacity-50 text-[10px] max-w-[80px] truncate hidden sm:inline-block">({providerModelName})</span>
 
+                    {lastServed?.fallback && (
+                        <span
+                            className="text-[9px] text-amber-600 bg-amber-500/10 px-1.5 py-0.5 rounded max-w-[120px] truncate"
+                            title={`Last answer came from fallback ${lastServed.provider} / ${lastServed.model}`}
+                        >
+                            via {LLM_PROVIDERS.find(p => p.id === lastServed.provider)?.name || lastServed.provider}
+                        </span>
+                    )}
+
                     {isKeyMissing && (
                         <svg className="w-3.5 h-3.5 text-amber-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                     )}
@@ -179,6 +197,15 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
                                 </div>
                             </div>
 
+                            {activeTab === 'llm' && lastServed && (
+                                <div className={`mx-2 mt-2 px-2 py-1.5 rounded-lg text-[10px] ${lastServed.fallback ? 'bg-amber-500/10 text-amber-600' : 'bg-muted/40 text-muted-foreground'}`}>
+                                    <span className="font-semibold">Last answered by:</span>{' '}
+                                    {LLM_PROVIDERS.find(p => p.id === lastServed.provider)?.name || lastServed.provider}
+                                    <span className="opacity-70"> · {lastServed.model}</span>
+                                    {lastServed.fallback && <span> (fallback)</span>}
+                                </div>
+                            )}
+
                             <div className="max-h-[300px] overflow-y-auto p-1 text-xs">
                                 {activeTab === 'llm' ? (
                                     LLM_PROVIDERS.map((p) => {
@@ -199,7 +226,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
                                                 <div className="flex flex-col">
                                                     <span className="flex items-center gap-1">
                                                         {p.name}
-                                                        {isMissing && <span className="text-[9px] text-amber-500 bg-amber-500/10 px-1 rounded ml-1">Key Missing</span>}
+                                                        {isMissing && <span className="text-[9px] text-amber-500 bg-amber-500/10 px-1 rounded ml-1">{p.id === 'custom' ? 'URL Missing' : 'Key Missing'}</span>}
                                                     </span>
                                                     <span className="text-[10px] text-muted-foreground opacity-70 truncate max-w-[180px]">
                                                         {configuredModel || DEFAULT_MODELS[p.id] || 'Default Model'}
@@ -361,7 +388,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ onOpenSettings })
                             {/* Info */}
                             {isKeyMissing && (
                                 <div className="mx-2 mb-2 mt-1 p-2 bg-amber-500/10 border border-amber-500/20 rounded-lg text-[10px] text-amber-600">
-                                    API Key not set for <b>{LLM_PROVIDERS.find(p => p.id === selectedProvider)?.name}</b>.
+                                    {selectedProvider === 'custom' ? 'Base URL' : 'API Key'} not set for <b>{LLM_PROVIDERS.find(p => p.id === selectedProvider)?.name}</b>.
                                     <br />Please click <button
                                         onClick={() => { setIsOpen(false); onOpenSettings(); }}
                                         className="font-semibold underline hover:text-amber-700 transition-colors"
@@ -5,6 +5,18 @@ import ConversationSuggestions from '../shared/ConversationSuggestions';
 import { ResizableDivider } from '../shared/ResizableDivider';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { getCitationHref, type NotebookCitation } from '@/lib/ai/retrieval';
+import { MAX_VARIANTS, MIN_VARIANTS, type ResponseVariant, type VariantMode } from '@/lib/utils/response-variants';
+
+// Horizontal drag (px) that swipes to the next/previous variant
+const SWIPE_THRESHOLD = 50;
+
+const CompareIcon = ({ className }: { className?: string }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="4" width="7" height="16" rx="1.5" />
+        <rect x="14" y="4" width="7" height="16" rx="1.5" />
+    </svg>
+);
 
 // Helper to render highlighted text preserving whitespace
 const renderHighlightedText = (text: string, activeIndex: number) => {
@@ -67,6 +79,21 @@ interface PartyBPanelProps {
     response: string;
     isGenerating: boolean;
     error?: string | null;
+    // True when the model stopped at its token limit
+    isTruncated?: boolean;
+    // Notebook sections the response relied on (notebook mode)
+    citations?: NotebookCitation[];
+
+    // Alternative replies being compared; the first is the current response
+    variants?: ResponseVariant[];
+    activeVariant?: number;
+    onShowVariant?: (index: number) => void;
+    onChooseVariant?: (index: number) => void;
+    onDiscardVariants?: () => void;
+    // Request `count` replies in total; omitted when the reply can't be compared right now
+    onCompare?: (count: number, mode: VariantMode) => void;
+    // More than one provider is configured
+    canCompareModels?: boolean;
 
     // Translations
     translations: Record<string, string>;
@@ -110,6 +137,15 @@ export default function PartyBPanel({
     response,
     isGenerating,
     error,
+    isTruncated = false,
+    citations = [],
+    variants = [],
+    activeVariant = 0,
+    onShowVariant,
+    onChooseVariant,
+    onDiscardVariants,
+    onCompare,
+    canCompareModels = false,
     translations,
     isTranslating,
     onPlayAudio,
@@ -143,6 +179,46 @@ export default function PartyBPanel({
     headingSluggerRef.current.reset();
     const [showErrorToast, setShowErrorToast] = useState(false);
 
+    // Comparing alternatives: the response area shows the selected variant instead of the response
+    const variant = variants.length > 1 ? variants[Math.min(activeVariant, variants.length - 1)] : null;
+    const shownResponse = variant ? variant.response : response;
+    const shownCitations = variant ? variant.citations : citations;
+    const shownGenerating = variant ? variant.isGenerating : isGenerating;
+    const shownTruncated = variant ? variant.isTruncated : isTruncated;
+    const anyVariantGenerating = variants.some(item => item.isGenerating);
+    const [isCompareOpen, setIsCompareOpen] = useState(false);
+    const [compareCount, setCompareCount] = useState(3);
+    const [compareMode, setCompareMode] = useState<VariantMode>('temperature');
+    const compareRef = useRef<HTMLDivElement>(null);
+    const swipeStartRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (compareRef.current && !compareRef.current.contains(event.target as Node)) {
+                setIsCompareOpen(false);
+            }
+        };
+        if (isCompareOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isCompareOpen]);
+
+    useEffect(() => {
+        if (!canCompareModels) setCompareMode('temperature');
+    }, [canCompareModels]);
+
+    const showVariant = (index: number) => {
+        if (variants.length > 1) onShowVariant?.((index + variants.length) % variants.length);
+    };
+
+    const handleSwipeEnd = (clientX: number) => {
+        const start = swipeStartRef.current;
+        swipeStartRef.current = null;
+        if (start === null || !variant || Math.abs(clientX - start) < SWIPE_THRESHOLD) return;
+        showVariant(clientX < start ? activeVariant + 1 : activeVariant - 1);
+    };
+
     useEffect(() => {
         if (!error) return;
         setShowErrorToast(true);
@@ -207,9 +283,56 @@ export default function PartyBPanel({
                 className={`border-b border-border flex flex-col overflow-hidden ${isSparksCollapsed ? 'flex-1' : ''}`}
                 style={isSparksCollapsed ? undefined : { height: topSectionHeight ?? '60%' }}
             >
+                {/* Variant strip - swipe or step between the replies being compared */}
+                {variant && (
+                    <div className="shrink-0 flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/20 text-xs">
+                        <button
+                            onClick={() => showVariant(activeVariant - 1)}
+                            className="px-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                            aria-label="Previous reply"
+                        >
+                            ‹
+                        </button>
+                        <span className="tabular-nums text-muted-foreground">{activeVariant + 1}/{variants.length}</span>
+                        <button
+                            onClick={() => showVariant(activeVariant + 1)}
+                            className="px-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                            aria-label="Next reply"
+                        >
+                            ›
+                        </button>
+                        <span
+                            className="flex-1 truncate text-foreground/80"
+                            title={variant.servedBy ? `Answered by ${variant.servedBy.provider} · ${variant.servedBy.model}` : variant.label}
+                        >
+                            {variant.label}
+                            {variant.error && <span className="ml-2 text-red-500">{variant.error}</span>}
+                        </span>
+                        <button
+                            onClick={() => onChooseVariant?.(activeVariant)}
+                            disabled={variant.isGenerating || !variant.response}
+                            className="px-2 py-0.5 rounded-full bg-primary text-primary-foreground text-[11px] font-medium hover:bg-primary/90 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {activeVariant === 0 ? 'Keep this reply' : 'Use this reply'}
+                        </button>
+                        <button
+                            onClick={onDiscardVariants}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label="Stop comparing"
+                            title="Stop comparing"
+                        >
+                            ×
+                        </button>
+                    </div>
+                )}
+
                 {/* Response Area - Wrapper for scrollable content and fixed button */}
-                <div className="flex-1 relative min-h-0">
-                    {(isGenerating || isTranslating) && (
+                <div
+                    className="flex-1 relative min-h-0"
+                    onTouchStart={(e) => { swipeStartRef.current = e.touches[0].clientX; }}
+                    onTouchEnd={(e) => handleSwipeEnd(e.changedTouches[0].clientX)}
+                >
+                    {(shownGenerating || isTranslating || anyVariantGenerating) && (
                         <div className="absolute top-0 left-0 right-0 h-0.5 bg-transparent pointer-events-none">
                             <div className="h-full bg-gradient-to-r from-transparent via-primary/70 to-transparent animate-pulse" />
                         </div>
@@ -217,7 +340,7 @@ export default function PartyBPanel({
                     {/* Scrollable Content */}
                     <div ref={responseScrollRef} className="absolute inset-0 p-6 overflow-y-auto custom-scrollbar">
                         {/* Speaking/Reading/Custom indicator - Top */}
-                        {showActiveState && response && (
+                        {showActiveState && shownResponse && (
                             <div className="flex items-center gap-2 mb-2 opacity-80">
                                 <span className={`text-[10px] uppercase tracking-wider font-bold ${customStatus ? 'text-amber-500' : 'text-muted-foreground'}`}>
                                     {customStatus || (isReadingMain ? 'Reading...' : 'Speaking...')}
@@ -233,8 +356,8 @@ export default function PartyBPanel({
                         {/* Response Text */}
                         <div className={`text-base md:text-lg leading-relaxed break-words transition-colors duration-300 text-foreground ${customStatus ? 'opacity-80' : ''}`}>
                             {currentlyPlayingKey === 'response' && highlightedWordIndex !== undefined && highlightedWordIndex >= 0 ? (
-                                renderHighlightedText(response, highlightedWordIndex)
-                            ) : response ? (
+                                renderHighlightedText(shownResponse, highlightedWordIndex)
+                            ) : shownResponse ? (
                                 <div className="prose max-w-none dark:prose-invert space-y-3 break-words">
                                     <ReactMarkdown
                                         remarkPlugins={[remarkGfm]}
@@ -272,30 +395,136 @@ export default function PartyBPanel({
                                             )
                                         }}
                                     >
-                                        {response}
+                                        {shownResponse}
                                     </ReactMarkdown>
                                 </div>
                             ) : (
-                                <span>{isGenerating ? 'Generating response...' : 'Output'}</span>
+                                <span>{shownGenerating ? 'Generating response...' : 'Output'}</span>
                             )}
-                            {isGenerating && (
+                            {shownGenerating && (
                                 <span className="inline-block w-2 h-6 ml-2 bg-foreground/60 animate-pulse" />
                             )}
                         </div>
+
+                        {/* Truncation notice */}
+                        {shownTruncated && shownResponse && !shownGenerating && (
+                            <div className="mt-3 inline-flex items-center gap-1.5 rounded-md border border-amber-500/30 bg-amber-500/10 px-2 py-1 text-[11px] text-amber-600">
+                                <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="9" /><line x1="12" y1="7" x2="12" y2="13" /><circle cx="12" cy="17" r="1" /></svg>
+                                Response was cut off at the token limit.
+                            </div>
+                        )}
+
+                        {/* Notebook citations */}
+                        {shownCitations.length > 0 && shownResponse && !shownGenerating && (
+                            <div className="mt-3 flex flex-wrap items-center gap-1.5">
+                                <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Sources</span>
+                                {shownCitations.map((citation) => {
+                                    const href = getCitationHref(citation);
+                                    const label = citation.heading && citation.heading !== citation.notebookTitle
+                                        ? `${citation.notebookTitle} › ${citation.heading}`
+                                        : citation.notebookTitle;
+                                    const chipClass = 'inline-flex max-w-[16rem] items-center gap-1 rounded-full border border-primary/30 bg-primary/10 px-2 py-0.5 text-[11px] text-primary';
+                                    const content = (
+                                        <>
+                                            <span className="font-semibold">{citation.label}</span>
+                                            <span className="truncate">{label}</span>
+                                        </>
+                                    );
+                                    return href ? (
+                                        <a
+                                            key={citation.label}
+                                            href={href}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            title={citation.excerpt}
+                                            className={`${chipClass} hover:bg-primary/20 transition-colors`}
+                                        >
+                                            {content}
+                                        </a>
+                                    ) : (
+                                        <span key={citation.label} title={citation.excerpt} className={chipClass}>{content}</span>
+                                    );
+                                })}
+                            </div>
+                        )}
                         
                         {/* Add padding at bottom to prevent content from being hidden behind button */}
                         <div className="h-20"></div>
                     </div>
 
+                    {/* Compare replies - Fixed at Bottom Left */}
+                    {onCompare && !variant && response && !isGenerating && (
+                        <div ref={compareRef} className="absolute bottom-4 left-4">
+                            <button
+                                onClick={() => setIsCompareOpen(open => !open)}
+                                className="flex items-center gap-1.5 px-3 py-2 rounded-full bg-muted/30 text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors shadow-lg"
+                                title="Compare alternative replies"
+                            >
+                                <CompareIcon className="w-4 h-4" />
+                                <span className="hidden sm:inline">Compare</span>
+                            </button>
+
+                            {isCompareOpen && (
+                                <div className="absolute bottom-full left-0 mb-2 w-64 p-3 bg-popover border border-border rounded-xl shadow-xl z-50 space-y-3">
+                                    <div>
+                                        <label className="block mb-1 text-[10px] font-medium uppercase tracking-wider text-muted-foreground">Replies</label>
+                                        <div className="flex gap-1">
+                                            {Array.from({ length: MAX_VARIANTS - MIN_VARIANTS + 1 }, (_, i) => MIN_VARIANTS + i).map(count => (
+                                                <button
+                                                    key={count}
+                                                    onClick={() => setCompareCount(count)}
+                                                    className={`flex-1 py-1 rounded-md text-xs transition-colors ${compareCount === count ? 'bg-primary/15 text-primary' : 'bg-muted/40 text-muted-foreground hover:text-foreground'}`}
+                                                >
+                                                    {count}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className="block mb-1 text-[10px] font-medium uppercase tracking-wider text-muted-foreground">Vary by</label>
+                                        <div className="flex gap-1">
+                                            {([['temperature', 'Temperature'], ['models', 'Model']] as const).map(([mode, label]) => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => setCompareMode(mode)}
+                                                    disabled={mode === 'models' && !canCompareModels}
+                                                    title={mode === 'models' && !canCompareModels ? 'Configure another provider in Settings' : undefined}
+                                                    className={`flex-1 py-1 rounded-md text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${compareMode === mode ? 'bg-primary/15 text-primary' : 'bg-muted/40 text-muted-foreground hover:text-foreground'}`}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <p className="text-[10px] text-muted-foreground leading-snug">
+                                        {compareMode === 'models'
+                                            ? 'The same message goes to your other configured providers.'
+                                            : 'The same model answers again at different temperatures.'}
+                                        {' '}The reply you pick replaces this one in the conversation.
+                                    </p>
+                                    <button
+                                        onClick={() => {
+                                            setIsCompareOpen(false);
+                                            onCompare(compareCount, compareMode);
+                                        }}
+                                        className="w-full py-1.5 rounded-md bg-primary text-primary-foreground text-xs font-medium hover:bg-primary/90 transition-colors"
+                                    >
+                                        Generate {compareCount - 1} alternative{compareCount > 2 ? 's' : ''}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Play/Stop button - Fixed at Bottom Right (outside scrollable content) */}
-                    {response && !isGenerating && (
+                    {shownResponse && !shownGenerating && (
                         <div className="absolute bottom-4 right-4 pointer-events-none">
                             <button
                                 onClick={() => {
                                     if (showActiveState && onStopAudio) {
                                         onStopAudio();
                                     } else {
-                                        onPlayAudio(response, languages[0] || 'en', 'response');
+                                        onPlayAudio(shownResponse, languages[0] || 'en', 'response');
                                     }
                                 }}
                                 className={`p-3 rounded-full transition-all shadow-lg pointer-events-auto ${showActiveState
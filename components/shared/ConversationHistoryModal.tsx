@@ -1,8 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { chatService } from '@/lib/services/llm';
-import { NotebookDoc, deleteNotebook, loadNotebooks, upsertNotebook } from '@/lib/utils/notebook-storage';
+import { NotebookChange, NotebookDoc, deleteNotebook, describeGenerationModel, loadNotebooks, upsertNotebook, withNotebookRevisions } from '@/lib/utils/notebook-storage';
+import {
+    addNotebookTags,
+    isInCollection,
+    listCollections,
+    listTags,
+    moveNotebooks,
+    parseTags,
+    removeNotebookTag
+} from '@/lib/utils/notebook-collections';
+import { buildNotebookCollectionBundle, downloadFile, exportFileName } from '@/lib/utils/notebook-export';
+import { addUsage, EMPTY_USAGE_TOTALS, formatCost, formatTokens, type UsageTotals } from '@/lib/utils/usage-tracker';
+import { getActivePath, getAlternatives, hasBranches, type ConversationTree } from '@/lib/utils/conversation-tree';
 
 // Inline Icons to replace Lucide
 const Icons = {
@@ -52,8 +64,18 @@ interface ConversationHistoryModalProps {
     history: HistoryItem[];
     partyAContext?: string;
     partyBContext?: string;
+    sessionId?: string; // Saved session this conversation belongs to, linked from generated notebooks
+    // Branch navigation; `history` is the tree's active branch
+    tree?: ConversationTree;
+    onSwitchBranch?: (nodeId: string) => void;
+    onRewind?: (nodeId: string) => void;
+    onEditMessage?: (nodeId: string, text: string) => void;
+    onRegenerate?: (nodeId: string) => void;
 }
 
+// Folder filter value for notebooks without a folder; never a normalized folder path
+const UNFILED = '/';
+
 const createNotebookId = () => {
     if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
         return crypto.randomUUID();
@@ -66,7 +88,19 @@ const extractTitle = (markdown: string) => {
     return match ? match[1].trim() : '';
 };
 
-export function ConversationHistoryModal({ isOpen, onClose, history, partyAContext, partyBContext }: ConversationHistoryModalProps) {
+export function ConversationHistoryModal({
+    isOpen,
+    onClose,
+    history,
+    partyAContext,
+    partyBContext,
+    sessionId,
+    tree,
+    onSwitchBranch,
+    onRewind,
+    onEditMessage,
+    onRegenerate
+}: ConversationHistoryModalProps) {
     const [activeTab, setActiveTab] = useState<'history' | 'notebook'>('history');
     const [isNotebookGenerating, setIsNotebookGenerating] = useState(false);
     const [notebookError, setNotebookError] = useState<string | null>(null);
@@ -79,6 +113,22 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
     const [conversationPrompt, setConversationPrompt] = useState('');
     const [notebookPrompt, setNotebookPrompt] = useState('');
     const [selectedNotebookIds, setSelectedNotebookIds] = useState<string[]>([]);
+    // Manage list filters: '' shows everything, UNFILED notebooks without a folder, otherwise a folder path
+    const [folderFilter, setFolderFilter] = useState('');
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [bulkFolder, setBulkFolder] = useState('');
+    const [bulkTags, setBulkTags] = useState('');
+    const [draftUsage, setDraftUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+    // Latest generation, so saving the draft unedited is recorded as an AI revision with its prompt
+    const [draftGeneration, setDraftGeneration] = useState<{ content: string; change: NotebookChange } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Abort any in-flight generation when the modal closes or unmounts
+    useEffect(() => {
+        if (!isOpen) abortRef.current?.abort();
+    }, [isOpen]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     useEffect(() => {
         const handleEsc = (e: KeyboardEvent) => {
@@ -97,35 +147,89 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
 
     useEffect(() => {
         if (!isOpen) return;
-        setNotebooks(loadNotebooks());
+        loadNotebooks()
+            .then(setNotebooks)
+            .catch((error) => setNotebookError(error instanceof Error ? error.message : 'Failed to load notebooks.'));
         setSelectedNotebookIds([]);
     }, [isOpen]);
 
+    // Bulk actions apply to the selection, so never let it include notebooks a filter hides
+    useEffect(() => {
+        setSelectedNotebookIds([]);
+    }, [folderFilter, tagFilter]);
+
     const existingDraft = notebooks.find((item) => item.id === draftId) || null;
+    const collections = listCollections(notebooks);
+    const tags = listTags(notebooks);
+    const visibleNotebooks = notebooks.filter((item) =>
+        (folderFilter === '' || (folderFilter === UNFILED ? !item.folder : isInCollection(item, folderFilter)))
+        && (!tagFilter || item.tags?.includes(tagFilter)));
+    const allVisibleSelected = visibleNotebooks.length > 0 && visibleNotebooks.every(item => selectedNotebookIds.includes(item.id));
     const resolvedTitle = draftTitle || extractTitle(draftContent) || 'Conversation Notebook';
 
-    const handleGenerateNotebook = async (prompt?: string) => {
-        if (history.length === 0 || isNotebookGenerating) return;
-        setNotebookError(null);
-        setIsNotebookGenerating(true);
+    const buildHistoryPayload = (prompt?: string) => {
+        const promptText = prompt?.trim();
+        const payload = history.map(({ role, content }) => ({ role, content }));
+        return promptText ? [...payload, { role: 'party_a', content: promptText }] : payload;
+    };
+
+    /**
+     * Stream a notebook into the draft editor, as a new notebook or (with `targetId`) a regeneration
+     * of a saved one that is saved as its next revision. Resolves to the final Markdown,
+     * or null when the user cancelled (the partial draft is kept, unsaved).
+     */
+    const streamNotebookDraft = async (prompt: string | undefined, targetId: string | null) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        // A regenerated notebook keeps adding to its accumulated cost
+        const baseUsage = notebooks.find(item => item.id === targetId)?.usage ?? EMPTY_USAGE_TOTALS;
+        setDraftId(targetId);
+        setDraftContent('');
+        setDraftTitle('');
+        setDraftUsage(baseUsage);
+        setDraftGeneration(null);
 
         try {
-            const promptText = prompt?.trim();
-            const historyPayload = promptText
-                ? [...history.map(({ role, content }) => ({ role, content })), { role: 'party_a', content: promptText }]
-                : history.map(({ role, content }) => ({ role, content }));
-            const response = await chatService.generateNotebook({
-                history: historyPayload,
-                party_a_context: partyAContext,
-                party_b_context: partyBContext
-            });
-            const markdown = (response.markdown || '').trim();
+            const { markdown, truncated, usage } = await chatService.streamNotebook(
+                {
+                    history: buildHistoryPayload(prompt),
+                    party_a_context: partyAContext,
+                    party_b_context: partyBContext
+                },
+                (partial) => setDraftContent(partial),
+                controller.signal
+            );
+            const nextUsage = usage ? addUsage(baseUsage, usage) : baseUsage;
+            setDraftUsage(nextUsage);
             if (!markdown) {
                 throw new Error('Notebook generation returned empty content.');
             }
-            setDraftId(null);
-            setDraftContent(markdown);
+            if (truncated) {
+                setNotebookError('Notebook was cut off at the token limit.');
+            }
             setDraftTitle(extractTitle(markdown));
+            const change: NotebookChange = { origin: 'generated', prompt: prompt?.trim() || undefined, model: describeGenerationModel(usage) };
+            setDraftGeneration({ content: markdown.trim(), change });
+            return { markdown, usage: nextUsage, change };
+        } catch (error) {
+            if (controller.signal.aborted) return null;
+            throw error;
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+        }
+    };
+
+    const handleCancelGenerate = () => {
+        abortRef.current?.abort();
+    };
+
+    const handleGenerateNotebook = async (prompt?: string) => {
+        if (history.length === 0 || isNotebookGenerating) return;
+        setNotebookError(null);
+        setIsNotebookGenerating(true);
+
+        try {
+            await streamNotebookDraft(prompt, draftId);
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to generate notebook.';
             setNotebookError(message);
@@ -138,23 +242,15 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
         if (history.length === 0 || isNotebookGenerating) return;
         setNotebookError(null);
         setIsNotebookGenerating(true);
-        setIsSaving(true);
+        // Show the live preview while the notebook streams in
+        setActiveTab('notebook');
 
         try {
-            const promptText = conversationPrompt.trim();
-            const historyPayload = promptText
-                ? [...history.map(({ role, content }) => ({ role, content })), { role: 'party_a', content: promptText }]
-                : history.map(({ role, content }) => ({ role, content }));
-            const response = await chatService.generateNotebook({
-                history: historyPayload,
-                party_a_context: partyAContext,
-                party_b_context: partyBContext
-            });
-            const markdown = (response.markdown || '').trim();
-            if (!markdown) {
-                throw new Error('Notebook generation returned empty content.');
-            }
+            const result = await streamNotebookDraft(conversationPrompt, null);
+            if (!result) return;
+            const { markdown, usage, change } = result;
 
+            setIsSaving(true);
             const now = new Date().toISOString();
             const id = createNotebookId();
             const title = extractTitle(markdown) || 'Conversation Notebook';
@@ -167,15 +263,15 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                 source: {
                     partyAContext,
                     partyBContext,
-                    messageCount: history.length
-                }
+                    messageCount: history.length,
+                    sessionId
+                },
+                usage
             };
-            upsertNotebook(notebook);
-            setNotebooks(loadNotebooks());
+            await upsertNotebook(notebook, change);
+            setNotebooks(await loadNotebooks());
             setDraftId(id);
-            setDraftContent(markdown);
             setDraftTitle(title);
-            setActiveTab('notebook');
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Failed to generate notebook.';
             setNotebookError(message);
@@ -189,11 +285,13 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
         setDraftId(doc.id);
         setDraftContent(doc.content);
         setDraftTitle(doc.title);
+        setDraftUsage(doc.usage ?? EMPTY_USAGE_TOTALS);
+        setDraftGeneration(null);
         setNotebookError(null);
         setNotebookPrompt('');
     };
 
-    const handleSaveNotebook = () => {
+    const handleSaveNotebook = async () => {
         const trimmed = draftContent.trim();
         if (!trimmed) {
             setNotebookError('Add notebook content before saving.');
@@ -211,22 +309,38 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
             source: existingDraft?.source ?? {
                 partyAContext,
                 partyBContext,
-                messageCount: history.length
-            }
+                messageCount: history.length,
+                sessionId
+            },
+            usage: draftUsage.requests > 0 ? draftUsage : existingDraft?.usage,
+            folder: existingDraft?.folder,
+            tags: existingDraft?.tags
         };
-        upsertNotebook(notebook);
-        setDraftId(id);
-        setDraftTitle(resolvedTitle);
-        setNotebooks(loadNotebooks());
-        setIsSaving(false);
+        const change: NotebookChange = draftGeneration?.content === trimmed
+            ? draftGeneration.change
+            : { origin: 'manual' };
+        try {
+            await upsertNotebook(notebook, change);
+            setDraftId(id);
+            setDraftTitle(resolvedTitle);
+            setNotebooks(await loadNotebooks());
+        } catch (error) {
+            setNotebookError(error instanceof Error ? error.message : 'Failed to save notebook.');
+        } finally {
+            setIsSaving(false);
+        }
     };
 
-    const handleDeleteNotebook = (id: string) => {
+    const handleDeleteNotebook = async (id: string) => {
         const confirmed = window.confirm('Delete this notebook? This cannot be undone.');
         if (!confirmed) return;
-        deleteNotebook(id);
-        const refreshed = loadNotebooks();
-        setNotebooks(refreshed);
+        try {
+            await deleteNotebook(id);
+            setNotebooks(await loadNotebooks());
+        } catch (error) {
+            setNotebookError(error instanceof Error ? error.message : 'Failed to delete notebook.');
+            return;
+        }
         if (draftId === id) {
             setDraftId(null);
             setDraftContent('');
@@ -241,20 +355,60 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
     };
 
     const handleSelectAll = () => {
-        if (selectedNotebookIds.length === notebooks.length) {
+        if (allVisibleSelected) {
             setSelectedNotebookIds([]);
         } else {
-            setSelectedNotebookIds(notebooks.map(item => item.id));
+            setSelectedNotebookIds(visibleNotebooks.map(item => item.id));
+        }
+    };
+
+    const runBulk = async (action: () => Promise<void>, failure: string) => {
+        try {
+            await action();
+            setNotebooks(await loadNotebooks());
+        } catch (error) {
+            setNotebookError(error instanceof Error ? error.message : failure);
         }
     };
 
-    const handleDeleteSelected = () => {
+    const handleMoveSelected = () => runBulk(async () => {
+        await moveNotebooks(selectedNotebookIds, bulkFolder);
+        setBulkFolder('');
+    }, 'Failed to move notebooks.');
+
+    const handleTagSelected = () => runBulk(async () => {
+        const parsed = parseTags(bulkTags);
+        if (parsed.length === 0) return;
+        await addNotebookTags(selectedNotebookIds, parsed);
+        setBulkTags('');
+    }, 'Failed to tag notebooks.');
+
+    const handleRemoveTag = (id: string, tag: string) =>
+        runBulk(() => removeNotebookTag([id], tag), 'Failed to remove tag.');
+
+    const handleExportSelected = async () => {
+        const selected = notebooks.filter(item => selectedNotebookIds.includes(item.id));
+        if (selected.length === 0) return;
+        try {
+            const bundle = buildNotebookCollectionBundle(await Promise.all(selected.map(withNotebookRevisions)));
+            const name = folderFilter && folderFilter !== UNFILED ? folderFilter : 'notebooks';
+            downloadFile(exportFileName(name, 'json'), JSON.stringify(bundle, null, 2), 'application/json;charset=utf-8');
+        } catch (error) {
+            setNotebookError(error instanceof Error ? error.message : 'Failed to export notebooks.');
+        }
+    };
+
+    const handleDeleteSelected = async () => {
         if (selectedNotebookIds.length === 0) return;
         const confirmed = window.confirm(`Delete ${selectedNotebookIds.length} notebook(s)? This cannot be undone.`);
         if (!confirmed) return;
-        selectedNotebookIds.forEach(deleteNotebook);
-        const refreshed = loadNotebooks();
-        setNotebooks(refreshed);
+        try {
+            await Promise.all(selectedNotebookIds.map(deleteNotebook));
+            setNotebooks(await loadNotebooks());
+        } catch (error) {
+            setNotebookError(error instanceof Error ? error.message : 'Failed to delete notebooks.');
+            return;
+        }
         if (draftId && selectedNotebookIds.includes(draftId)) {
             setDraftId(null);
             setDraftContent('');
@@ -325,9 +479,17 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                     )}
                     {activeTab === 'notebook' && (
                         <div className="flex items-center gap-2">
+                            {isNotebookGenerating && (
+                                <button
+                                    onClick={handleCancelGenerate}
+                                    className="px-3 py-1.5 text-xs font-semibold rounded-lg border border-destructive/30 text-destructive bg-destructive/10 hover:bg-destructive/20 transition-colors"
+                                >
+                                    Cancel generation
+                                </button>
+                            )}
                             <button
                                 onClick={handleSaveNotebook}
-                                disabled={isSaving}
+                                disabled={isSaving || isNotebookGenerating}
                                 className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                             >
                                 {isSaving ? 'Saving...' : 'Save Notebook'}
@@ -365,9 +527,38 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                 <p>No conversation history yet.</p>
                             </div>
                         ) : (
-                            history.map((item, idx) => (
-                                <HistoryMessage key={idx} item={item} />
-                            ))
+                            tree ? (
+                                <>
+                                    {hasBranches(tree) && (
+                                        <p className="text-[10px] text-muted-foreground">
+                                            Showing the active branch. Use ‹ › on a message to switch between its alternatives.
+                                        </p>
+                                    )}
+                                    {getActivePath(tree).map((node, idx) => {
+                                        const { siblings, index } = getAlternatives(tree, node.id);
+                                        const isPartyA = node.role === 'party_a' || node.role === 'user';
+                                        const isLast = idx === history.length - 1;
+                                        return (
+                                            <HistoryMessage
+                                                key={node.id}
+                                                item={node}
+                                                branch={siblings.length > 1 && onSwitchBranch ? {
+                                                    index,
+                                                    count: siblings.length,
+                                                    onSelect: (position) => onSwitchBranch(siblings[position].id)
+                                                } : undefined}
+                                                onRewind={onRewind && !isLast ? () => onRewind(node.id) : undefined}
+                                                onEdit={onEditMessage && isPartyA ? (text) => onEditMessage(node.id, text) : undefined}
+                                                onRegenerate={onRegenerate && !isPartyA && node.parentId ? () => onRegenerate(node.id) : undefined}
+                                            />
+                                        );
+                                    })}
+                                </>
+                            ) : (
+                                history.map((item, idx) => (
+                                    <HistoryMessage key={idx} item={item} />
+                                ))
+                            )
                         )}
                     </div>
                 ) : (
@@ -386,10 +577,10 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                         <button
                                             onClick={handleSelectAll}
                                             className="flex items-center gap-1 text-[10px] font-semibold px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors"
-                                            title={selectedNotebookIds.length === notebooks.length ? 'Clear selection' : 'Select all'}
+                                            title={allVisibleSelected ? 'Clear selection' : 'Select all shown'}
                                         >
                                             <span className="inline-flex w-3 h-3 items-center justify-center rounded border border-border text-[9px]">
-                                                {selectedNotebookIds.length === notebooks.length ? '✓' : ''}
+                                                {allVisibleSelected ? '✓' : ''}
                                             </span>
                                             All
                                         </button>
@@ -413,6 +604,7 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                             setDraftId(null);
                                             setDraftContent('');
                                             setDraftTitle('');
+                                            setDraftUsage(EMPTY_USAGE_TOTALS);
                                             setNotebookPrompt('');
                                         }}
                                         className="text-[10px] font-semibold px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors"
@@ -421,11 +613,99 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                     </button>
                                 </div>
                             </div>
+                            {notebooks.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-1.5">
+                                    <select
+                                        value={folderFilter}
+                                        onChange={(event) => setFolderFilter(event.target.value)}
+                                        className="flex-1 min-w-0 rounded-md border border-border bg-background/70 px-2 py-1 text-[11px] focus:outline-none focus:ring-1 focus:ring-primary/40"
+                                        title="Filter by collection"
+                                    >
+                                        <option value="">All notebooks ({notebooks.length})</option>
+                                        {collections.map((collection) => (
+                                            <option key={collection.path} value={collection.path}>
+                                                {`${'\u00a0\u00a0'.repeat(collection.depth)}${collection.name} (${collection.count})`}
+                                            </option>
+                                        ))}
+                                        {collections.length > 0 && <option value={UNFILED}>Unfiled</option>}
+                                    </select>
+                                    {tagFilter && (
+                                        <button
+                                            onClick={() => setTagFilter(null)}
+                                            className="text-[10px] font-semibold px-2 py-1 rounded-full bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                                            title="Clear tag filter"
+                                        >
+                                            #{tagFilter} ✕
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {selectedNotebookIds.length > 0 && (
+                                <div className="space-y-1.5 rounded-md border border-border/70 bg-background/60 p-2 text-[11px]">
+                                    <div className="font-semibold text-muted-foreground">{selectedNotebookIds.length} selected</div>
+                                    <form
+                                        onSubmit={(event) => {
+                                            event.preventDefault();
+                                            handleMoveSelected();
+                                        }}
+                                        className="flex items-center gap-1.5"
+                                    >
+                                        <input
+                                            value={bulkFolder}
+                                            onChange={(event) => setBulkFolder(event.target.value)}
+                                            list="notebook-collections"
+                                            placeholder="Folder (empty to unfile)"
+                                            className="flex-1 min-w-0 rounded-md border border-border bg-background px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary/40"
+                                        />
+                                        <datalist id="notebook-collections">
+                                            {collections.map((collection) => <option key={collection.path} value={collection.path} />)}
+                                        </datalist>
+                                        <button type="submit" className="font-semibold px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors">
+                                            Move
+                                        </button>
+                                    </form>
+                                    <form
+                                        onSubmit={(event) => {
+                                            event.preventDefault();
+                                            handleTagSelected();
+                                        }}
+                                        className="flex items-center gap-1.5"
+                                    >
+                                        <input
+                                            value={bulkTags}
+                                            onChange={(event) => setBulkTags(event.target.value)}
+                                            list="notebook-tags"
+                                            placeholder="Tags, comma-separated"
+                                            className="flex-1 min-w-0 rounded-md border border-border bg-background px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary/40"
+                                        />
+                                        <datalist id="notebook-tags">
+                                            {tags.map((tag) => <option key={tag} value={tag} />)}
+                                        </datalist>
+                                        <button
+                                            type="submit"
+                                            disabled={parseTags(bulkTags).length === 0}
+                                            className="font-semibold px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                        >
+                                            Tag
+                                        </button>
+                                    </form>
+                                    <button
+                                        onClick={handleExportSelected}
+                                        className="w-full font-semibold px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors"
+                                        title="Download the selected notebooks as one JSON file (importable)"
+                                    >
+                                        Export selected
+                                    </button>
+                                </div>
+                            )}
                             <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
                                 {notebooks.length === 0 && (
                                     <div className="text-xs text-muted-foreground">No notebooks yet.</div>
                                 )}
-                                {notebooks.map((notebook) => (
+                                {notebooks.length > 0 && visibleNotebooks.length === 0 && (
+                                    <div className="text-xs text-muted-foreground">No notebooks match the filter.</div>
+                                )}
+                                {visibleNotebooks.map((notebook) => (
                                     <div
                                         key={notebook.id}
                                         className={`rounded-lg border p-2 text-xs transition-colors cursor-pointer ${draftId === notebook.id
@@ -457,10 +737,44 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                                     {notebook.title || 'Untitled Notebook'}
                                                 </div>
                                                 <div className="text-[10px] text-muted-foreground mt-1">
+                                                    {notebook.folder && <span title="Folder">{notebook.folder} · </span>}
                                                     Updated {new Date(notebook.updatedAt).toLocaleDateString()}
+                                                    {notebook.usage && notebook.usage.requests > 0 && (
+                                                        <span title={`${notebook.usage.totalTokens.toLocaleString()} tokens across ${notebook.usage.requests} generation(s)`}>
+                                                            {' · '}{formatCost(notebook.usage.cost)}
+                                                        </span>
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
+                                        {notebook.tags && notebook.tags.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mt-1.5 pl-6">
+                                                {notebook.tags.map((tag) => (
+                                                    <span key={tag} className="inline-flex items-center rounded-full bg-muted text-[10px] text-muted-foreground">
+                                                        <button
+                                                            onClick={(event) => {
+                                                                event.stopPropagation();
+                                                                setTagFilter(tag);
+                                                            }}
+                                                            className="pl-1.5 pr-1 py-0.5 hover:text-foreground"
+                                                            title={`Show notebooks tagged #${tag}`}
+                                                        >
+                                                            #{tag}
+                                                        </button>
+                                                        <button
+                                                            onClick={(event) => {
+                                                                event.stopPropagation();
+                                                                handleRemoveTag(notebook.id, tag);
+                                                            }}
+                                                            className="pr-1.5 py-0.5 hover:text-destructive"
+                                                            aria-label={`Remove tag ${tag}`}
+                                                        >
+                                                            ×
+                                                        </button>
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
                                         <div className="flex items-center gap-2 mt-2">
                                             <button
                                                 onClick={(event) => {
@@ -505,6 +819,14 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                     placeholder={resolvedTitle}
                                     className="flex-1 rounded-md border border-border bg-background/40 px-3 py-1.5 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-primary/40"
                                 />
+                                {draftUsage.requests > 0 && (
+                                    <span
+                                        className="text-[10px] text-muted-foreground tabular-nums whitespace-nowrap"
+                                        title={`${draftUsage.promptTokens.toLocaleString()} prompt + ${draftUsage.completionTokens.toLocaleString()} completion tokens`}
+                                    >
+                                        {formatTokens(draftUsage.totalTokens)} tok · {formatCost(draftUsage.cost)}
+                                    </span>
+                                )}
                                 <div className="flex items-center gap-1 rounded-full border border-border bg-background/70 p-1">
                                     {(['edit', 'preview', 'both'] as const).map((mode) => (
                                         <button
@@ -520,23 +842,29 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                     ))}
                                 </div>
                             </div>
-                            {!draftId && (
-                                <div className="flex items-center gap-2">
-                                    <input
-                                        value={notebookPrompt}
-                                        onChange={(event) => setNotebookPrompt(event.target.value)}
-                                        placeholder="Prompt to build a notebook..."
-                                        className="flex-1 rounded-lg border border-border bg-card/60 px-3 py-2 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40"
-                                    />
+                            <div className="flex items-center gap-2">
+                                <input
+                                    value={notebookPrompt}
+                                    onChange={(event) => setNotebookPrompt(event.target.value)}
+                                    placeholder={draftId ? 'Prompt to regenerate this notebook...' : 'Prompt to build a notebook...'}
+                                    className="flex-1 rounded-lg border border-border bg-card/60 px-3 py-2 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40"
+                                />
+                                {isNotebookGenerating ? (
+                                    <button
+                                        onClick={handleCancelGenerate}
+                                        className="px-3 py-2 text-xs font-semibold rounded-lg border border-destructive/30 text-destructive bg-destructive/10 hover:bg-destructive/20 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                ) : (
                                     <button
                                         onClick={() => handleGenerateNotebook(notebookPrompt)}
-                                        disabled={isNotebookGenerating}
-                                        className="px-3 py-2 text-xs font-semibold rounded-lg border border-border bg-background/80 hover:bg-muted transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                                        className="px-3 py-2 text-xs font-semibold rounded-lg border border-border bg-background/80 hover:bg-muted transition-colors"
                                     >
-                                        {isNotebookGenerating ? 'Generating...' : 'Generate'}
+                                        {draftId ? 'Regenerate' : 'Generate'}
                                     </button>
-                                </div>
-                            )}
+                                )}
+                            </div>
                             <div
                                 className={`grid gap-4 flex-1 min-h-0 ${viewMode === 'both' ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`}
                             >
@@ -546,6 +874,7 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                         <textarea
                                             value={draftContent}
                                             onChange={(event) => setDraftContent(event.target.value)}
+                                            readOnly={isNotebookGenerating}
                                             placeholder="# Notebook title\n\nWrite or paste your markdown here..."
                                             className="flex-1 min-h-0 w-full rounded-lg border border-border bg-card/60 p-3 text-sm font-mono leading-relaxed focus:outline-none focus:ring-1 focus:ring-primary/40 resize-none"
                                         />
@@ -553,7 +882,10 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
                                 )}
                                 {(viewMode === 'preview' || viewMode === 'both') && (
                                     <div className="flex flex-col gap-2 min-h-0">
-                                        <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Preview</span>
+                                        <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                            Preview
+                                            {isNotebookGenerating && <span className="ml-2 normal-case tracking-normal font-normal animate-pulse">Writing...</span>}
+                                        </span>
                                         <div className="flex-1 min-h-0 w-full rounded-lg border border-border bg-card/60 p-4 overflow-y-auto custom-scrollbar">
                                             <ReactMarkdown
                                                 remarkPlugins={[remarkGfm]}
@@ -588,10 +920,26 @@ export function ConversationHistoryModal({ isOpen, onClose, history, partyAConte
     );
 }
 
-function HistoryMessage({ item }: { item: HistoryItem }) {
+interface HistoryMessageProps {
+    item: HistoryItem;
+    branch?: { index: number; count: number; onSelect: (index: number) => void }; // Alternatives at this turn
+    onRewind?: () => void;                 // Make this the last turn of the conversation
+    onEdit?: (text: string) => void;       // Party A: resend edited as a new branch
+    onRegenerate?: () => void;             // Party B: ask again as a new branch
+}
+
+export function HistoryMessage({ item, branch, onRewind, onEdit, onRegenerate }: HistoryMessageProps) {
     const isPartyA = item.role === 'party_a' || item.role === 'user';
     const [isTranslationsOpen, setIsTranslationsOpen] = useState(false);
+    const [editDraft, setEditDraft] = useState<string | null>(null);
     const hasTranslations = item.translations && Object.keys(item.translations).length > 0;
+    const hasActions = !!(branch || onRewind || onEdit || onRegenerate);
+
+    const submitEdit = () => {
+        const text = editDraft?.trim();
+        if (text && text !== item.content.trim()) onEdit?.(text);
+        setEditDraft(null);
+    };
 
     return (
         <div className={`group flex flex-col max-w-[85%] ${isPartyA ? 'ml-auto items-end' : 'mr-auto items-start'}`}>
@@ -615,25 +963,54 @@ function HistoryMessage({ item }: { item: HistoryItem }) {
                 ? 'bg-primary text-primary-foreground border-primary/20 rounded-tr-sm'
                 : 'bg-background text-foreground border-border/80 rounded-tl-sm'
                 }`}>
-                <div className="whitespace-pre-wrap leading-relaxed prose prose-invert max-w-none">
-                    <ReactMarkdown
-                        remarkPlugins={[remarkGfm]}
-                        components={{
-                            p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                            strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                            em: ({ children }) => <em className="italic">{children}</em>,
-                            ul: ({ children }) => <ul className="list-disc pl-5 space-y-1">{children}</ul>,
-                            ol: ({ children }) => <ol className="list-decimal pl-5 space-y-1">{children}</ol>,
-                            li: ({ children }) => <li>{children}</li>,
-                            code: ({ children }) => <code className="px-1 py-0.5 rounded bg-muted text-xs">{children}</code>,
-                            pre: ({ children }) => (
-                                <pre className="bg-muted/40 p-3 rounded-md overflow-x-auto text-xs leading-relaxed">{children}</pre>
-                            )
-                        }}
-                    >
-                        {item.content}
-                    </ReactMarkdown>
-                </div>
+                {editDraft !== null ? (
+                    <div className="flex flex-col gap-2 min-w-[16rem]">
+                        <textarea
+                            value={editDraft}
+                            onChange={(event) => setEditDraft(event.target.value)}
+                            onKeyDown={(event) => {
+                                if (event.key === 'Enter' && !event.shiftKey) {
+                                    event.preventDefault();
+                                    submitEdit();
+                                } else if (event.key === 'Escape') {
+                                    event.stopPropagation();
+                                    setEditDraft(null);
+                                }
+                            }}
+                            rows={3}
+                            autoFocus
+                            className="w-full rounded-md bg-background/90 text-foreground border border-border px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-primary/40"
+                        />
+                        <div className="flex justify-end gap-2 text-xs">
+                            <button onClick={() => setEditDraft(null)} className="px-2 py-1 rounded-md hover:bg-background/20 transition-colors">
+                                Cancel
+                            </button>
+                            <button onClick={submitEdit} className="px-2 py-1 rounded-md bg-background text-foreground font-semibold hover:bg-background/90 transition-colors">
+                                Send as new branch
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="whitespace-pre-wrap leading-relaxed prose prose-invert max-w-none">
+                        <ReactMarkdown
+                            remarkPlugins={[remarkGfm]}
+                            components={{
+                                p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                                strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                                em: ({ children }) => <em className="italic">{children}</em>,
+                                ul: ({ children }) => <ul className="list-disc pl-5 space-y-1">{children}</ul>,
+                                ol: ({ children }) => <ol className="list-decimal pl-5 space-y-1">{children}</ol>,
+                                li: ({ children }) => <li>{children}</li>,
+                                code: ({ children }) => <code className="px-1 py-0.5 rounded bg-muted text-xs">{children}</code>,
+                                pre: ({ children }) => (
+                                    <pre className="bg-muted/40 p-3 rounded-md overflow-x-auto text-xs leading-relaxed">{children}</pre>
+                                )
+                            }}
+                        >
+                            {item.content}
+                        </ReactMarkdown>
+                    </div>
+                )}
 
                 {/* Translation Toggle */}
                 {hasTranslations && (
@@ -649,6 +1026,50 @@ function HistoryMessage({ item }: { item: HistoryItem }) {
                 )}
             </div>
 
+            {/* Branch Navigator & Turn Actions */}
+            {hasActions && editDraft === null && (
+                <div className={`mt-1 flex items-center gap-2 text-[10px] text-muted-foreground ${isPartyA ? 'flex-row-reverse' : ''}`}>
+                    {branch && (
+                        <div className="flex items-center gap-1 font-mono" title="Alternatives at this turn">
+                            <button
+                                onClick={() => branch.onSelect(branch.index - 1)}
+                                disabled={branch.index === 0}
+                                className="px-1 rounded hover:bg-muted hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                aria-label="Previous branch"
+                            >
+                                ‹
+                            </button>
+                            <span>{branch.index + 1}/{branch.count}</span>
+                            <button
+                                onClick={() => branch.onSelect(branch.index + 1)}
+                                disabled={branch.index === branch.count - 1}
+                                className="px-1 rounded hover:bg-muted hover:text-foreground disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                aria-label="Next branch"
+                            >
+                                ›
+                            </button>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        {onEdit && (
+                            <button onClick={() => setEditDraft(item.content)} className="hover:text-foreground transition-colors">
+                                Edit
+                            </button>
+                        )}
+                        {onRegenerate && (
+                            <button onClick={onRegenerate} className="hover:text-foreground transition-colors">
+                                Regenerate
+                            </button>
+                        )}
+                        {onRewind && (
+                            <button onClick={onRewind} className="hover:text-foreground transition-colors" title="Continue the conversation from this message">
+                                Rewind here
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {/* Collapsible Translations */}
             {hasTranslations && isTranslationsOpen && (
                 <div className={`mt-2 w-full space-y-1.5 animate-in slide-in-from-top-2 duration-200 ${isPartyA ? 'text-right' : 'text-left'}`}>
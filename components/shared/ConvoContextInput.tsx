@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 import { AudioVisualizer } from '@/components/shared/AudioVisualizer';
@@ -7,6 +7,10 @@ import { getLLMHeaders } from '@/lib/config/llm-config';
 import { sendEvent } from '@/lib/analytics';
 import { sttService } from '@/lib/services/audio';
 import type { NotebookDoc } from '@/lib/utils/notebook-storage';
+import { buildCollectionNotebook, COLLECTION_ID_PREFIX, collectionId, isCollectionId, listCollections } from '@/lib/utils/notebook-collections';
+import { usageTracker } from '@/lib/utils/usage-tracker';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import type { SimulationEvaluation, SimulationStopReason } from '@/lib/services/simulation';
 
 // Inline SVGs to avoid dependency issues
 const SparklesIcon = ({ className }: { className?: string }) => (
@@ -133,6 +137,25 @@ const ChatIcon = ({ className }: { className?: string }) => (
     </svg>
 );
 
+const GoalIcon = ({ className }: { className?: string }) => (
+    <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="20"
+        height="20"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <circle cx="12" cy="12" r="9" />
+        <circle cx="12" cy="12" r="5" />
+        <circle cx="12" cy="12" r="1" />
+    </svg>
+);
+
 const NotebookIcon = ({ className }: { className?: string }) => (
     <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -151,6 +174,24 @@ const NotebookIcon = ({ className }: { className?: string }) => (
     </svg>
 );
 
+const SearchIcon = ({ className }: { className?: string }) => (
+    <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="18"
+        height="18"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <circle cx="11" cy="11" r="8" />
+        <path d="m21 21-4.3-4.3" />
+    </svg>
+);
+
 const PlusIcon = ({ className }: { className?: string }) => (
     <svg
         xmlns="http://www.w3.org/2000/svg"
@@ -194,6 +235,8 @@ interface PartySettings {
 export interface ContextResponse {
     party_a: PartySettings;
     party_b: PartySettings;
+    usage?: TokenUsage;
+    servedBy?: ServedBy;
 }
 
 type ConversationMode = 'conversation' | 'notebook';
@@ -206,6 +249,10 @@ interface ContextInputProps {
     onAutoPlayToggle?: () => void;
     autoplayCount?: number;
     maxAutoplayCount?: number;
+    autoPlayGoal?: string;
+    onAutoPlayGoalChange?: (goal: string) => void;
+    autoPlayEvaluation?: SimulationEvaluation | null; // Latest goal check of the current/last run
+    autoPlayStopReason?: SimulationStopReason | null;
     brandContent?: React.ReactNode;
     rightContent?: React.ReactNode;
     onHistoryClick?: () => void;
@@ -216,6 +263,7 @@ interface ContextInputProps {
     onNotebookSelect?: (id: string) => void;
     onNotebookSend?: (text: string, notebook: NotebookDoc) => Promise<void> | void;
     onOpenNotebookBuilder?: () => void;
+    onSearchNotebooks?: () => void;
 }
 
 export const ConvoContextInput: React.FC<ContextInputProps> = ({
@@ -226,6 +274,10 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
     onAutoPlayToggle,
     autoplayCount,
     maxAutoplayCount,
+    autoPlayGoal = '',
+    onAutoPlayGoalChange,
+    autoPlayEvaluation,
+    autoPlayStopReason,
     brandContent,
     rightContent,
     onHistoryClick,
@@ -235,7 +287,8 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
     selectedNotebookId,
     onNotebookSelect,
     onNotebookSend,
-    onOpenNotebookBuilder
+    onOpenNotebookBuilder,
+    onSearchNotebooks
 }) => {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -250,7 +303,31 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
     const [isProcessingAudio, setIsProcessingAudio] = useState(false);
 
     const isNotebookMode = mode === 'notebook';
-    const activeNotebook = notebooks.find((notebook) => notebook.id === selectedNotebookId) || null;
+    const collections = useMemo(() => listCollections(notebooks), [notebooks]);
+    // A selected collection grounds the conversation on all of its notebooks combined
+    const activeNotebook = useMemo(() => {
+        if (!selectedNotebookId) return null;
+        if (isCollectionId(selectedNotebookId)) {
+            return buildCollectionNotebook(selectedNotebookId.slice(COLLECTION_ID_PREFIX.length), notebooks);
+        }
+        return notebooks.find((notebook) => notebook.id === selectedNotebookId) || null;
+    }, [notebooks, selectedNotebookId]);
+
+    // Auto-Play goal popover
+    const [isGoalOpen, setIsGoalOpen] = useState(false);
+    const goalRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (goalRef.current && !goalRef.current.contains(event.target as Node)) {
+                setIsGoalOpen(false);
+            }
+        };
+        if (isGoalOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isGoalOpen]);
 
     useEffect(() => {
         setError(null);
@@ -266,7 +343,7 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
             const headers: Record<string, string> = {
                 'Content-Type': 'application/json',
                 'ngrok-skip-browser-warning': 'true',
-                ...getLLMHeaders()
+                ...getLLMHeaders('scenario')
             };
 
             const response = await fetch(getApiUrl('/api/ai/scenario/random'), {
@@ -277,6 +354,7 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
             if (!response.ok) throw new Error('Failed to generate context');
 
             const data = await response.json();
+            usageTracker.record('scenario', data.usage, data.servedBy);
 
             if (data.scenario) {
                 setInput(data.scenario);
@@ -308,7 +386,7 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
             const headers: Record<string, string> = {
                 'Content-Type': 'application/json',
                 'ngrok-skip-browser-warning': 'true',
-                ...getLLMHeaders()
+                ...getLLMHeaders('context')
             };
 
             const response = await fetch(getApiUrl('/api/ai/context'), {
@@ -324,6 +402,8 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
 
             const data: ContextResponse = await response.json();
             onContextSet(data);
+            // Recorded after the reset so the context call counts toward the new conversation
+            usageTracker.record('context', data.usage, data.servedBy);
             setSubmittedText(input);
             setSubmittedNotebookTitle(null);
             setIsCollapsed(true);
@@ -435,6 +515,93 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
         </div>
     );
 
+    const goalPresets = [
+        'Complete the main task of the scenario',
+        ...(isNotebookMode || activeNotebook ? ['Cover all notebook sections'] : [])
+    ];
+
+    // Latest goal check while running; how the run ended once it stops on the goal
+    const goalStatus = (() => {
+        if (!autoPlayGoal.trim()) return null;
+        if (!isAutoPlaying && autoPlayStopReason === 'goal_reached') return { label: 'Goal reached', tone: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30' };
+        if (!isAutoPlaying && autoPlayStopReason === 'looping') return { label: 'Stopped: looping', tone: 'text-amber-400 bg-amber-500/10 border-amber-500/30' };
+        if (!isAutoPlaying || !autoPlayEvaluation) return null;
+        if (autoPlayEvaluation.status === 'looping') return { label: 'Steering', tone: 'text-amber-400 bg-amber-500/10 border-amber-500/30' };
+        return { label: 'On track', tone: 'text-muted-foreground bg-muted/30 border-border' };
+    })();
+
+    const renderGoal = () => (
+        <>
+            <div className="w-px h-6 bg-border" />
+            <div ref={goalRef} className="relative shrink-0">
+                <button
+                    type="button"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setIsGoalOpen(open => !open);
+                    }}
+                    className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-full border text-[10px] font-medium transition-colors ${goalStatus
+                        ? goalStatus.tone
+                        : autoPlayGoal.trim()
+                            ? 'text-primary bg-primary/10 border-primary/30'
+                            : 'text-muted-foreground bg-muted/30 border-transparent hover:text-foreground hover:bg-muted'
+                        }`}
+                    title={autoPlayEvaluation?.reason || (autoPlayGoal.trim() ? `Goal: ${autoPlayGoal}` : 'Set an Auto-Play goal')}
+                >
+                    <GoalIcon className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{goalStatus?.label || 'Goal'}</span>
+                </button>
+
+                {isGoalOpen && (
+                    <div className="absolute top-full right-0 mt-2 w-72 p-3 bg-popover border border-border rounded-xl shadow-xl z-50 space-y-2">
+                        <label className="block text-[10px] font-medium uppercase tracking-wider text-muted-foreground">
+                            Auto-Play goal
+                        </label>
+                        <input
+                            type="text"
+                            value={autoPlayGoal}
+                            onChange={(e) => onAutoPlayGoalChange?.(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') setIsGoalOpen(false); }}
+                            placeholder='e.g. "Complete the hotel check-in"'
+                            className="w-full bg-muted/30 border border-border rounded-md px-2 py-1.5 text-xs focus:outline-none focus:border-primary/50"
+                            autoFocus
+                        />
+                        <div className="flex flex-wrap gap-1">
+                            {goalPresets.map((preset) => (
+                                <button
+                                    key={preset}
+                                    type="button"
+                                    onClick={() => onAutoPlayGoalChange?.(preset)}
+                                    className="px-2 py-0.5 rounded-full bg-muted/50 hover:bg-muted text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                    {preset}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-muted-foreground leading-snug">
+                            After each cycle the conversation is checked against the goal: Auto-Play stops once it is reached
+                            and steers the next message when the conversation loops.{isAutoPlaying ? ' Changes apply to the next run.' : ''}
+                        </p>
+                        {autoPlayEvaluation?.reason && (
+                            <p className="text-[10px] text-foreground/80 border-t border-border pt-2">
+                                Last check: {autoPlayEvaluation.reason}
+                            </p>
+                        )}
+                        {autoPlayGoal && (
+                            <button
+                                type="button"
+                                onClick={() => onAutoPlayGoalChange?.('')}
+                                className="text-[10px] text-muted-foreground hover:text-destructive transition-colors"
+                            >
+                                Clear goal
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+
     const renderCollapsed = () => {
         const label = isNotebookMode
             ? (submittedNotebookTitle || activeNotebook?.title || 'Notebook selected')
@@ -501,6 +668,9 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
                     </button>
                 )}
 
+                {/* Auto-Play Goal */}
+                {onAutoPlayGoalChange && renderGoal()}
+
                 {/* Auto-Play Count Indicator */}
                 {isAutoPlaying && autoplayCount !== undefined && maxAutoplayCount !== undefined && (
                     <>
@@ -717,13 +887,35 @@ export const ConvoContextInput: React.FC<ContextInputProps> = ({
                                 <option value="" disabled>
                                     {notebooks.length === 0 ? 'No notebooks' : 'Notebook'}
                                 </option>
-                                {notebooks.map((notebook) => (
-                                    <option key={notebook.id} value={notebook.id}>
-                                        {notebook.title || 'Untitled Notebook'}
-                                    </option>
-                                ))}
+                                {collections.length > 0 && (
+                                    <optgroup label="Collections">
+                                        {collections.map((collection) => (
+                                            <option key={collection.path} value={collectionId(collection.path)}>
+                                                {`${'\u00a0\u00a0'.repeat(collection.depth)}${collection.name} (${collection.count})`}
+                                            </option>
+                                        ))}
+                                    </optgroup>
+                                )}
+                                <optgroup label="Notebooks">
+                                    {notebooks.map((notebook) => (
+                                        <option key={notebook.id} value={notebook.id}>
+                                            {notebook.title || 'Untitled Notebook'}
+                                        </option>
+                                    ))}
+                                </optgroup>
                             </select>
 
+                            {onSearchNotebooks && (
+                                <button
+                                    type="button"
+                                    onClick={onSearchNotebooks}
+                                    className="p-1.5 md:p-2 rounded-full hover:bg-muted text-muted-foreground hover:text-foreground transition-all"
+                                    title="Search notebooks"
+                                >
+                                    <SearchIcon className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                                </button>
+                            )}
+
                             <button
                                 type="button"
                                 onClick={onOpenNotebookBuilder}
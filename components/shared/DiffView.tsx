@@ -0,0 +1,40 @@
+import React from 'react';
+import type { DiffRow } from '@/lib/utils/diff';
+
+interface DiffViewProps {
+    rows: DiffRow[];
+    className?: string;
+}
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+    same: { left: '', right: '' },
+    removed: { left: 'bg-red-500/10', right: 'bg-muted/30' },
+    added: { left: 'bg-muted/30', right: 'bg-green-500/10' },
+    changed: { left: 'bg-red-500/10', right: 'bg-green-500/10' }
+};
+
+/**
+ * Side-by-side line diff: older text on the left, newer on the right
+ */
+export function DiffView({ rows, className = '' }: DiffViewProps) {
+    return (
+        <div className={`font-mono text-xs leading-relaxed ${className}`}>
+            {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2">
+                    {(['left', 'right'] as const).map(side => {
+                        const line = row[side];
+                        return (
+                            <div
+                                key={side}
+                                className={`flex gap-3 px-2 ${side === 'left' ? 'border-r border-border/70' : ''} ${ROW_STYLES[row.type][side]}`}
+                            >
+                                <span className="w-8 shrink-0 text-right text-muted-foreground/70 select-none">{line?.number ?? ''}</span>
+                                <span className="whitespace-pre-wrap break-words min-w-0">{line?.text ?? ''}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    findDuplicates,
+    IMPORT_FILE_ACCEPT,
+    importItemKey,
+    importItems,
+    readImportFiles,
+    type DuplicateStrategy,
+    type ImportError,
+    type ImportItem
+} from '@/lib/utils/document-import';
+
+interface ImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+}
+
+const STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+    skip: 'Skip duplicates',
+    replace: 'Replace existing',
+    copy: 'Import as copies'
+};
+
+export function ImportModal(props: ImportModalProps) {
+    // Mounted only while open so every opening starts empty
+    if (!props.isOpen) return null;
+    return <ImportPanel {...props} />;
+}
+
+function ImportPanel({ onClose, onImported }: ImportModalProps) {
+    const [items, setItems] = useState<ImportItem[]>([]);
+    const [errors, setErrors] = useState<ImportError[]>([]);
+    const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+    const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+    const [status, setStatus] = useState<'idle' | 'reading' | 'importing'>('idle');
+    const [result, setResult] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const handleFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setStatus('reading');
+        setResult(null);
+        try {
+            const parsed = await readImportFiles(files);
+            setItems(parsed.items);
+            setErrors(parsed.errors);
+            setDuplicates(await findDuplicates(parsed.items));
+        } catch (error) {
+            setResult(error instanceof Error ? error.message : 'Could not read files.');
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    const handleImport = async () => {
+        setStatus('importing');
+        try {
+            const { imported, skipped } = await importItems(items, duplicates, strategy);
+            setResult(`Imported ${imported} item${imported === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} duplicate${skipped === 1 ? '' : 's'}` : ''}.`);
+            setItems([]);
+            setDuplicates(new Set());
+            onImported();
+        } catch (error) {
+            setResult(error instanceof Error ? error.message : 'Import failed.');
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-2xl max-h-[85vh] bg-card border border-border/70 rounded-xl shadow-2xl flex flex-col animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-3 border-b border-border/70 bg-muted/50 dark:bg-muted/20 rounded-t-xl">
+                    <div>
+                        <h2 className="font-semibold text-base">Import</h2>
+                        <p className="text-[11px] text-muted-foreground">Markdown or text notes, exported JSON bundles and sessions, or transcripts.</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-destructive/10 hover:text-destructive rounded-lg transition-colors"
+                        aria-label="Close"
+                    >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
+                    <div
+                        onClick={() => inputRef.current?.click()}
+                        onDragOver={(event) => {
+                            event.preventDefault();
+                            setIsDragging(true);
+                        }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={(event) => {
+                            event.preventDefault();
+                            setIsDragging(false);
+                            handleFiles(Array.from(event.dataTransfer.files));
+                        }}
+                        className={`rounded-lg border-2 border-dashed p-6 text-center text-sm cursor-pointer transition-colors ${isDragging ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/30'}`}
+                    >
+                        {status === 'reading' ? 'Reading files...' : 'Drop files here or click to choose'}
+                        <div className="mt-1 text-[11px] text-muted-foreground">{IMPORT_FILE_ACCEPT.split(',').join(' ')}</div>
+                        <input
+                            ref={inputRef}
+                            type="file"
+                            multiple
+                            accept={IMPORT_FILE_ACCEPT}
+                            className="hidden"
+                            onChange={(event) => {
+                                handleFiles(Array.from(event.target.files ?? []));
+                                event.target.value = '';
+                            }}
+                        />
+                    </div>
+
+                    {errors.length > 0 && (
+                        <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-2.5 space-y-1 text-xs">
+                            {errors.map((error, index) => (
+                                <div key={index}>
+                                    <span className="font-semibold">{error.fileName}:</span> {error.message}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {items.length > 0 && (
+                        <div className="space-y-1.5">
+                            {items.map((item) => {
+                                const isDuplicate = duplicates.has(importItemKey(item));
+                                return (
+                                    <div key={`${importItemKey(item)}-${item.fileName}`} className="flex items-center gap-2 rounded-lg border border-border/70 bg-card/60 px-3 py-2 text-xs">
+                                        <span className={`text-[9px] uppercase font-bold px-1.5 py-0.5 rounded ${item.kind === 'notebook' ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'}`}>
+                                            {item.kind}
+                                        </span>
+                                        <span className="font-medium truncate">{item.doc.title}</span>
+                                        <span className="text-muted-foreground truncate">
+                                            {item.kind === 'session' ? `${item.doc.history.length} messages` : `${item.doc.content.length.toLocaleString()} chars`}
+                                            {' · '}{item.fileName}
+                                        </span>
+                                        {isDuplicate && (
+                                            <span className="ml-auto shrink-0 text-[9px] uppercase font-bold text-amber-600 dark:text-amber-400 bg-amber-500/10 px-1.5 py-0.5 rounded" title={`Already stored with id ${item.doc.id}`}>
+                                                Duplicate
+                                            </span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {result && <div className="text-xs text-muted-foreground">{result}</div>}
+                </div>
+
+                <div className="flex items-center gap-2 p-3 border-t border-border/70">
+                    {duplicates.size > 0 && (
+                        <select
+                            value={strategy}
+                            onChange={(event) => setStrategy(event.target.value as DuplicateStrategy)}
+                            className="rounded-md border border-border bg-card/60 px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40"
+                        >
+                            {(Object.keys(STRATEGY_LABELS) as DuplicateStrategy[]).map(option => (
+                                <option key={option} value={option}>{STRATEGY_LABELS[option]}</option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        onClick={handleImport}
+                        disabled={items.length === 0 || status !== 'idle'}
+                        className="ml-auto px-3 py-1.5 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        {status === 'importing' ? 'Importing...' : `Import ${items.length || ''}`.trim()}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { chatService } from '@/lib/services/llm';
-import { NotebookDoc, upsertNotebook } from '@/lib/utils/notebook-storage';
+import { describeGenerationModel, NotebookChange, NotebookDoc, upsertNotebook } from '@/lib/utils/notebook-storage';
+import { addUsage, EMPTY_USAGE_TOTALS, formatCost, formatTokens, type UsageTotals } from '@/lib/utils/usage-tracker';
 
 interface NotebookBuilderModalProps {
     isOpen: boolean;
@@ -34,11 +35,25 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
     const [isGenerating, setIsGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [viewMode, setViewMode] = useState<'edit' | 'preview' | 'both'>('both');
+    // Generation cost accumulates onto the notebook being edited
+    const [usage, setUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+    // Latest generation, so saving it unedited is recorded as an AI revision with its prompt
+    const [lastGeneration, setLastGeneration] = useState<{ content: string; change: NotebookChange } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Abort any in-flight generation when the modal closes or unmounts
+    useEffect(() => {
+        if (!isOpen) abortRef.current?.abort();
+    }, [isOpen]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     useEffect(() => {
         if (!isOpen) return;
         setContent(initialNotebook?.content || '');
+        setUsage(initialNotebook?.usage ?? EMPTY_USAGE_TOTALS);
         setPrompt('');
+        setLastGeneration(null);
         setError(null);
         setViewMode('both');
     }, [isOpen, initialNotebook]);
@@ -64,26 +79,48 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
             return;
         }
 
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const previousContent = content;
+
         setIsGenerating(true);
         setError(null);
+        setContent('');
         try {
-            const response = await chatService.generateNotebook({
-                history: [{ role: 'party_a', content: trimmedPrompt }]
-            });
-            const markdown = (response.markdown || '').trim();
-            if (!markdown) {
+            const response = await chatService.streamNotebook(
+                { history: [{ role: 'party_a', content: trimmedPrompt }] },
+                (markdown) => setContent(markdown),
+                controller.signal
+            );
+            const record = response.usage;
+            if (record) setUsage(prev => addUsage(prev, record));
+            if (!response.markdown) {
                 throw new Error('Notebook generation returned empty content.');
             }
-            setContent(markdown);
+            setLastGeneration({
+                content: response.markdown.trim(),
+                change: { origin: 'generated', prompt: trimmedPrompt, model: describeGenerationModel(record) }
+            });
+            if (response.truncated) {
+                setError('Notebook was cut off at the token limit. Try a narrower prompt.');
+            }
         } catch (err) {
+            // Keep whatever streamed so far, or restore the previous draft
+            setContent(current => current || previousContent);
+            if (controller.signal.aborted) return;
             const message = err instanceof Error ? err.message : 'Failed to generate notebook.';
             setError(message);
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsGenerating(false);
         }
     };
 
-    const handleSave = () => {
+    const handleCancelGenerate = () => {
+        abortRef.current?.abort();
+    };
+
+    const handleSave = async () => {
         const trimmedContent = content.trim();
         if (!trimmedContent) {
             setError('Add notebook content before saving.');
@@ -100,11 +137,24 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
             content: trimmedContent,
             createdAt: initialNotebook?.createdAt ?? now,
             updatedAt: now,
-            source: initialNotebook?.source
+            source: initialNotebook?.source,
+            usage: usage.requests > 0 ? usage : undefined,
+            folder: initialNotebook?.folder,
+            tags: initialNotebook?.tags
         };
 
-        upsertNotebook(doc);
-        onSaved?.(doc);
+        const change: NotebookChange = lastGeneration?.content === trimmedContent
+            ? lastGeneration.change
+            : { origin: 'manual' };
+
+        let saved: NotebookDoc;
+        try {
+            saved = await upsertNotebook(doc, change);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save notebook.');
+            return;
+        }
+        onSaved?.(saved);
         onClose();
     };
 
@@ -157,13 +207,21 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
                                     placeholder="Describe the notebook you want to build..."
                                     className="flex-1 rounded-lg border border-border bg-background p-2.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40"
                                 />
-                                <button
-                                    onClick={handleGenerate}
-                                    disabled={isGenerating}
-                                    className="px-4 py-2.5 text-xs font-semibold rounded-lg border border-border bg-background/80 hover:bg-muted transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-                                >
-                                    {isGenerating ? 'Generating...' : 'Generate'}
-                                </button>
+                                {isGenerating ? (
+                                    <button
+                                        onClick={handleCancelGenerate}
+                                        className="px-4 py-2.5 text-xs font-semibold rounded-lg border border-destructive/30 text-destructive bg-destructive/10 hover:bg-destructive/20 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={handleGenerate}
+                                        className="px-4 py-2.5 text-xs font-semibold rounded-lg border border-border bg-background/80 hover:bg-muted transition-colors"
+                                    >
+                                        Generate
+                                    </button>
+                                )}
                             </div>
                         </div>
                         <div className="flex items-center gap-1 rounded-full border border-border bg-background/70 p-1 shrink-0">
@@ -191,6 +249,7 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
                                 <textarea
                                     value={content}
                                     onChange={(event) => setContent(event.target.value)}
+                                    readOnly={isGenerating}
                                     placeholder="# Notebook title \n\n Write or paste your markdown here..."
                                     className="flex-1 min-h-0 w-full rounded-lg border border-border bg-background p-3 text-sm font-mono leading-relaxed focus:outline-none focus:ring-1 focus:ring-primary/40 resize-none"
                                 />
@@ -198,7 +257,10 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
                         )}
                         {(viewMode === 'preview' || viewMode === 'both') && (
                             <div className="flex flex-col gap-2 min-h-0">
-                                <label className="text-sm font-medium">Preview</label>
+                                <label className="text-sm font-medium">
+                                    Preview
+                                    {isGenerating && <span className="ml-2 text-[10px] font-normal text-muted-foreground animate-pulse">Writing...</span>}
+                                </label>
                                 <div className="flex-1 min-h-0 w-full rounded-lg border border-border bg-card/60 p-4 overflow-y-auto custom-scrollbar">
                                     <ReactMarkdown
                                         remarkPlugins={[remarkGfm]}
@@ -228,6 +290,14 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
                 </div>
 
                 <div className="flex items-center justify-end gap-2 p-4 border-t border-border/70 bg-background">
+                    {usage.requests > 0 && (
+                        <span
+                            className="mr-auto text-[11px] text-muted-foreground tabular-nums"
+                            title={`${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} completion tokens`}
+                        >
+                            Generation usage: {formatTokens(usage.totalTokens)} tokens · {formatCost(usage.cost)}
+                        </span>
+                    )}
                     <button
                         onClick={onClose}
                         className="px-4 py-2 text-sm font-medium hover:bg-muted rounded-lg transition-colors"
@@ -236,7 +306,8 @@ export const NotebookBuilderModal: React.FC<NotebookBuilderModalProps> = ({
                     </button>
                     <button
                         onClick={handleSave}
-                        className="px-5 py-2 text-sm font-semibold bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg shadow-sm transition-all active:scale-95"
+                        disabled={isGenerating}
+                        className="px-5 py-2 text-sm font-semibold bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
                     >
                         Save Notebook
                     </button>
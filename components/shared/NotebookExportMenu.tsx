@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { withNotebookRevisions, type NotebookDoc } from '@/lib/utils/notebook-storage';
+import { getSessionById } from '@/lib/utils/session-storage';
+import {
+    buildAnkiExport,
+    buildNotebookBundle,
+    buildNotebookHtml,
+    downloadFile,
+    exportFileName,
+    extractAnkiCards,
+    type AnkiFormat
+} from '@/lib/utils/notebook-export';
+
+interface NotebookExportMenuProps {
+    doc: NotebookDoc;
+    getRenderedHtml: () => string; // Markdown as rendered in the preview
+}
+
+const MENU_ITEM = 'w-full text-left px-2 py-1.5 rounded-md text-xs hover:bg-muted transition-colors';
+
+export function NotebookExportMenu({ doc, getRenderedHtml }: NotebookExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const run = (action: () => void | Promise<void>) => async () => {
+        setIsOpen(false);
+        setNotice(null);
+        try {
+            await action();
+        } catch (error) {
+            console.error('Notebook export failed', error);
+            setNotice(error instanceof Error ? error.message : 'Export failed.');
+        }
+    };
+
+    const exportMarkdown = () => {
+        downloadFile(exportFileName(doc.title, 'md'), doc.content, 'text/markdown;charset=utf-8');
+    };
+
+    const exportHtml = () => {
+        downloadFile(exportFileName(doc.title, 'html'), buildNotebookHtml(doc, getRenderedHtml()), 'text/html;charset=utf-8');
+    };
+
+    const exportBundle = async () => {
+        const sessionId = doc.source?.sessionId;
+        const conversation = sessionId ? await getSessionById(sessionId) : null;
+        if (sessionId && !conversation) {
+            setNotice('The originating conversation was deleted; the bundle has the notebook only.');
+        }
+        const bundle = buildNotebookBundle(await withNotebookRevisions(doc), conversation);
+        downloadFile(exportFileName(doc.title, 'json'), JSON.stringify(bundle, null, 2), 'application/json;charset=utf-8');
+    };
+
+    const exportAnki = (format: AnkiFormat) => () => {
+        const cards = extractAnkiCards(doc.content);
+        if (cards.length === 0) {
+            setNotice('No Q&A cards found. Cards come from "Q:/A:" pairs, "**Term**: definition" bullets and question headings.');
+            return;
+        }
+        const type = format === 'tsv' ? 'text/tab-separated-values;charset=utf-8' : 'text/csv;charset=utf-8';
+        downloadFile(exportFileName(`${doc.title} (Anki)`, format === 'tsv' ? 'txt' : 'csv'), buildAnkiExport(cards, format, doc.title), type);
+        setNotice(`Exported ${cards.length} card${cards.length === 1 ? '' : 's'}. Import in Anki with File > Import.`);
+    };
+
+    return (
+        <div className="relative" ref={containerRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="px-3 py-1.5 text-xs font-medium border border-border rounded-md hover:bg-muted transition-colors"
+            >
+                Export ▾
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-52 bg-popover text-popover-foreground rounded-lg border border-border shadow-md z-50 p-1.5 space-y-0.5">
+                    <button onClick={run(exportMarkdown)} className={MENU_ITEM}>Markdown (.md)</button>
+                    <button onClick={run(exportHtml)} className={MENU_ITEM}>Standalone HTML</button>
+                    <a
+                        href={`/notebook/${doc.id}/print`}
+                        target="_blank"
+                        rel="noreferrer"
+                        onClick={() => setIsOpen(false)}
+                        className={`block ${MENU_ITEM}`}
+                    >
+                        Print / PDF view
+                    </a>
+                    <button onClick={run(exportBundle)} className={MENU_ITEM}>JSON bundle (with conversation)</button>
+                    <div className="h-px bg-border my-1" />
+                    <button onClick={run(exportAnki('tsv'))} className={MENU_ITEM}>Anki deck (TSV)</button>
+                    <button onClick={run(exportAnki('csv'))} className={MENU_ITEM}>Anki deck (CSV)</button>
+                </div>
+            )}
+            {notice && (
+                <div className="absolute right-0 top-full mt-2 w-72 rounded-lg border border-border bg-popover p-2.5 text-[11px] text-muted-foreground shadow-md z-40 flex items-start gap-2">
+                    <span className="flex-1">{notice}</span>
+                    <button onClick={() => setNotice(null)} className="hover:text-foreground" aria-label="Dismiss">✕</button>
+                </div>
+            )}
+        </div>
+    );
+}
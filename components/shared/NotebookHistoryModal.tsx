@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { diffLines, summarizeDiff } from '@/lib/utils/diff';
+import { DiffView } from '@/components/shared/DiffView';
+import type { NotebookRevision, NotebookRevisionOrigin } from '@/lib/utils/notebook-storage';
+
+interface NotebookHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    revisions: NotebookRevision[];
+    currentContent: string;
+    onRestore: (revision: NotebookRevision) => Promise<void>;
+}
+
+const ORIGIN_LABELS: Record<NotebookRevisionOrigin, { label: string; className: string }> = {
+    manual: { label: 'Manual edit', className: 'bg-muted text-muted-foreground' },
+    generated: { label: 'AI generation', className: 'bg-primary/10 text-primary' },
+    restored: { label: 'Restored', className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400' },
+    imported: { label: 'Imported', className: 'bg-sky-500/10 text-sky-600 dark:text-sky-400' }
+};
+
+const formatDate = (value: string) => {
+    try {
+        return new Date(value).toLocaleString();
+    } catch {
+        return value;
+    }
+};
+
+export function NotebookHistoryModal(props: NotebookHistoryModalProps) {
+    // Mounted only while open so the selection resets on every opening
+    if (!props.isOpen) return null;
+    return <NotebookHistory {...props} />;
+}
+
+function NotebookHistory({ onClose, revisions, currentContent, onRestore }: NotebookHistoryModalProps) {
+    const ordered = useMemo(() => [...revisions].reverse(), [revisions]);
+    // Default to the revision before the current one: the most recent change to review
+    const [selectedId, setSelectedId] = useState<string | null>(() => (ordered[1] ?? ordered[0])?.id ?? null);
+    const [compareTo, setCompareTo] = useState<'current' | 'previous'>('current');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const selectedIndex = ordered.findIndex(item => item.id === selectedId);
+    const selected = ordered[selectedIndex] ?? null;
+    const previous = selectedIndex >= 0 ? ordered[selectedIndex + 1] ?? null : null;
+    const isCurrent = selected !== null && selected.content === currentContent;
+
+    // Older text on the left, newer on the right
+    const [leftLabel, rightLabel, before, after] = compareTo === 'current'
+        ? ['Selected revision', 'Current', selected?.content ?? '', currentContent]
+        : ['Previous revision', 'Selected revision', previous?.content ?? '', selected?.content ?? ''];
+    const rows = useMemo(() => diffLines(before, after), [before, after]);
+
+    const restoredSource = (revisionId: string) => {
+        const source = revisions.find(item => item.id === revisionId);
+        return source ? formatDate(source.createdAt) : 'a pruned revision';
+    };
+    const summary = summarizeDiff(rows);
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        setIsRestoring(true);
+        setError(null);
+        try {
+            await onRestore(selected);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to restore revision.');
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+            onClick={onClose}
+        >
+            <div
+                className="w-[96vw] h-[88vh] max-w-none bg-card border border-border/70 rounded-xl shadow-2xl flex flex-col animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-3 border-b border-border/70 bg-muted/50 dark:bg-muted/20 rounded-t-xl">
+                    <div className="flex items-center gap-2">
+                        <h2 className="font-semibold text-base">Version History</h2>
+                        <span className="text-[10px] font-mono bg-muted/60 px-2 py-0.5 rounded text-muted-foreground">
+                            {revisions.length} revisions
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-destructive/10 hover:text-destructive rounded-lg transition-colors"
+                        aria-label="Close"
+                    >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 min-h-0 flex">
+                    {/* Revision list */}
+                    <div className="w-72 shrink-0 border-r border-border/70 overflow-y-auto custom-scrollbar p-2 space-y-1.5 bg-background/60">
+                        {ordered.length === 0 ? (
+                            <div className="p-4 text-xs text-muted-foreground">No revisions recorded yet. Revisions are saved as the notebook changes.</div>
+                        ) : (
+                            ordered.map((revision, index) => {
+                                const origin = ORIGIN_LABELS[revision.origin];
+                                const isSelected = revision.id === selectedId;
+                                return (
+                                    <button
+                                        key={revision.id}
+                                        onClick={() => setSelectedId(revision.id)}
+                                        className={`w-full text-left rounded-lg border p-2.5 transition-colors ${isSelected ? 'border-primary/50 bg-primary/5' : 'border-border/60 hover:bg-muted/40'}`}
+                                    >
+                                        <div className="flex items-center gap-1.5">
+                                            <span className={`text-[9px] uppercase font-bold px-1.5 py-0.5 rounded ${origin.className}`}>{origin.label}</span>
+                                            {index === 0 && (
+                                                <span className="text-[9px] uppercase font-bold text-primary">Current</span>
+                                            )}
+                                        </div>
+                                        <div className="mt-1 text-[11px] text-muted-foreground">{formatDate(revision.createdAt)}</div>
+                                        <div className="mt-0.5 text-xs font-medium truncate">{revision.title}</div>
+                                        {revision.prompt && (
+                                            <div className="mt-1 text-[11px] text-foreground/80 line-clamp-2" title={revision.prompt}>
+                                                “{revision.prompt}”
+                                            </div>
+                                        )}
+                                        {revision.model && (
+                                            <div className="mt-0.5 text-[10px] font-mono text-muted-foreground truncate">{revision.model}</div>
+                                        )}
+                                        {revision.importedFrom && (
+                                            <div className="mt-0.5 text-[10px] text-muted-foreground truncate">from {revision.importedFrom}</div>
+                                        )}
+                                        {revision.restoredFrom && (
+                                            <div className="mt-0.5 text-[10px] text-muted-foreground">
+                                                from {restoredSource(revision.restoredFrom)}
+                                            </div>
+                                        )}
+                                    </button>
+                                );
+                            })
+                        )}
+                    </div>
+
+                    {/* Diff */}
+                    <div className="flex-1 min-w-0 flex flex-col">
+                        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border/70 text-xs">
+                            <div className="flex items-center rounded-md border border-border overflow-hidden">
+                                {(['current', 'previous'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setCompareTo(mode)}
+                                        className={`px-2.5 py-1 transition-colors ${compareTo === mode ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                                    >
+                                        {mode === 'current' ? 'Compare with current' : 'Changes in this revision'}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="text-green-600 dark:text-green-400 font-mono">+{summary.added}</span>
+                            <span className="text-red-600 dark:text-red-400 font-mono">-{summary.removed}</span>
+                            {error && <span className="text-destructive">{error}</span>}
+                            <button
+                                onClick={handleRestore}
+                                disabled={!selected || isCurrent || isRestoring}
+                                className="ml-auto px-3 py-1.5 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                title={isCurrent ? 'This revision matches the current content' : 'Replace the current content with this revision'}
+                            >
+                                {isRestoring ? 'Restoring...' : 'Restore this revision'}
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-2 text-[10px] uppercase tracking-wider font-semibold text-muted-foreground border-b border-border/70">
+                            <div className="px-4 py-1.5 border-r border-border/70">{leftLabel}</div>
+                            <div className="px-4 py-1.5">{rightLabel}</div>
+                        </div>
+
+                        <div className="flex-1 overflow-auto custom-scrollbar">
+                            {!selected ? (
+                                <div className="p-6 text-sm text-muted-foreground">Select a revision to compare.</div>
+                            ) : summary.added === 0 && summary.removed === 0 ? (
+                                <div className="p-6 text-sm text-muted-foreground">No differences.</div>
+                            ) : (
+                                <DiffView rows={rows} />
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
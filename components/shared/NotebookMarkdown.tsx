@@ -0,0 +1,46 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { slugifyHeading } from '@/lib/utils/markdown';
+
+interface NotebookMarkdownProps {
+    content: string;
+}
+
+// Plain text of rendered children, for heading anchors
+const textOf = (node: React.ReactNode): string => {
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    if (Array.isArray(node)) return node.map(textOf).join('');
+    if (React.isValidElement<{ children?: React.ReactNode }>(node)) return textOf(node.props.children);
+    return '';
+};
+
+/**
+ * Notebook Markdown as rendered on the notebook page, print view and HTML export.
+ * Headings get slug ids (see slugifyHeading) so links can point at a section.
+ */
+export function NotebookMarkdown({ content }: NotebookMarkdownProps) {
+    return (
+        <ReactMarkdown
+            remarkPlugins={[remarkGfm]}
+            components={{
+                h1: ({ children }) => <h1 id={slugifyHeading(textOf(children))} className="text-2xl font-semibold mb-3 mt-4 scroll-mt-4">{children}</h1>,
+                h2: ({ children }) => <h2 id={slugifyHeading(textOf(children))} className="text-xl font-semibold mb-2 mt-4 scroll-mt-4">{children}</h2>,
+                h3: ({ children }) => <h3 id={slugifyHeading(textOf(children))} className="text-lg font-semibold mb-2 mt-3 scroll-mt-4">{children}</h3>,
+                p: ({ children }) => <p className="text-sm leading-relaxed text-foreground/90">{children}</p>,
+                ul: ({ children }) => <ul className="list-disc pl-5 space-y-1 text-sm">{children}</ul>,
+                ol: ({ children }) => <ol className="list-decimal pl-5 space-y-1 text-sm">{children}</ol>,
+                li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+                code: ({ children }) => <code className="px-1 py-0.5 rounded bg-muted text-xs">{children}</code>,
+                pre: ({ children }) => (
+                    <pre className="bg-muted p-3 rounded-md overflow-x-auto text-xs leading-relaxed">{children}</pre>
+                ),
+                blockquote: ({ children }) => (
+                    <blockquote className="border-l-2 border-border pl-3 text-sm text-muted-foreground italic">{children}</blockquote>
+                )
+            }}
+        >
+            {content}
+        </ReactMarkdown>
+    );
+}
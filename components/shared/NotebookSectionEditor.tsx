@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { chatService } from '@/lib/services/llm';
+import type { NotebookSectionAction } from '@/lib/ai/prompts';
+import { LANGUAGE_OPTIONS } from '@/lib/constants/languages';
+import { diffLines } from '@/lib/utils/diff';
+import { splitMarkdownSections } from '@/lib/utils/markdown';
+import { describeGenerationModel, type NotebookChange } from '@/lib/utils/notebook-storage';
+import type { UsageRecord } from '@/lib/utils/usage-tracker';
+import { DiffView } from '@/components/shared/DiffView';
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export interface SectionEdit extends TextRange {
+    replacement: string;
+    change: NotebookChange;
+    usage: UsageRecord | null;
+}
+
+interface NotebookSectionEditorProps {
+    content: string;
+    title: string;
+    selection: TextRange | null; // Current editor selection, if any
+    onBusyChange: (busy: boolean) => void; // The editor should stay read-only while a suggestion is open
+    onAccept: (edit: SectionEdit) => Promise<void>;
+}
+
+interface Suggestion extends TextRange {
+    original: string;
+    label: string;
+    markdown: string;
+    status: 'streaming' | 'ready';
+    change?: NotebookChange;
+    usage?: UsageRecord | null;
+}
+
+const ACTION_LABELS: Record<NotebookSectionAction, string> = {
+    expand: 'Expand',
+    simplify: 'Simplify',
+    examples: 'Add examples',
+    translate: 'Translate',
+    factcheck: 'Fact-check'
+};
+
+/**
+ * Toolbar for AI edits of one heading section or the selected text, shown as a suggested change
+ */
+export function NotebookSectionEditor({ content, title, selection, onBusyChange, onAccept }: NotebookSectionEditorProps) {
+    const sections = useMemo(() => splitMarkdownSections(content), [content]);
+    // '' follows the editor selection; 'section:<index>' targets a heading section
+    const [targetKey, setTargetKey] = useState('');
+    const [targetLang, setTargetLang] = useState('es');
+    const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isAccepting, setIsAccepting] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const hasSelection = !!selection && selection.end > selection.start;
+
+    const resolveTarget = (): (TextRange & { label: string }) | null => {
+        if (!targetKey) {
+            return hasSelection ? { ...selection, label: 'selected text' } : null;
+        }
+        const section = sections[Number(targetKey.split(':')[1])];
+        return section ? { start: section.start, end: section.end, label: section.heading } : null;
+    };
+
+    const close = () => {
+        setSuggestion(null);
+        onBusyChange(false);
+    };
+
+    const handleRun = async (action: NotebookSectionAction) => {
+        const target = resolveTarget();
+        if (!target) {
+            setError('Select some text or pick a section first.');
+            return;
+        }
+        const original = content.slice(target.start, target.end);
+        if (!original.trim()) {
+            setError('The selected section is empty.');
+            return;
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setSuggestion({ ...target, original, label: `${ACTION_LABELS[action]}: ${target.label}`, markdown: '', status: 'streaming' });
+        onBusyChange(true);
+
+        try {
+            const result = await chatService.streamNotebookSection(
+                {
+                    action,
+                    section: original.trim(),
+                    title,
+                    outline: sections.map(item => `${'#'.repeat(item.level)} ${item.heading}`).join('\n'),
+                    target_lang: action === 'translate' ? targetLang : undefined
+                },
+                (markdown) => setSuggestion(prev => prev ? { ...prev, markdown } : prev),
+                controller.signal
+            );
+            if (!result.markdown) {
+                throw new Error('The AI returned an empty section.');
+            }
+            if (result.truncated) {
+                setError('The suggestion was cut off at the token limit; review it before accepting.');
+            }
+            const prompt = action === 'translate'
+                ? `${ACTION_LABELS[action]} to ${LANGUAGE_OPTIONS.find(item => item.code === targetLang)?.name ?? targetLang}: ${target.label}`
+                : `${ACTION_LABELS[action]}: ${target.label}`;
+            setSuggestion(prev => prev ? {
+                ...prev,
+                markdown: result.markdown,
+                status: 'ready',
+                change: { origin: 'generated', prompt, model: describeGenerationModel(result.usage) },
+                usage: result.usage
+            } : prev);
+        } catch (err) {
+            close();
+            if (controller.signal.aborted) return;
+            setError(err instanceof Error ? err.message : 'Failed to edit section.');
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+        }
+    };
+
+    const handleAccept = async () => {
+        if (!suggestion?.change) return;
+        // Keep the whitespace around the original so neighbouring sections stay separated
+        const leading = suggestion.original.match(/^\s*/)?.[0] ?? '';
+        const trailing = suggestion.original.match(/\s*$/)?.[0] ?? '';
+        setIsAccepting(true);
+        try {
+            await onAccept({
+                start: suggestion.start,
+                end: suggestion.end,
+                replacement: `${leading}${suggestion.markdown.trim()}${trailing}`,
+                change: suggestion.change,
+                usage: suggestion.usage ?? null
+            });
+            close();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to apply the suggestion.');
+        } finally {
+            setIsAccepting(false);
+        }
+    };
+
+    const rows = useMemo(
+        () => suggestion ? diffLines(suggestion.original.trim(), suggestion.markdown) : [],
+        [suggestion]
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                <select
+                    value={targetKey}
+                    onChange={(event) => setTargetKey(event.target.value)}
+                    disabled={!!suggestion}
+                    className="max-w-[240px] rounded-md border border-border bg-card/60 px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-primary/40"
+                >
+                    <option value="">{hasSelection ? `Selected text (${selection.end - selection.start} chars)` : 'Selected text (none)'}</option>
+                    {sections.map((section, index) => (
+                        <option key={`${section.start}-${index}`} value={`section:${index}`}>
+                            {`${'  '.repeat(section.level - 1)}${section.heading}`}
+                        </option>
+                    ))}
+                </select>
+                {(Object.keys(ACTION_LABELS) as NotebookSectionAction[]).map(action => (
+                    <button
+                        key={action}
+                        onClick={() => handleRun(action)}
+                        disabled={!!suggestion}
+                        className="px-2.5 py-1.5 font-medium border border-border rounded-md hover:bg-muted transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        {ACTION_LABELS[action]}
+                    </button>
+                ))}
+                <select
+                    value={targetLang}
+                    onChange={(event) => setTargetLang(event.target.value)}
+                    disabled={!!suggestion}
+                    className="rounded-md border border-border bg-card/60 px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-primary/40"
+                    title="Language for Translate"
+                >
+                    {LANGUAGE_OPTIONS.map(option => (
+                        <option key={option.code} value={option.code}>{option.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {error && <div className="text-xs text-destructive">{error}</div>}
+
+            {suggestion && (
+                <div className="rounded-lg border border-primary/40 bg-primary/5 overflow-hidden">
+                    <div className="flex items-center gap-2 px-3 py-2 border-b border-primary/20 text-xs">
+                        <span className="font-semibold truncate">Suggested change · {suggestion.label}</span>
+                        {suggestion.status === 'streaming' && (
+                            <span className="text-muted-foreground animate-pulse">Writing...</span>
+                        )}
+                        <div className="flex items-center gap-2 ml-auto shrink-0">
+                            {suggestion.status === 'streaming' ? (
+                                <button
+                                    onClick={() => abortRef.current?.abort()}
+                                    className="px-2.5 py-1 font-medium border border-border rounded-md hover:bg-muted transition-colors"
+                                >
+                                    Stop
+                                </button>
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={close}
+                                        disabled={isAccepting}
+                                        className="px-2.5 py-1 font-medium border border-border rounded-md hover:bg-muted transition-colors disabled:opacity-40"
+                                    >
+                                        Reject
+                                    </button>
+                                    <button
+                                        onClick={handleAccept}
+                                        disabled={isAccepting}
+                                        className="px-2.5 py-1 font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40"
+                                    >
+                                        {isAccepting ? 'Applying...' : 'Accept'}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                    <div className="max-h-[40vh] overflow-auto custom-scrollbar bg-background/60">
+                        <DiffView rows={rows} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
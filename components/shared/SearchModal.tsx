@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    getResultHref,
+    loadSearchIndex,
+    type SearchIndex,
+    type SearchKind,
+    type SearchResult
+} from '@/lib/utils/search-index';
+
+interface SearchModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Restrict results to one kind (the kind filter is hidden)
+    scope?: SearchKind;
+    // Picker mode: notebook results are selected instead of opened in a new tab
+    onSelectNotebook?: (id: string) => void;
+}
+
+type DateRange = 'any' | 'day' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: Record<DateRange, { label: string; days: number }> = {
+    any: { label: 'Any time', days: 0 },
+    day: { label: 'Past day', days: 1 },
+    week: { label: 'Past week', days: 7 },
+    month: { label: 'Past month', days: 31 },
+    year: { label: 'Past year', days: 365 }
+};
+
+const FIELD_LABELS: Record<SearchResult['entry']['field'], string> = {
+    title: 'Title',
+    section: 'Section',
+    message: 'Message',
+    translation: 'Translation'
+};
+
+const SELECT_CLASS = 'rounded-md border border-border bg-card/60 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40';
+
+export function SearchModal(props: SearchModalProps) {
+    // Mounted only while open so the index is rebuilt from the latest documents on every opening
+    if (!props.isOpen) return null;
+    return <SearchPanel {...props} />;
+}
+
+function SearchPanel({ onClose, scope, onSelectNotebook }: SearchModalProps) {
+    const [index, setIndex] = useState<SearchIndex | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [kind, setKind] = useState<SearchKind | ''>(scope ?? '');
+    const [language, setLanguage] = useState('');
+    const [dateRange, setDateRange] = useState<DateRange>('any');
+    const [now] = useState(() => Date.now());
+
+    useEffect(() => {
+        loadSearchIndex()
+            .then(setIndex)
+            .catch((error) => setLoadError(error instanceof Error ? error.message : 'Could not load documents.'));
+    }, []);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const results = useMemo(() => {
+        if (!index) return [];
+        const { days } = DATE_RANGES[dateRange];
+        return index.search(query, {
+            kind: kind || undefined,
+            language: language || undefined,
+            since: days > 0 ? new Date(now - days * 86_400_000).toISOString() : undefined
+        });
+    }, [index, query, kind, language, dateRange, now]);
+
+    const languages = index?.languages ?? [];
+
+    const renderResult = (result: SearchResult) => {
+        const { entry } = result;
+        const location = entry.kind === 'notebook'
+            ? entry.heading ?? (entry.field === 'title' ? null : 'Introduction')
+            : `#${(entry.messageIndex ?? 0) + 1} ${entry.role === 'party_a' ? 'Party A' : 'Party B'}${entry.language ? ` · ${entry.language}` : ''}`;
+        const body = (
+            <>
+                <div className="flex items-center gap-2 text-xs">
+                    <span className={`text-[9px] uppercase font-bold px-1.5 py-0.5 rounded ${entry.kind === 'notebook' ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'}`}>
+                        {entry.kind}
+                    </span>
+                    <span className="font-medium truncate">{entry.docTitle || 'Untitled'}</span>
+                    {location && <span className="text-muted-foreground truncate">› {location}</span>}
+                    <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">
+                        {FIELD_LABELS[entry.field]} · {new Date(entry.date).toLocaleDateString()}
+                    </span>
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground leading-relaxed line-clamp-3">
+                    {result.snippet.map((part, i) => part.match
+                        ? <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                        : <span key={i}>{part.text}</span>
+                    )}
+                </div>
+            </>
+        );
+        const className = 'block w-full text-left rounded-lg border border-border/70 bg-card/60 px-3 py-2 hover:border-primary/40 hover:bg-muted/30 transition-colors';
+        const key = `${entry.kind}-${entry.docId}-${entry.field}-${entry.offset ?? entry.messageIndex}-${entry.language ?? ''}`;
+
+        if (onSelectNotebook && entry.kind === 'notebook') {
+            return (
+                <button
+                    key={key}
+                    onClick={() => {
+                        onSelectNotebook(entry.docId);
+                        onClose();
+                    }}
+                    className={className}
+                >
+                    {body}
+                </button>
+            );
+        }
+        return (
+            <a key={key} href={getResultHref(result)} target="_blank" rel="noreferrer" className={className}>
+                {body}
+            </a>
+        );
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] flex items-start justify-center bg-black/50 backdrop-blur-sm p-4 pt-[10vh] animate-in fade-in duration-200"
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-2xl max-h-[75vh] bg-card border border-border/70 rounded-xl shadow-2xl flex flex-col animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="p-3 border-b border-border/70 bg-muted/50 dark:bg-muted/20 rounded-t-xl space-y-2">
+                    <input
+                        autoFocus
+                        type="search"
+                        value={query}
+                        onChange={(event) => setQuery(event.target.value)}
+                        placeholder={scope === 'notebook' ? 'Search notebooks...' : 'Search notebooks and sessions...'}
+                        className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary/40"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                        {!scope && (
+                            <select value={kind} onChange={(event) => setKind(event.target.value as SearchKind | '')} className={SELECT_CLASS}>
+                                <option value="">Everything</option>
+                                <option value="notebook">Notebooks</option>
+                                <option value="session">Sessions</option>
+                            </select>
+                        )}
+                        {kind !== 'notebook' && languages.length > 0 && (
+                            <select value={language} onChange={(event) => setLanguage(event.target.value)} className={SELECT_CLASS}>
+                                <option value="">Any language</option>
+                                {languages.map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        )}
+                        <select value={dateRange} onChange={(event) => setDateRange(event.target.value as DateRange)} className={SELECT_CLASS}>
+                            {(Object.keys(DATE_RANGES) as DateRange[]).map(option => (
+                                <option key={option} value={option}>{DATE_RANGES[option].label}</option>
+                            ))}
+                        </select>
+                        <span className="ml-auto text-[11px] text-muted-foreground">
+                            {query.trim() && index ? `${results.length} result${results.length === 1 ? '' : 's'}` : ''}
+                        </span>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-3 space-y-1.5 custom-scrollbar">
+                    {loadError ? (
+                        <div className="text-xs text-destructive">{loadError}</div>
+                    ) : !index ? (
+                        <div className="text-xs text-muted-foreground">Indexing...</div>
+                    ) : !query.trim() ? (
+                        <div className="text-xs text-muted-foreground">
+                            {index.size === 0 ? 'Nothing saved yet.' : 'Type to search titles, notebook sections, messages and translations.'}
+                        </div>
+                    ) : results.length === 0 ? (
+                        <div className="text-xs text-muted-foreground">No matches.</div>
+                    ) : (
+                        results.map(renderResult)
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
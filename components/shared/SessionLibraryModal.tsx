@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { SessionDoc, deleteSession, duplicateSession, loadSessions, upsertSession } from '@/lib/utils/session-storage';
+import { isCollectionId } from '@/lib/utils/notebook-collections';
+
+interface SessionLibraryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    activeSessionId: string | null;
+    onResume: (doc: SessionDoc) => void;
+}
+
+const formatDate = (value: string) => {
+    try {
+        return new Date(value).toLocaleString();
+    } catch {
+        return value;
+    }
+};
+
+const loadSortedSessions = async () => (await loadSessions()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export function SessionLibraryModal(props: SessionLibraryModalProps) {
+    // Mounted only while open so every opening reloads from storage
+    if (!props.isOpen) return null;
+    return <SessionLibrary {...props} />;
+}
+
+function SessionLibrary({ onClose, activeSessionId, onResume }: SessionLibraryModalProps) {
+    const [sessions, setSessions] = useState<SessionDoc[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    // Run a storage action, then reload the list; failures show inline (and in the storage banner)
+    const runAndRefresh = async (action?: () => Promise<unknown>) => {
+        try {
+            if (action) await action();
+            setSessions(await loadSortedSessions());
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Storage request failed.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        runAndRefresh();
+    }, []);
+
+    useEffect(() => {
+        const handleEsc = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => window.removeEventListener('keydown', handleEsc);
+    }, [onClose]);
+
+    const startRename = (doc: SessionDoc) => {
+        setRenamingId(doc.id);
+        setRenameValue(doc.title);
+    };
+
+    const commitRename = () => {
+        const doc = sessions.find((item) => item.id === renamingId);
+        const title = renameValue.trim();
+        if (doc && title && title !== doc.title) {
+            runAndRefresh(() => upsertSession({ ...doc, title, updatedAt: new Date().toISOString() }));
+        }
+        setRenamingId(null);
+    };
+
+    const handleDuplicate = (id: string) => {
+        runAndRefresh(() => duplicateSession(id));
+    };
+
+    const handleDelete = (doc: SessionDoc) => {
+        if (!window.confirm(`Delete "${doc.title}"? This cannot be undone.`)) return;
+        runAndRefresh(() => deleteSession(doc.id));
+    };
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const visibleSessions = normalizedQuery
+        ? sessions.filter((doc) =>
+            doc.title.toLowerCase().includes(normalizedQuery)
+            || doc.partyA.context.toLowerCase().includes(normalizedQuery)
+            || doc.partyB.context.toLowerCase().includes(normalizedQuery)
+        )
+        : sessions;
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-3xl max-h-[85vh] bg-card border border-border/70 rounded-xl shadow-2xl flex flex-col animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-3 border-b border-border/70 bg-muted/50 dark:bg-muted/20 rounded-t-xl">
+                    <div className="flex items-center gap-2">
+                        <h2 className="font-semibold text-base">Sessions</h2>
+                        <span className="text-[10px] font-mono bg-muted/60 px-2 py-0.5 rounded text-muted-foreground">
+                            {sessions.length} saved
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-destructive/10 hover:text-destructive rounded-lg transition-colors"
+                        aria-label="Close"
+                    >
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="px-4 py-2 border-b border-border/70 bg-background/80">
+                    <input
+                        value={query}
+                        onChange={(event) => setQuery(event.target.value)}
+                        placeholder="Filter by title or context..."
+                        className="w-full rounded-lg border border-border bg-card/60 px-3 py-2 text-xs focus:outline-none focus:ring-1 focus:ring-primary/40"
+                    />
+                </div>
+
+                {/* List */}
+                <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar bg-background/80 dark:bg-background/40">
+                    {error && (
+                        <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-2 text-xs text-destructive">{error}</div>
+                    )}
+                    {isLoading ? (
+                        <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">Loading sessions...</div>
+                    ) : visibleSessions.length === 0 ? (
+                        <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">
+                            {sessions.length === 0 ? 'No saved sessions yet. Conversations are saved automatically.' : 'No sessions match this filter.'}
+                        </div>
+                    ) : (
+                        visibleSessions.map((doc) => {
+                            const isActive = doc.id === activeSessionId;
+                            return (
+                                <div
+                                    key={doc.id}
+                                    className={`rounded-lg border p-3 transition-colors ${isActive ? 'border-primary/40 bg-primary/5' : 'border-border/70 bg-card/60 hover:bg-muted/30'}`}
+                                >
+                                    <div className="flex items-start gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            {renamingId === doc.id ? (
+                                                <input
+                                                    autoFocus
+                                                    value={renameValue}
+                                                    onChange={(event) => setRenameValue(event.target.value)}
+                                                    onBlur={commitRename}
+                                                    onKeyDown={(event) => {
+                                                        if (event.key === 'Enter') commitRename();
+                                                        if (event.key === 'Escape') {
+                                                            event.stopPropagation();
+                                                            setRenamingId(null);
+                                                        }
+                                                    }}
+                                                    className="w-full text-sm font-semibold bg-transparent border-b border-primary focus:outline-none"
+                                                />
+                                            ) : (
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-sm font-semibold truncate">{doc.title}</span>
+                                                    {isActive && (
+                                                        <span className="text-[9px] uppercase font-bold text-primary bg-primary/10 px-1.5 py-0.5 rounded">Current</span>
+                                                    )}
+                                                </div>
+                                            )}
+                                            <div className="mt-1 text-[11px] text-muted-foreground flex flex-wrap gap-x-2">
+                                                <span>{doc.history.length} messages</span>
+                                                <span>•</span>
+                                                <span>Updated {formatDate(doc.updatedAt)}</span>
+                                                {doc.notebookId && (
+                                                    <>
+                                                        <span>•</span>
+                                                        <span>{isCollectionId(doc.notebookId) ? 'Collection' : 'Notebook'}</span>
+                                                    </>
+                                                )}
+                                            </div>
+                                            {(doc.partyA.context || doc.partyB.context) && (
+                                                <div className="mt-1 text-[11px] text-muted-foreground/80 truncate">
+                                                    {[doc.partyA.context, doc.partyB.context].filter(Boolean).join(' ↔ ')}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <button
+                                                onClick={() => {
+                                                    onResume(doc);
+                                                    onClose();
+                                                }}
+                                                disabled={isActive}
+                                                className="px-2.5 py-1 text-[11px] font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                            >
+                                                Resume
+                                            </button>
+                                            <a
+                                                href={`/session/${doc.id}`}
+                                                target="_blank"
+                                                rel="noreferrer"
+                                                className="px-2 py-1 text-[11px] font-medium rounded-md border border-border hover:bg-muted transition-colors"
+                                            >
+                                                Open
+                                            </a>
+                                            <button
+                                                onClick={() => startRename(doc)}
+                                                className="px-2 py-1 text-[11px] font-medium rounded-md border border-border hover:bg-muted transition-colors"
+                                            >
+                                                Rename
+                                            </button>
+                                            <button
+                                                onClick={() => handleDuplicate(doc.id)}
+                                                className="px-2 py-1 text-[11px] font-medium rounded-md border border-border hover:bg-muted transition-colors"
+                                            >
+                                                Duplicate
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(doc)}
+                                                disabled={isActive}
+                                                className="px-2 py-1 text-[11px] font-medium rounded-md border border-border text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                                title={isActive ? 'Start a new conversation before deleting the current session' : 'Delete session'}
+                                            >
+                                                Delete
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { storageStatus, type StorageIssue } from '@/lib/utils/document-store';
+
+const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${Math.round(bytes / 1024)} KB`;
+};
+
+/**
+ * Floating notice for failed notebook/session reads and writes (quota, blocked database, ...)
+ */
+export function StorageErrorBanner() {
+    const [issue, setIssue] = useState<StorageIssue | null>(() => storageStatus.getIssue());
+
+    useEffect(() => storageStatus.subscribe(setIssue), []);
+
+    if (!issue) return null;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[200] w-[min(92vw,560px)] rounded-lg border border-destructive/40 bg-background shadow-xl p-3 flex items-start gap-3 animate-in slide-in-from-bottom-2 duration-200">
+            <svg className="w-4 h-4 mt-0.5 text-destructive shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <div className="flex-1 min-w-0 text-xs space-y-1">
+                <div className="font-semibold text-destructive">
+                    {issue.kind === 'quota' ? 'Storage full' : 'Storage error'}
+                </div>
+                <p className="text-foreground/90">{issue.message}</p>
+                {issue.usage !== undefined && issue.quota !== undefined && (
+                    <p className="text-muted-foreground">
+                        Using {formatBytes(issue.usage)} of {formatBytes(issue.quota)} available to this site.
+                    </p>
+                )}
+            </div>
+            <button
+                onClick={() => storageStatus.clear()}
+                className="px-2 py-1 text-[11px] font-medium rounded-md border border-border hover:bg-muted transition-colors shrink-0"
+            >
+                Dismiss
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { LLMFeature } from '@/lib/config/llm-config';
+import { formatCost, formatTokens, type UsageTotals } from '@/lib/utils/usage-tracker';
+
+const FEATURE_LABELS: Record<LLMFeature, string> = {
+    respond: 'Responses',
+    autoplay: 'Auto-Play',
+    suggestions: 'Suggestions',
+    predictions: 'Predictions',
+    translation: 'Translations',
+    context: 'Context',
+    notebook: 'Notebooks',
+    scenario: 'Scenarios'
+};
+
+interface UsageMeterProps {
+    totals: UsageTotals;
+    label?: string;
+    onReset?: () => void;
+}
+
+export const UsageMeter: React.FC<UsageMeterProps> = ({ totals, label = 'Conversation', onReset }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const features = (Object.keys(totals.byFeature) as LLMFeature[])
+        .sort((a, b) => (totals.byFeature[b]?.totalTokens || 0) - (totals.byFeature[a]?.totalTokens || 0));
+
+    return (
+        <div className="relative" ref={containerRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-border bg-muted/40 hover:bg-muted transition-all text-xs font-medium"
+                title={`${label} usage`}
+            >
+                <span className="font-semibold tabular-nums">{formatCost(totals.cost)}</span>
+                <span className="opacity-50 tabular-nums hidden sm:inline">{formatTokens(totals.totalTokens)} tok</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-64 z-50 rounded-xl border border-border bg-card shadow-xl p-3 text-xs">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="font-semibold uppercase tracking-wider text-muted-foreground text-[10px]">{label} usage</span>
+                        {onReset && (
+                            <button
+                                onClick={onReset}
+                                className="text-[10px] text-muted-foreground hover:text-foreground transition-colors"
+                            >
+                                Reset
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-x-3 gap-y-1 pb-2 border-b border-border/70">
+                        <span className="text-muted-foreground">Prompt</span>
+                        <span className="text-right tabular-nums">{totals.promptTokens.toLocaleString()}</span>
+                        <span className="text-muted-foreground">Completion</span>
+                        <span className="text-right tabular-nums">{totals.completionTokens.toLocaleString()}</span>
+                        <span className="text-muted-foreground">Requests</span>
+                        <span className="text-right tabular-nums">{totals.requests}</span>
+                        <span className="text-muted-foreground">Est. cost</span>
+                        <span className="text-right tabular-nums font-semibold">{formatCost(totals.cost)}</span>
+                    </div>
+
+                    {features.length > 0 ? (
+                        <div className="pt-2 space-y-1">
+                            {features.map(feature => {
+                                const usage = totals.byFeature[feature]!;
+                                return (
+                                    <div key={feature} className="flex items-center justify-between gap-2">
+                                        <span className="text-muted-foreground">{FEATURE_LABELS[feature]} <span className="opacity-60">×{usage.requests}</span></span>
+                                        <span className="tabular-nums">{formatTokens(usage.totalTokens)} · {formatCost(usage.cost)}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <p className="pt-2 text-muted-foreground">No AI calls yet.</p>
+                    )}
+
+                    {totals.unpricedRequests > 0 && (
+                        <p className="pt-2 text-[10px] text-amber-600">
+                            {totals.unpricedRequests} request{totals.unpricedRequests === 1 ? '' : 's'} used a model without pricing and {totals.unpricedRequests === 1 ? 'is' : 'are'} not included in the cost.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -5,9 +5,11 @@ import { useTheme } from '@/components/theme-provider';
 export interface UserMenuProps {
     onOpenSettings: () => void;
     onOpenKnowledgeStore: () => void;
+    onOpenSessions: () => void;
+    onOpenImport: () => void;
 }
 
-export const UserMenu: React.FC<UserMenuProps> = ({ onOpenSettings, onOpenKnowledgeStore }) => {
+export const UserMenu: React.FC<UserMenuProps> = ({ onOpenSettings, onOpenKnowledgeStore, onOpenSessions, onOpenImport }) => {
     const [isOpen, setIsOpen] = useState(false);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -59,6 +61,26 @@ export const UserMenu: React.FC<UserMenuProps> = ({ onOpenSettings, onOpenKnowle
                                 Knowledge Store
                             </button>
 
+                            <button
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    onOpenSessions();
+                                }}
+                                className="w-full text-left px-2 py-1.5 rounded-md text-sm hover:bg-muted transition-colors"
+                            >
+                                Sessions
+                            </button>
+
+                            <button
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    onOpenImport();
+                                }}
+                                className="w-full text-left px-2 py-1.5 rounded-md text-sm hover:bg-muted transition-colors"
+                            >
+                                Import...
+                            </button>
+
                             <div className="h-px bg-border my-1" />
 
                             <button
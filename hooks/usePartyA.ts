@@ -68,6 +68,8 @@ export function usePartyA(
     const isTranslationsCollapsedRef = useRef(isTranslationsCollapsed);
     const isSimulationControlledRef = useRef(isSimulationControlled);
     const debounceTimer = useRef<NodeJS.Timeout | null>(null);
+    // In-flight predictions/translations for the current input; typing aborts them
+    const aiAbortRef = useRef<AbortController | null>(null);
     const submissionTimer = useRef<NodeJS.Timeout | null>(null);
 
     // Sync Refs
@@ -171,6 +173,10 @@ export function usePartyA(
 
     // Unified AI Update Function (Predictions + Translations)
     const updateAI = useCallback(async (text: string, currentLangs: string[]) => {
+        aiAbortRef.current?.abort();
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
+
         if (!text || text.trim().length === 0) {
             setPredictions([]);
             setTranslations({});
@@ -191,7 +197,7 @@ export function usePartyA(
             // 1. Predictions (Only if NOT collapsed)
             if (!isPhrasesCollapsedRef.current) {
                 promises.push(
-                    getPhrasePredictions(text, sourceLang, sourceLang, 8)
+                    getPhrasePredictions(text, sourceLang, sourceLang, 8, controller.signal)
                         .catch(e => { console.error('Prediction error:', e); return []; })
                 );
             } else {
@@ -201,7 +207,7 @@ export function usePartyA(
             // 2. Translations (Only if NOT collapsed AND has targets)
             if (!isTranslationsCollapsedRef.current && targetLangs.length > 0) {
                 promises.push(
-                    translationService.translateMultiple(text, sourceLang, targetLangs)
+                    translationService.translateMultiple(text, sourceLang, targetLangs, controller.signal)
                         .catch(e => { console.error('Translation error:', e); return {}; })
                 );
             } else {
@@ -211,6 +217,9 @@ export function usePartyA(
             // Execute parallel
             const [preds, trans] = await Promise.all(promises);
 
+            // Superseded by newer input: discard
+            if (controller.signal.aborted) return;
+
             setPredictions(preds);
             // Only update translations if we actually fetched something or if we want to clear them.
             // If collapsed, 'trans' is {}, so we don't necessarily want to wipe existing translations if we just collapsed?
@@ -252,8 +261,11 @@ export function usePartyA(
         } catch (error) {
             console.error('AI Update Failed:', error);
         } finally {
-            setIsLoadingPredictions(false);
-            setIsTranslating(false);
+            if (aiAbortRef.current === controller) {
+                aiAbortRef.current = null;
+                setIsLoadingPredictions(false);
+                setIsTranslating(false);
+            }
         }
     }, []);
 
@@ -343,6 +355,9 @@ export function usePartyA(
     const handleInput = useCallback((text: string) => {
         setInput(text);
 
+        // Typing over stale predictions: cancel them now rather than after the debounce
+        aiAbortRef.current?.abort();
+
         // Debounce unified update
         if (debounceTimer.current) clearTimeout(debounceTimer.current);
 
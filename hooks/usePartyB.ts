@@ -1,9 +1,14 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { PhrasePrediction, chatService, getConversationSuggestions } from '@/lib/services/llm';
-import type { NotebookContext } from '@/lib/services/llm';
+import type { LLMResponseOptions, NotebookContext } from '@/lib/services/llm';
 import { translationService } from '@/lib/services';
 import { sequentialAudioPlayer } from '@/lib/utils/audio-player';
 import { playbackController, PlaybackMode, PlaybackItem } from '@/lib/utils/playback-controller';
+import { readStreamEvents } from '@/lib/ai/stream-protocol';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import { extractCitationMarkers, selectCitations, type NotebookCitation } from '@/lib/ai/retrieval';
+import { usageTracker } from '@/lib/utils/usage-tracker';
+import type { ResponseVariant, ResponseVariantSpec } from '@/lib/utils/response-variants';
 
 export type { PlaybackMode };
 
@@ -27,6 +32,19 @@ export function usePartyB(
     const [predictions, setPredictions] = useState<PhrasePrediction[]>([]);
     const [videoActive, setVideoActive] = useState(false);
     const [isGenerating, setIsGenerating] = useState(false);
+    // Stream metadata: whether the model hit its token limit, and reported usage
+    const [isTruncated, setIsTruncated] = useState(false);
+    const [usage, setUsage] = useState<TokenUsage | null>(null);
+    // Provider/model that answered (differs from the selection after a fallback)
+    const [servedBy, setServedBy] = useState<ServedBy | null>(null);
+    // Notebook excerpts the current response was grounded on
+    const [citations, setCitations] = useState<NotebookCitation[]>([]);
+    // Identifies the generation the response belongs to; bumped whenever one starts
+    const [responseId, setResponseId] = useState(0);
+    const responseIdRef = useRef(0);
+    // Alternative replies being compared; the first is the current response
+    const [variants, setVariants] = useState<ResponseVariant[]>([]);
+    const [activeVariant, setActiveVariant] = useState(0);
 
     // Translation State
     const [translations, setTranslations] = useState<Record<string, string>>({});
@@ -60,6 +78,10 @@ export function usePartyB(
     const isSimulationControlledRef = useRef(isSimulationControlled);
     const lastTranslationKeyRef = useRef<string>('');
     const translationRequestIdRef = useRef(0);
+    // In-flight requests; starting a new one aborts the previous so stale results never land
+    const responseAbortRef = useRef<AbortController | null>(null);
+    const translationAbortRef = useRef<AbortController | null>(null);
+    const variantsAbortRef = useRef<AbortController | null>(null);
 
     useEffect(() => { isTranslationsCollapsedRef.current = isTranslationsCollapsed; }, [isTranslationsCollapsed]);
     useEffect(() => { playbackModeRef.current = playbackMode; }, [playbackMode]);
@@ -75,15 +97,18 @@ export function usePartyB(
 
         const requestId = ++translationRequestIdRef.current;
         lastTranslationKeyRef.current = translationKey;
+        translationAbortRef.current?.abort();
+        const controller = new AbortController();
+        translationAbortRef.current = controller;
 
         setIsOutputTranslating(true);
         try {
             const src = langs[0];
             const targets = langs.slice(1);
-            const results = await translationService.translateMultiple(text, src, targets);
+            const results = await translationService.translateMultiple(text, src, targets, controller.signal);
 
-            // Ignore stale requests
-            if (translationRequestIdRef.current !== requestId) return;
+            // Ignore stale or cancelled requests
+            if (controller.signal.aborted || translationRequestIdRef.current !== requestId) return;
             setTranslations(results);
         } catch (e) {
             console.error("Output translation failed", e);
@@ -159,9 +184,21 @@ export function usePartyB(
         userInput: string,
         history: { role: string, content: string }[] = [],
         partyAContext: string = "",
-        notebook?: NotebookContext
+        notebooks?: NotebookContext[]
     ) => {
+        // Supersede any response still streaming, and any comparison of the previous one
+        responseAbortRef.current?.abort();
+        const controller = new AbortController();
+        responseAbortRef.current = controller;
+        setResponseId(++responseIdRef.current);
+        variantsAbortRef.current?.abort();
+        variantsAbortRef.current = null;
+        setVariants([]);
+        setActiveVariant(0);
+
         if (!userInput.trim()) {
+            responseAbortRef.current = null;
+            setIsGenerating(false);
             setResponse('');
             setPredictions([]);
             setTranslations({});
@@ -173,12 +210,21 @@ export function usePartyB(
         setResponse(''); // Clear previous
         setTranslations({}); // Clear previous translations
         setResponseError(null);
+        setIsTruncated(false);
+        setUsage(null);
+        setServedBy(null);
+        setCitations([]);
         lastTranslationKeyRef.current = '';
         translationRequestIdRef.current++;
+        translationAbortRef.current?.abort();
         lastUserInputRef.current = userInput;
 
         let fullResponse = '';
+        // Response without citation markers, as shown, spoken and translated
+        let shownResponse = '';
+        let groundedOn: NotebookCitation[] = [];
         let didError = false;
+        let answeredBy: ServedBy | null = null;
 
         try {
             const res = await chatService.generateResponse({
@@ -190,56 +236,215 @@ export function usePartyB(
                 return_lang: languages[0],
                 stream: true,
                 history: history,
-                notebook
-            });
-
-            if (!res.ok) {
-                didError = true;
-                let errorMessage = `Request failed (${res.status} ${res.statusText})`;
-                try {
-                    const raw = await res.text();
-                    if (raw) {
-                        try {
-                            const data = JSON.parse(raw);
-                            errorMessage = data.error || data.message || errorMessage;
-                        } catch {
-                            errorMessage = raw;
-                        }
+                notebooks
+            }, controller.signal);
+
+            let finished = false;
+            for await (const event of readStreamEvents(res.body)) {
+                if (controller.signal.aborted) return;
+                if (event.type === 'model') {
+                    answeredBy = event.servedBy;
+                    setServedBy(answeredBy);
+                    usageTracker.served(answeredBy);
+                } else if (event.type === 'citations') {
+                    groundedOn = event.citations;
+                } else if (event.type === 'delta') {
+                    fullResponse += event.text;
+                    shownResponse = groundedOn.length > 0
+                        ? extractCitationMarkers(fullResponse, groundedOn.map(citation => citation.label), true).text
+                        : fullResponse;
+                    setResponse(shownResponse);
+                } else if (event.type === 'usage') {
+                    setUsage(event.usage);
+                    usageTracker.record('respond', event.usage, answeredBy);
+                } else if (event.type === 'done') {
+                    finished = true;
+                    setIsTruncated(event.truncated);
+                    if (groundedOn.length > 0) {
+                        const { text, cited } = extractCitationMarkers(fullResponse, groundedOn.map(citation => citation.label));
+                        shownResponse = text;
+                        setResponse(text);
+                        setCitations(selectCitations(groundedOn, cited));
                     }
-                } catch { }
-                setResponseError(errorMessage);
-                setResponse('');
-                return;
+                } else if (event.type === 'error') {
+                    // Keep the partial text visible alongside the error
+                    didError = true;
+                    setResponseError(event.error);
+                    return;
+                }
             }
 
-            const reader = res.body?.getReader();
-            const decoder = new TextDecoder();
-
-            if (reader) {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    const chunk = decoder.decode(value, { stream: true });
-                    fullResponse += chunk;
-                    setResponse(fullResponse);
-                }
+            if (controller.signal.aborted) return;
+            if (!finished) {
+                didError = true;
+                setResponseError('Response stream ended unexpectedly');
             }
         } catch (err) {
+            // Cancelled or superseded: the newer request owns the state
+            if (controller.signal.aborted) return;
             console.error(err);
             didError = true;
             const message = err instanceof Error ? err.message : 'Failed to generate response';
             setResponseError(message);
             setResponse('');
         } finally {
-            setIsGenerating(false);
+            if (responseAbortRef.current === controller) {
+                responseAbortRef.current = null;
+                setIsGenerating(false);
 
-            // Trigger translation immediately after response is complete ONLY if enabled
-            if (!didError && fullResponse) {
-                translateOutput(fullResponse, languages);
+                // Trigger translation immediately after response is complete ONLY if enabled
+                if (!didError && shownResponse) {
+                    translateOutput(shownResponse, languages);
+                }
             }
         }
     }, [context, sourceLang, languages, translateOutput]);
 
+    // Abort the in-flight response (and its translation), keeping whatever text has streamed so far
+    const cancelResponse = useCallback(() => {
+        responseAbortRef.current?.abort();
+        responseAbortRef.current = null;
+        translationAbortRef.current?.abort();
+        translationRequestIdRef.current++;
+        lastTranslationKeyRef.current = '';
+        setIsGenerating(false);
+        setIsOutputTranslating(false);
+    }, []);
+
+    // ============================================================================
+    // Response Variants
+    // ============================================================================
+    const updateVariant = useCallback((id: string, patch: Partial<ResponseVariant>) => {
+        setVariants(prev => prev.map(variant => variant.id === id ? { ...variant, ...patch } : variant));
+    }, []);
+
+    // Stream one alternative reply into its variant
+    const streamVariant = useCallback(async (variant: ResponseVariant, options: LLMResponseOptions, signal: AbortSignal) => {
+        let fullResponse = '';
+        let groundedOn: NotebookCitation[] = [];
+        let answeredBy: ServedBy | null = null;
+        try {
+            const res = await chatService.generateResponse({ ...options, temperature: variant.temperature }, signal, variant.target);
+            let finished = false;
+            for await (const event of readStreamEvents(res.body)) {
+                if (signal.aborted) return;
+                if (event.type === 'model') {
+                    answeredBy = event.servedBy;
+                    updateVariant(variant.id, { servedBy: answeredBy });
+                } else if (event.type === 'citations') {
+                    groundedOn = event.citations;
+                } else if (event.type === 'delta') {
+                    fullResponse += event.text;
+                    updateVariant(variant.id, {
+                        response: groundedOn.length > 0
+                            ? extractCitationMarkers(fullResponse, groundedOn.map(citation => citation.label), true).text
+                            : fullResponse
+                    });
+                } else if (event.type === 'usage') {
+                    updateVariant(variant.id, { usage: event.usage });
+                    usageTracker.record('respond', event.usage, answeredBy);
+                } else if (event.type === 'done') {
+                    finished = true;
+                    const { text, cited } = extractCitationMarkers(fullResponse, groundedOn.map(citation => citation.label));
+                    updateVariant(variant.id, {
+                        response: groundedOn.length > 0 ? text : fullResponse,
+                        citations: selectCitations(groundedOn, cited),
+                        isTruncated: event.truncated
+                    });
+                } else if (event.type === 'error') {
+                    updateVariant(variant.id, { error: event.error });
+                    return;
+                }
+            }
+            if (!finished && !signal.aborted) updateVariant(variant.id, { error: 'Response stream ended unexpectedly' });
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error(err);
+            updateVariant(variant.id, { error: err instanceof Error ? err.message : 'Failed to generate response' });
+        } finally {
+            if (!signal.aborted) updateVariant(variant.id, { isGenerating: false });
+        }
+    }, [updateVariant]);
+
+    /**
+     * Ask for alternatives to the current reply to `userInput`, one per spec, streamed side by side.
+     * The current reply stays first; nothing enters the history until one is chosen.
+     */
+    const generateVariants = useCallback(async (
+        userInput: string,
+        history: { role: string, content: string }[],
+        partyAContext: string,
+        notebooks: NotebookContext[] | undefined,
+        specs: ResponseVariantSpec[]
+    ) => {
+        if (!userInput.trim() || !response || specs.length === 0) return;
+
+        variantsAbortRef.current?.abort();
+        const controller = new AbortController();
+        variantsAbortRef.current = controller;
+
+        const alternatives: ResponseVariant[] = specs.map((spec, index) => ({
+            ...spec,
+            id: `variant-${index + 1}`,
+            response: '',
+            citations: [],
+            isGenerating: true,
+            error: null,
+            isTruncated: false,
+            usage: null,
+            servedBy: null
+        }));
+        setVariants([
+            { id: 'current', label: 'Current reply', response, citations, isGenerating: false, error: null, isTruncated, usage, servedBy },
+            ...alternatives
+        ]);
+        setActiveVariant(0);
+
+        const options: LLMResponseOptions = {
+            message: userInput,
+            context: context,
+            party_a_context: partyAContext,
+            party_b_context: context,
+            source_lang: sourceLang,
+            return_lang: languages[0],
+            stream: true,
+            history,
+            notebooks
+        };
+        await Promise.all(alternatives.map(variant => streamVariant(variant, options, controller.signal)));
+        if (variantsAbortRef.current === controller) variantsAbortRef.current = null;
+    }, [response, citations, isTruncated, usage, servedBy, context, sourceLang, languages, streamVariant]);
+
+    // Stop comparing and keep the current reply
+    const discardVariants = useCallback(() => {
+        variantsAbortRef.current?.abort();
+        variantsAbortRef.current = null;
+        setVariants([]);
+        setActiveVariant(0);
+    }, []);
+
+    /**
+     * Make a finished variant the response (and fetch its translations).
+     * Returns it when it replaces the current reply, null otherwise.
+     */
+    const chooseVariant = useCallback((index: number): ResponseVariant | null => {
+        const chosen = variants[index];
+        if (!chosen || chosen.isGenerating || !chosen.response) return null;
+        discardVariants();
+        if (index === 0) return null;
+
+        setResponse(chosen.response);
+        setCitations(chosen.citations);
+        setIsTruncated(chosen.isTruncated);
+        setUsage(chosen.usage);
+        setServedBy(chosen.servedBy);
+        setResponseError(null);
+        setTranslations({});
+        lastTranslationKeyRef.current = '';
+        translateOutput(chosen.response, languages);
+        return chosen;
+    }, [variants, discardVariants, translateOutput, languages]);
+
     // Effect to handle translation when toggling OPEN
     useEffect(() => {
         // If we open text, have response, needed languages -> fetch once per response/lang combo
@@ -252,6 +457,9 @@ export function usePartyB(
     useEffect(() => {
         return () => {
             playbackController.stop();
+            responseAbortRef.current?.abort();
+            translationAbortRef.current?.abort();
+            variantsAbortRef.current?.abort();
         };
     }, []);
 
@@ -364,6 +572,7 @@ export function usePartyB(
     // Suggestions
     // ============================================================================
     useEffect(() => {
+        const controller = new AbortController();
         const fetchSuggestions = async () => {
             // Skip suggestions if collapsed
             if (isSparksCollapsed) {
@@ -403,8 +612,10 @@ export function usePartyB(
                 const suggs = await getConversationSuggestions(
                     [{ user: lastUserInputRef.current, ai: response }],
                     sourceLang, // Source language (User's lang)
-                    [sourceLang] // TARGET language for suggestions (Should be User's lang)
+                    [sourceLang], // TARGET language for suggestions (Should be User's lang)
+                    controller.signal
                 );
+                if (controller.signal.aborted) return;
                 setConversationSuggestions(suggs.map((s: string) => ({ phrase: s })));
             } catch (e) {
                 console.error(e);
@@ -414,7 +625,10 @@ export function usePartyB(
         };
 
         const timeout = setTimeout(fetchSuggestions, 1000);
-        return () => clearTimeout(timeout);
+        return () => {
+            clearTimeout(timeout);
+            controller.abort();
+        };
     }, [response, isGenerating, sourceLang, languages, isSparksCollapsed, conversationSuggestions.length]);
 
     // ============================================================================
@@ -472,12 +686,17 @@ export function usePartyB(
 
 
     const reset = () => {
+        cancelResponse();
+        discardVariants();
         setResponse('');
         setPredictions([]);
         setContext('');
         setTranslations({});
         setConversationSuggestions([]);
         setResponseError(null);
+        setIsTruncated(false);
+        setUsage(null);
+        setServedBy(null);
     };
 
     // ============================================================================
@@ -502,7 +721,14 @@ export function usePartyB(
             context,
             languages,
             response,
+            responseId,
             error: responseError,
+            isTruncated,
+            usage,
+            servedBy,
+            citations,
+            variants,
+            activeVariant,
             predictions,
             videoActive,
             isGenerating,
@@ -524,6 +750,11 @@ export function usePartyB(
             setLanguages: setLanguagesWithPersistence,
             setAudioEnabledLanguages,
             generateResponse,
+            cancelResponse,
+            generateVariants,
+            showVariant: setActiveVariant,
+            chooseVariant,
+            discardVariants,
             toggleVideo,
             reset,
             playAudio,
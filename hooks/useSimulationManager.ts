@@ -1,4 +1,5 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { runSimulation, type SimulationEvaluation, type SimulationSteps, type SimulationStopReason } from '@/lib/services/simulation';
 
 export type SimulationPhase =
     | 'idle'
@@ -9,11 +10,12 @@ export type SimulationPhase =
     | 'playing_party_a_translations'
     | 'waiting_party_b'
     | 'playing_party_b'
-    | 'playing_party_b_translations';
+    | 'playing_party_b_translations'
+    | 'evaluating_goal';
 
 export interface SimulationDelegate {
     // Core Actions
-    predictNextMessage: (history: any[], summary: string) => Promise<string | null>;
+    predictNextMessage: (history: any[], summary: string, signal: AbortSignal, steer?: string) => Promise<string | null>; // signal aborts when the simulation stops; steer is the evaluator's direction
     typeMessage: (text: string) => Promise<boolean>; // Returns true if completed, false if cancelled
     submitMessage: () => Promise<{ text: string, translations: Record<string, string> } | void>;
     getPartyBResponse: () => string; // To capture state before submission
@@ -27,20 +29,25 @@ export interface SimulationDelegate {
     highlightText: (text: string, role: 'party_a' | 'party_b', wpm: number) => Promise<void>;
     waitWithCountdown: (role: 'party_a' | 'party_b', ms: number) => Promise<void>;
 
+    // Goal check after each cycle; null when no verdict is available
+    evaluateProgress?: (goal: string, signal: AbortSignal) => Promise<SimulationEvaluation | null>;
+
     // Utils
     addToHistory: (role: 'party_a' | 'party_b', content: string, translations?: Record<string, string>) => void;
     warmupAudio?: () => void;
+    cancelPendingRequests?: () => void; // Abort in-flight AI calls owned by the parties (e.g. Party B's response)
 }
 
 export interface UseSimulationManagerProps {
     delegate: SimulationDelegate;
     maxCycles?: number;
+    goal?: string; // Objective; when set (and the delegate can evaluate), autoplay stops once it is reached
     playbackMode: 'audio' | 'highlight' | 'manual';
     delayMultiplier: number;
     readingSpeed: number; // needed for calc
 }
 
-export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, delayMultiplier, readingSpeed }: UseSimulationManagerProps) {
+export function useSimulationManager({ delegate, maxCycles = 5, goal, playbackMode, delayMultiplier, readingSpeed }: UseSimulationManagerProps) {
     const [state, setState] = useState({
         isRunning: false,
         isPaused: false,
@@ -48,6 +55,8 @@ export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, de
         cycleCount: 0,
         currentTypingText: '', // For UI display
         highlightTarget: null as 'party_a' | 'party_b' | null,
+        evaluation: null as SimulationEvaluation | null, // Latest goal check of this run
+        stopReason: null as SimulationStopReason | null, // Why the last run ended
     });
 
     const stateRef = useRef(state);
@@ -66,7 +75,11 @@ export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, de
     const delayRef = useRef(delayMultiplier);
     useEffect(() => { delayRef.current = delayMultiplier; }, [delayMultiplier]);
 
+    const goalRef = useRef(goal);
+    useEffect(() => { goalRef.current = goal; }, [goal]);
+
     const cancelRef = useRef(false);
+    const abortRef = useRef<AbortController | null>(null);
 
     // ============================================================================
     // Helper: Wait / Checks
@@ -85,131 +98,109 @@ export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, de
     // ============================================================================
     // Main Loop
     // ============================================================================
+    // The cycle itself runs in the headless engine; these steps add typing, audio and highlighting
     const runSimulationLoop = useCallback(async () => {
         console.log('🏁 Simulation Loop Started');
 
-        let currentCycle = 0;
-
-        try {
-            while (stateRef.current.isRunning && !cancelRef.current) {
-                await waitIfPaused();
-                if (cancelRef.current) break;
-
-                // ------------------------------------------------------------
-                // Phase 1: Predict / Generate Next Message for Party A
-                // ------------------------------------------------------------
-                setState(prev => ({ ...prev, phase: 'generating_input' }));
-                console.log('Phase: Generating Input');
+        const controller = new AbortController();
+        abortRef.current = controller;
+        // Party B's response captured before each submission, so a fast new response
+        // is not mistaken for the previous one
+        let previousPartyBResponse = '';
 
-                // We'll let the delegate handle history/summary logic
-                // But generally we might want to pass the *current local history* if we managed it here.
-                // For now, assume delegate can access the history it needs (e.g. from props or by passed arg).
-                // Let's rely on delegate's internal access to history for prediction.
+        const steps: SimulationSteps = {
+            // The delegate reads the conversation history itself
+            generatePartyA: (_transcript, signal, steer) => delegateRef.current.predictNextMessage([], '', signal, steer),
 
-                const nextMessage = await delegateRef.current.predictNextMessage([], ''); // Args handled by delegate implementation
-
-                if (!nextMessage || cancelRef.current) {
-                    console.log('⚠️ No message generated or cancelled');
-                    break;
-                }
-
-                stateRef.current.cycleCount = currentCycle + 1; // Update ref count logic if needed or just use local
-                setState(prev => ({ ...prev, cycleCount: currentCycle + 1 }));
-
-                // ------------------------------------------------------------
-                // Phase 2: Type Message
-                // ------------------------------------------------------------
+            deliverPartyA: async (text) => {
                 setState(prev => ({ ...prev, phase: 'typing_input' }));
                 console.log('Phase: Typing Input');
+                const typingFinished = await delegateRef.current.typeMessage(text);
+                if (!typingFinished || cancelRef.current) return null;
 
-                const typingFinished = await delegateRef.current.typeMessage(nextMessage);
-                if (!typingFinished || cancelRef.current) break;
-
-                // ------------------------------------------------------------
-                // Phase 3: Submit & Party A Audio
-                // ------------------------------------------------------------
                 setState(prev => ({ ...prev, phase: 'submitting' }));
                 console.log('Phase: Submitting');
+                previousPartyBResponse = delegateRef.current.getPartyBResponse();
 
-                // Capture previous response BEFORE submitting to handle potential race conditions
-                // where response might generate quickly before we get to waiting phase
-                const previousPartyBResponse = delegateRef.current.getPartyBResponse();
-
-                // Submit first to get translations
+                // Submit first to get translations, then add to history WITH translations
                 const submissionResult = await delegateRef.current.submitMessage();
-
-                // Add to history WITH translations
-                delegateRef.current.addToHistory('party_a', nextMessage, submissionResult ? submissionResult.translations : undefined);
+                const translations = submissionResult ? submissionResult.translations : undefined;
+                delegateRef.current.addToHistory('party_a', text, translations);
 
                 await waitIfPaused();
-                if (cancelRef.current) break;
-
-                const currentMode = modeRef.current;
-                const currentSpeed = speedRef.current;
-                const currentDelayMult = delayRef.current;
+                if (cancelRef.current) return null;
 
-                // Audio or Highlight - only auto-play in 'audio' mode
-                if (currentMode === 'audio' && submissionResult) {
+                // Audio or Highlight - only auto-play in 'audio' mode; 'manual' proceeds directly
+                if (modeRef.current === 'audio' && submissionResult) {
                     setState(prev => ({ ...prev, phase: 'playing_party_a' }));
                     await delegateRef.current.playPartyAAudio(submissionResult.text, submissionResult.translations);
-                } else if (currentMode === 'highlight') {
-                    // Highlight mode: just visually highlight without audio
+                } else if (modeRef.current === 'highlight') {
                     setState(prev => ({ ...prev, phase: 'playing_party_a', highlightTarget: 'party_a' }));
-                    await delegateRef.current.highlightText(nextMessage, 'party_a', currentSpeed);
+                    await delegateRef.current.highlightText(text, 'party_a', speedRef.current);
                     setState(prev => ({ ...prev, highlightTarget: null }));
                 }
-                // 'manual' mode: no auto-playback in simulation - proceed to next phase
 
                 await safeDelay(500);
-                if (cancelRef.current) break;
+                return { role: 'party_a', content: text, translations };
+            },
 
-                // ------------------------------------------------------------
-                // Phase 4: Wait for Party B Response
-                // ------------------------------------------------------------
+            generatePartyB: async () => {
                 setState(prev => ({ ...prev, phase: 'waiting_party_b' }));
                 console.log('Phase: Waiting for Party B');
+                const result = await delegateRef.current.waitForPartyBResponse(previousPartyBResponse);
+                return result ? { role: 'party_b', content: result.response, translations: result.translations } : null;
+            },
 
-                const partyBResult = await delegateRef.current.waitForPartyBResponse(previousPartyBResponse);
-                if (!partyBResult || cancelRef.current) {
-                    console.log('⚠️ Party B did not respond');
-                    // Potentially continue or break? Breaking is safer.
-                    break;
-                }
-
-                delegateRef.current.addToHistory('party_b', partyBResult.response, partyBResult.translations);
-
-                // ------------------------------------------------------------
-                // Phase 5: Party B Audio
-                // ------------------------------------------------------------
-                const currentModeB = modeRef.current;
-                const currentSpeedB = speedRef.current;
-                const currentDelayMultB = delayRef.current;
+            presentPartyB: async (turn) => {
+                delegateRef.current.addToHistory('party_b', turn.content, turn.translations);
 
-                if (currentModeB === 'audio') {
+                if (modeRef.current === 'audio') {
                     setState(prev => ({ ...prev, phase: 'playing_party_b' }));
-                    await delegateRef.current.playPartyBAudio(partyBResult.response, partyBResult.translations);
-                } else if (currentModeB === 'highlight') {
-                    // Highlight mode: just visually highlight without audio
+                    await delegateRef.current.playPartyBAudio(turn.content, turn.translations ?? {});
+                } else if (modeRef.current === 'highlight') {
                     setState(prev => ({ ...prev, phase: 'playing_party_b', highlightTarget: 'party_b' }));
-                    await delegateRef.current.highlightText(partyBResult.response, 'party_b', currentSpeedB);
+                    await delegateRef.current.highlightText(turn.content, 'party_b', speedRef.current);
                     setState(prev => ({ ...prev, highlightTarget: null }));
                 }
-                // 'manual' mode: no auto-playback in simulation - proceed to next cycle
+            }
+        };
 
-                currentCycle++;
-                if (currentCycle >= maxCycles) {
-                    console.log('🛑 Max cycles reached');
-                    break;
-                }
+        // The goal is fixed for the run; changing it applies to the next one
+        const runGoal = goalRef.current?.trim();
+        const evaluateProgress = delegateRef.current.evaluateProgress;
+        if (runGoal && evaluateProgress) {
+            steps.evaluateCycle = (_transcript, _cycle, signal) => evaluateProgress(runGoal, signal);
+        }
+        let stopReason: SimulationStopReason | null = null;
 
-                await safeDelay(1000);
-            }
-        } catch (e) {
-            console.error('Simulation Loop Error:', e);
+        try {
+            const result = await runSimulation(steps, {
+                maxCycles,
+                signal: controller.signal,
+                cycleDelayMs: 1000,
+                waitIfPaused,
+                onStep: (step, cycle) => {
+                    if (step === 'generating_party_a') {
+                        setState(prev => ({ ...prev, phase: 'generating_input' }));
+                        console.log('Phase: Generating Input');
+                    } else if (step === 'delivering_party_a') {
+                        setState(prev => ({ ...prev, cycleCount: cycle }));
+                    } else if (step === 'evaluating') {
+                        setState(prev => ({ ...prev, phase: 'evaluating_goal' }));
+                    }
+                },
+                onEvaluation: (evaluation) => {
+                    console.log(`Goal check: ${evaluation.status}${evaluation.reason ? ` (${evaluation.reason})` : ''}`);
+                    setState(prev => ({ ...prev, evaluation }));
+                }
+            });
+            stopReason = result.stopReason;
+            if (result.error) console.error('Simulation Loop Error:', result.error);
+            console.log(`🛑 Simulation Ended (${result.stopReason})`);
         } finally {
-            console.log('🛑 Simulation Ended');
+            if (abortRef.current === controller) abortRef.current = null;
             cancelRef.current = false;
-            setState(prev => ({ ...prev, isRunning: false, phase: 'idle', highlightTarget: null }));
+            setState(prev => ({ ...prev, isRunning: false, phase: 'idle', highlightTarget: null, stopReason }));
         }
     }, [maxCycles]);
 
@@ -220,7 +211,7 @@ export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, de
         if (stateRef.current.isRunning) return;
 
         cancelRef.current = false;
-        setState(prev => ({ ...prev, isRunning: true, isPaused: false, cycleCount: 0 }));
+        setState(prev => ({ ...prev, isRunning: true, isPaused: false, cycleCount: 0, evaluation: null, stopReason: null }));
 
         // Warmup
         delegateRef.current.warmupAudio?.();
@@ -231,6 +222,9 @@ export function useSimulationManager({ delegate, maxCycles = 5, playbackMode, de
 
     const stop = useCallback(() => {
         cancelRef.current = true;
+        abortRef.current?.abort();
+        abortRef.current = null;
+        delegateRef.current.cancelPendingRequests?.();
         setState(prev => ({ ...prev, isRunning: false, phase: 'idle' }));
     }, []);
 
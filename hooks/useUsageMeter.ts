@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { addUsage, EMPTY_USAGE_TOTALS, usageTracker, type UsageTotals } from '@/lib/utils/usage-tracker';
+
+/**
+ * Running token/cost totals for every AI call recorded since the last reset
+ */
+export function useUsageMeter() {
+    const [totals, setTotals] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+
+    useEffect(() => usageTracker.subscribe(record => {
+        setTotals(prev => addUsage(prev, record));
+    }), []);
+
+    const reset = useCallback(() => {
+        setTotals(EMPTY_USAGE_TOTALS);
+    }, []);
+
+    return {
+        state: { totals },
+        actions: { reset }
+    };
+}
@@ -0,0 +1,262 @@
+/**
+ * Dialogue Turn Prompts (Server)
+ * Message lists for the two sides of a conversation, shared by /api/ai/respond (Party B),
+ * /api/ai/autoplay/generate (Party A), /api/ai/autoplay/evaluate (the goal check after each cycle)
+ * and batch dialogue generation.
+ */
+
+import { getLangName, prompts } from '@/lib/ai/prompts';
+import { parseJSONContent } from '@/lib/ai/providers';
+import { splitMarkdownSections } from '@/lib/utils/markdown';
+import { formatExcerpts, retrieveChunks, type GroundingNotebook, type RetrievalResult } from '@/lib/ai/retrieval';
+import type { ChatMessage } from '@/lib/ai/providers';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import type { LLMFeature } from '@/lib/config/llm-config';
+import type { SimulationEvaluation, SimulationStopReason, SimulationTurn } from '@/lib/services/simulation/engine';
+
+export interface DialogueHistoryItem {
+    role: string;
+    content: string;
+}
+
+export interface RespondTurnInput {
+    message: string;
+    party_a_context?: string;
+    party_b_context?: string;
+    source_lang?: string;
+    return_lang?: string;
+    history?: DialogueHistoryItem[];
+    notebooks: GroundingNotebook[];
+}
+
+export interface AutoPlayTurnInput {
+    party_a_context?: string;
+    party_b_context?: string;
+    party_a_lang?: string;
+    history?: DialogueHistoryItem[];
+    notebooks: GroundingNotebook[];
+    goal?: string;  // Objective of the session
+    steer?: string; // Evaluator's direction for this line
+}
+
+export interface EvaluationInput {
+    goal: string;
+    party_a_context?: string;
+    party_b_context?: string;
+    history?: DialogueHistoryItem[];
+    notebooks: GroundingNotebook[];
+}
+
+export interface DialogueTurnPrompt {
+    messages: ChatMessage[];
+    grounding: RetrievalResult;
+}
+
+// Generation settings per side
+export const RESPOND_GENERATION = { temperature: 0.7, maxTokens: 1024 };
+export const AUTOPLAY_GENERATION = { temperature: 0.8, maxTokens: 150 };
+export const EVALUATION_GENERATION = { temperature: 0.2, maxTokens: 300, json: true };
+
+// Notebook excerpts included in each prompt
+const RESPOND_GROUNDING_MAX_CHARS = 4000;
+const AUTOPLAY_GROUNDING_MAX_CHARS = 3000;
+// Turns the evaluator reads
+const EVALUATION_HISTORY_TURNS = 16;
+
+const formatHistory = (history: DialogueHistoryItem[]) => history.length > 0 ? "Recent conversation:\n" + history.map(msg => {
+    const role = (msg.role === 'party_a' || msg.role === 'user') ? 'You' : 'Response';
+    return `${role}: ${msg.content}`;
+}).join('\n') : "No previous conversation history. You are starting the conversation.";
+
+/**
+ * Party B: system prompt (role, language rules, notebook excerpts for this turn), recent history, message
+ */
+export const buildRespondPrompt = ({
+    message,
+    party_a_context,
+    party_b_context,
+    source_lang,
+    return_lang,
+    history,
+    notebooks
+}: RespondTurnInput): DialogueTurnPrompt => {
+    const returnLangName = getLangName(return_lang || 'en');
+    const sourceLangName = getLangName(source_lang || 'en');
+
+    let roleDescription = "";
+    if (party_b_context) {
+        roleDescription += `You are roleplaying as: ${party_b_context}.\n`;
+    } else {
+        roleDescription += "You are a helpful AI assistant.\n";
+    }
+
+    if (party_a_context) {
+        roleDescription += `You are speaking with: ${party_a_context}.\n`;
+    }
+
+    let languageInstruction = `- Respond ONLY in ${returnLangName}`;
+    if (source_lang?.toLowerCase() !== return_lang?.toLowerCase()) {
+        languageInstruction += `\n- NOTE: User is speaking in ${sourceLangName} (${source_lang}), but you MUST respond in ${returnLangName}.`;
+    }
+
+    // Retrieve the notebook excerpts most relevant to this message and the turns just before it
+    const recentTurns = Array.isArray(history) ? history.slice(-2).map(msg => msg.content || '') : [];
+    const grounding = retrieveChunks(notebooks, [message, ...recentTurns].join('\n'), RESPOND_GROUNDING_MAX_CHARS);
+    const notebookSnippet = grounding.chunks.length > 0
+        ? `Notebook reference (use this as ground truth; excerpts selected for this turn):\n${formatExcerpts(grounding)}\n`
+        : '';
+    const notebookRule = grounding.chunks.length > 0
+        ? '- If a notebook reference is provided, ground responses in it and explain it clearly.\n- Right after a sentence that relies on a notebook excerpt, add its number in brackets, e.g. [2].'
+        : '';
+
+    const systemPrompt = `${roleDescription}
+${notebookSnippet}
+
+You are a high-signal, human-sounding partner who adapts to the user's level and domain.
+
+Guidelines:
+${languageInstruction}
+${notebookRule}
+- Match the user's expertise, needs, and tone (beginner, professional, expert, creative, emotional).
+- Be concise and clear; default to 1-4 short sentences unless asked for depth.
+- Be practical and specific; avoid fluff or generic advice.
+- If the request is ambiguous, ask one short clarifying question.
+- If the topic is emotional, respond with empathy and gentle, grounded guidance.
+- If the topic is technical, provide the precise code snippets or examples or explanations in the response.
+- Stay in character or needs or goals and use conversation history for continuity.
+
+IMPORTANT: Always respond in ${returnLangName}, even if the user writes in another language. Do NOT use ${sourceLangName}.`;
+
+    const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt }
+    ];
+
+    if (history && Array.isArray(history)) {
+        const recentHistory = history.slice(-20);
+        for (const msg of recentHistory) {
+            let role = msg.role || 'user';
+            if (role === 'party_a') role = 'user';
+            if (role === 'party_b') role = 'assistant';
+            messages.push({ role: role as ChatMessage['role'], content: msg.content || '' });
+        }
+    }
+
+    messages.push({ role: 'user', content: message });
+
+    return { messages, grounding };
+};
+
+/**
+ * Party A: the autoplay prompt over the recent conversation and relevant notebook excerpts
+ */
+export const buildAutoPlayPrompt = ({
+    party_a_context,
+    party_b_context,
+    party_a_lang,
+    history,
+    notebooks,
+    goal,
+    steer
+}: AutoPlayTurnInput): DialogueTurnPrompt => {
+    const effectiveHistory = history ?? [];
+    const historyText = formatHistory(effectiveHistory);
+
+    // Excerpts relevant to where the conversation is; the notebook openings when it is just starting
+    const query = effectiveHistory.slice(-3).map(msg => msg.content || '').join('\n');
+    const grounding = retrieveChunks(notebooks, query, AUTOPLAY_GROUNDING_MAX_CHARS);
+    const notebookSnippet = grounding.chunks.length > 0
+        ? `\nNotebook reference (follow and explain this content):\n${formatExcerpts(grounding)}`
+        : '';
+    const direction = [
+        goal?.trim() ? `\nYour objective in this conversation: ${goal.trim()}` : '',
+        steer?.trim() ? `\nDirection for your next message: ${steer.trim()}` : ''
+    ].join('');
+
+    const langName = getLangName(party_a_lang || 'en');
+    const prompt = prompts.autoPlay(
+        party_a_context || '',
+        party_b_context || '',
+        `${historyText}${notebookSnippet}${direction}`,
+        langName
+    );
+
+    return {
+        messages: [
+            { role: 'system', content: `You are a helpful roleplay assistant. Generate natural, in-character dialogue in ${langName}. Respond with ONLY the dialogue, no quotes or prefixes.` },
+            { role: 'user', content: prompt }
+        ],
+        grounding
+    };
+};
+
+/**
+ * Strip the quotes and "You:" prefix models sometimes add to an autoplay line
+ */
+export const cleanAutoPlayMessage = (text: string) => {
+    let content = text.trim();
+    if (content.startsWith('"') && content.endsWith('"')) content = content.slice(1, -1);
+    if (content.startsWith("You:")) content = content.slice(4).trim();
+    return content;
+};
+
+/**
+ * Goal check: the objective, the notebook outline (for goals like "cover all sections") and the recent conversation
+ */
+export const buildEvaluationPrompt = ({ goal, party_a_context, party_b_context, history, notebooks }: EvaluationInput): ChatMessage[] => {
+    const outline = notebooks
+        .flatMap(notebook => splitMarkdownSections(notebook.content ?? '').map(section =>
+            `${'  '.repeat(section.level - 1)}- ${section.heading}${notebooks.length > 1 ? ` (${notebook.title || 'Untitled'})` : ''}`))
+        .join('\n');
+    return [{
+        role: 'user',
+        content: prompts.autoPlayEvaluate(
+            goal,
+            party_a_context || '',
+            party_b_context || '',
+            formatHistory((history ?? []).slice(-EVALUATION_HISTORY_TURNS)),
+            outline
+        )
+    }];
+};
+
+const EVALUATION_STATUSES: SimulationEvaluation['status'][] = ['continue', 'goal_reached', 'looping'];
+
+/**
+ * Read the evaluator's JSON verdict; anything unrecognized counts as 'continue'
+ */
+export const parseEvaluation = (content: string): SimulationEvaluation => {
+    let parsed: { status?: unknown; reason?: unknown; steer?: unknown } = {};
+    try {
+        parsed = parseJSONContent<typeof parsed | null>(content) ?? {};
+    } catch {
+        console.error('Evaluation Parse Error:', content);
+    }
+    const status = EVALUATION_STATUSES.find(item => item === parsed.status) ?? 'continue';
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    return { status, reason: text(parsed.reason), steer: status === 'goal_reached' ? undefined : text(parsed.steer) };
+};
+
+// ============================================================================
+// Batch dialogue stream
+// ============================================================================
+
+/**
+ * Events streamed by /api/ai/dialogue, one SSE event each:
+ *   turn       - a finished turn (text without citation markers, translations, citations)
+ *   evaluation - the goal check after a cycle (only when the scenario has a goal)
+ *   done       - the run ended; why, and the usage of every call
+ *   error      - the request failed before any turn
+ */
+export type DialogueStreamEvent =
+    | { type: 'turn'; cycle: number; turn: SimulationTurn }
+    | { type: 'evaluation'; cycle: number; evaluation: SimulationEvaluation }
+    | { type: 'done'; cycles: number; stopReason: SimulationStopReason; evaluation?: SimulationEvaluation; error?: string; usage: DialogueUsage[] }
+    | { type: 'error'; error: string; details?: string };
+
+export interface DialogueUsage {
+    feature: LLMFeature;
+    usage?: TokenUsage;
+    servedBy?: ServedBy;
+}
+
+export const encodeDialogueEvent = (event: DialogueStreamEvent) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
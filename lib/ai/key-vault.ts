@@ -0,0 +1,129 @@
+/**
+ * Server Key Vault
+ * Resolves provider credentials on the server so browsers never need to hold API keys.
+ *
+ * Sources, in order of precedence:
+ * 1. Per-provider environment variables (OPENAI_API_KEY, ANTHROPIC_API_KEY, ...)
+ * 2. An encrypted vault (LLM_KEY_VAULT) unlocked with LLM_KEY_VAULT_SECRET; next.config.ts
+ *    loads it from the file named by LLM_KEY_VAULT_FILE. Create one with `node scripts/key-vault.mjs`.
+ *
+ * Set LLM_SERVER_KEYS_ONLY=true to ignore keys and base URLs sent by clients entirely.
+ */
+
+import { LLM_PROVIDERS, type LLMProvider } from '@/lib/config/llm-config';
+
+export interface ProviderCredentials {
+    apiKey: string | null;
+    baseUrl: string | null;
+}
+
+// Plaintext shape of the vault: { "providers": { "anthropic": { "apiKey": "..." }, "custom": { "baseUrl": "..." } } }
+interface VaultContents {
+    providers?: Partial<Record<LLMProvider, { apiKey?: string; baseUrl?: string }>>;
+}
+
+// Encrypted envelope (all fields base64): AES-256-GCM with a PBKDF2-SHA256 derived key
+interface VaultEnvelope {
+    v: 1;
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+export const VAULT_KDF_ITERATIONS = 210000;
+
+const PROVIDER_ENV_KEYS: Record<LLMProvider, string[]> = {
+    openai: ['OPENAI_API_KEY'],
+    anthropic: ['ANTHROPIC_API_KEY'],
+    google: ['GOOGLE_API_KEY', 'GEMINI_API_KEY'],
+    openrouter: ['OPENROUTER_API_KEY'],
+    groq: ['GROQ_API_KEY'],
+    custom: ['CUSTOM_LLM_API_KEY'],
+    mock: []
+};
+
+const readEnv = (names: string[]): string | null => {
+    for (const name of names) {
+        const value = process.env[name]?.trim();
+        if (value) return value;
+    }
+    return null;
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+/**
+ * Decrypt a vault envelope with the given secret; throws if the secret is wrong or the data was tampered with
+ */
+export async function decryptVault(envelope: VaultEnvelope, secret: string): Promise<VaultContents> {
+    if (envelope.v !== 1) throw new Error(`Unsupported key vault version: ${envelope.v}`);
+
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(envelope.salt), iterations: VAULT_KDF_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+let vaultPromise: Promise<VaultContents> | null = null;
+
+/**
+ * Unlock the configured vault once per server instance; a missing or unreadable vault counts as empty
+ */
+const loadVault = (): Promise<VaultContents> => {
+    if (!vaultPromise) {
+        const raw = process.env.LLM_KEY_VAULT?.trim();
+        const secret = process.env.LLM_KEY_VAULT_SECRET;
+
+        if (!raw) {
+            vaultPromise = Promise.resolve({});
+        } else if (!secret) {
+            console.error('LLM_KEY_VAULT is set but LLM_KEY_VAULT_SECRET is missing; ignoring the vault');
+            vaultPromise = Promise.resolve({});
+        } else {
+            vaultPromise = Promise.resolve()
+                .then(() => decryptVault(JSON.parse(raw), secret))
+                .catch((error) => {
+                    console.error('Failed to unlock LLM key vault:', error);
+                    return {};
+                });
+        }
+    }
+    return vaultPromise;
+};
+
+/**
+ * Whether client-supplied keys and base URLs must be ignored
+ */
+export const isServerKeysOnly = (): boolean => process.env.LLM_SERVER_KEYS_ONLY === 'true';
+
+/**
+ * Credentials the server holds for a provider (never sent to the client)
+ */
+export async function getServerCredentials(provider: LLMProvider): Promise<ProviderCredentials> {
+    const vaultEntry = (await loadVault()).providers?.[provider];
+
+    const apiKey = readEnv(PROVIDER_ENV_KEYS[provider]) || vaultEntry?.apiKey?.trim() || null;
+    const baseUrl = provider === 'custom'
+        ? process.env.CUSTOM_LLM_BASE_URL?.trim() || vaultEntry?.baseUrl?.trim() || null
+        : null;
+
+    return { apiKey, baseUrl };
+}
+
+/**
+ * Providers the server can call without any client credentials
+ */
+export async function getServerConfiguredProviders(): Promise<LLMProvider[]> {
+    const configured = await Promise.all(LLM_PROVIDERS.map(async ({ id }): Promise<LLMProvider | null> => {
+        if (id === 'mock') return null;
+        const { apiKey, baseUrl } = await getServerCredentials(id);
+        return (id === 'custom' ? baseUrl : apiKey) ? id : null;
+    }));
+    return configured.filter((id): id is LLMProvider => id !== null);
+}
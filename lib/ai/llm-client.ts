@@ -0,0 +1,206 @@
+/**
+ * Fallback LLM Client
+ * Runs a request against the primary provider and, when it is rate limited, erroring (5xx)
+ * or timing out, retries with exponential backoff and then walks the configured fallback chain.
+ */
+
+import type { LLMRequestConfig } from '@/lib/ai/llm-request';
+import { getLLMProvider, LLMProviderError } from '@/lib/ai/providers';
+import type { ChatRequest, ChatResult, ChatStreamEvent, LLMProviderAdapter, ServedBy } from '@/lib/ai/providers';
+
+// Retries per provider for 429/5xx before moving to the next one in the chain
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Per-attempt deadline; for streams it only covers the wait for the first event
+const ATTEMPT_TIMEOUT_MS = 30000;
+
+interface AttemptSignal {
+    signal: AbortSignal;
+    timedOut: () => boolean;
+    clearTimeout: () => void;
+    dispose: () => void;
+}
+
+/**
+ * Combine the caller's signal with a per-attempt timeout
+ */
+const createAttemptSignal = (parent: AbortSignal | undefined): AttemptSignal => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, ATTEMPT_TIMEOUT_MS);
+
+    const onAbort = () => controller.abort();
+    if (parent?.aborted) controller.abort();
+    parent?.addEventListener('abort', onAbort, { once: true });
+
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        clearTimeout: () => clearTimeout(timer),
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onAbort);
+        }
+    };
+};
+
+/**
+ * Normalize timeouts and network failures into LLMProviderErrors so they can be classified
+ */
+const toProviderError = (error: unknown, target: LLMRequestConfig, attempt: AttemptSignal): unknown => {
+    if (error instanceof LLMProviderError) return error;
+    if (attempt.timedOut()) {
+        return new LLMProviderError(target.provider, 504, 'Gateway Timeout', `No response within ${ATTEMPT_TIMEOUT_MS / 1000}s`);
+    }
+    if (error instanceof TypeError) {
+        // fetch() rejects with TypeError when the endpoint is unreachable
+        return new LLMProviderError(target.provider, 502, 'Bad Gateway', error.message);
+    }
+    return error;
+};
+
+const isRateLimited = (error: unknown) => error instanceof LLMProviderError && error.status === 429;
+
+const isServerError = (error: unknown) => error instanceof LLMProviderError && error.status >= 500;
+
+const backoffDelay = (error: unknown, retry: number) => {
+    const requested = error instanceof LLMProviderError ? error.retryAfterMs : undefined;
+    const exponential = BASE_DELAY_MS * 2 ** retry + Math.random() * BASE_DELAY_MS;
+    return Math.min(MAX_DELAY_MS, requested ?? exponential);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+    }, { once: true });
+});
+
+export class FallbackLLMClient implements LLMProviderAdapter {
+    private targets: LLMRequestConfig[];
+    private label: string;
+
+    constructor(config: LLMRequestConfig) {
+        this.label = config.feature ? `[fallback:${config.feature}]` : '[fallback]';
+        // Primary first, then the chain, without repeating a provider/model pair
+        const seen = new Set<string>();
+        this.targets = [config, ...config.fallbacks].filter(target => {
+            const key = `${target.provider}:${target.model}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    get id() {
+        return this.targets[0].provider;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        let lastError: unknown;
+
+        for (const [index, target] of this.targets.entries()) {
+            const adapter = getLLMProvider(target);
+
+            for (let retry = 0; retry <= MAX_RETRIES; retry++) {
+                const attempt = createAttemptSignal(request.signal);
+                try {
+                    const result = await adapter.chat({ ...request, model: target.model, signal: attempt.signal });
+                    return { ...result, servedBy: this.servedBy(target, index) };
+                } catch (error) {
+                    lastError = toProviderError(error, target, attempt);
+                } finally {
+                    attempt.dispose();
+                }
+
+                if (!(await this.shouldRetry(lastError, retry, target, request.signal))) break;
+            }
+
+            if (!this.shouldFallBack(lastError, request.signal, index)) break;
+        }
+
+        throw lastError;
+    }
+
+    async *stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+        let lastError: unknown;
+
+        for (const [index, target] of this.targets.entries()) {
+            const adapter = getLLMProvider(target);
+
+            for (let retry = 0; retry <= MAX_RETRIES; retry++) {
+                const attempt = createAttemptSignal(request.signal);
+                const events = adapter.stream({ ...request, model: target.model, signal: attempt.signal });
+
+                // Only the wait for the first event can fail over; once text flows we are committed
+                let first: IteratorResult<ChatStreamEvent>;
+                try {
+                    first = await events.next();
+                } catch (error) {
+                    attempt.dispose();
+                    lastError = toProviderError(error, target, attempt);
+                    if (!(await this.shouldRetry(lastError, retry, target, request.signal))) break;
+                    continue;
+                }
+
+                attempt.clearTimeout();
+                try {
+                    yield { type: 'model', servedBy: this.servedBy(target, index) };
+                    if (!first.done) yield first.value;
+                    yield* events;
+                } finally {
+                    attempt.dispose();
+                }
+                return;
+            }
+
+            if (!this.shouldFallBack(lastError, request.signal, index)) break;
+        }
+
+        throw lastError;
+    }
+
+    private servedBy(target: LLMRequestConfig, index: number): ServedBy {
+        return { provider: target.provider, model: target.model, fallback: index > 0 };
+    }
+
+    /**
+     * Back off and retry the same provider on 429/5xx; resolves false when the caller should stop retrying
+     */
+    private async shouldRetry(error: unknown, retry: number, target: LLMRequestConfig, signal?: AbortSignal) {
+        if (signal?.aborted || retry >= MAX_RETRIES) return false;
+        if (!isRateLimited(error) && !isServerError(error)) return false;
+        // Gateway errors and timeouts rarely clear up quickly; go straight to the next provider
+        if (error instanceof LLMProviderError && (error.status === 504 || error.status === 502) && !error.retryAfterMs) {
+            return false;
+        }
+
+        const delay = backoffDelay(error, retry);
+        console.warn(`${this.label} ${target.provider}/${target.model} failed (${(error as LLMProviderError).status}); retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, signal);
+        return !signal?.aborted;
+    }
+
+    private shouldFallBack(error: unknown, signal: AbortSignal | undefined, index: number) {
+        if (signal?.aborted || index >= this.targets.length - 1) return false;
+        const retryable = isRateLimited(error) || isServerError(error);
+        if (retryable) {
+            const next = this.targets[index + 1];
+            console.warn(`${this.label} Switching to ${next.provider}/${next.model}`);
+        }
+        return retryable;
+    }
+}
+
+/**
+ * Create the client every AI route uses: the primary provider plus its fallback chain
+ */
+export function getLLMClient(config: LLMRequestConfig): FallbackLLMClient {
+    return new FallbackLLMClient(config);
+}
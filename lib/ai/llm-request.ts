@@ -1,11 +1,55 @@
 import type { NextRequest } from 'next/server';
-import { DEFAULT_MODELS, LLM_PROVIDERS, type LLMProvider } from '@/lib/config/llm-config';
+import { getServerCredentials, isServerKeysOnly } from '@/lib/ai/key-vault';
+import { DEFAULT_MODELS, LLM_PROVIDERS, type LLMFeature, type LLMProvider } from '@/lib/config/llm-config';
+
+export interface LLMRequestConfig {
+    provider: LLMProvider;
+    model: string;
+    apiKey: string | null;
+    baseUrl: string | null;
+
+    /** Feature the request serves; the client resolves its provider/model route before sending */
+    feature?: LLMFeature;
+
+    /** Ordered provider/model pairs tried when the primary fails (429, 5xx, timeout) */
+    fallbacks: LLMRequestConfig[];
+}
+
+// Header carrying the client's fallback chain as JSON: [{ provider, model, apiKey?, baseUrl? }, ...]
+export const FALLBACK_CHAIN_HEADER = 'x-llm-fallbacks';
 
 const isProvider = (value: string | null | undefined): value is LLMProvider => {
     return !!value && LLM_PROVIDERS.some((provider) => provider.id === value);
 };
 
-export const getLLMRequestConfig = (req: NextRequest) => {
+/**
+ * Pick credentials for a provider: server-held ones win, client-sent ones are used only
+ * when the server has none and LLM_SERVER_KEYS_ONLY is off.
+ * The custom provider's key and endpoint are never mixed: a client-chosen base URL would receive
+ * the server's key, so once the server holds custom credentials only its own endpoint is used.
+ */
+const resolveCredentials = async (
+    provider: LLMProvider,
+    clientApiKey: unknown,
+    clientBaseUrl: unknown
+): Promise<{ apiKey: string | null; baseUrl: string | null }> => {
+    const server = await getServerCredentials(provider);
+    const allowClient = !isServerKeysOnly();
+    const fromClient = (value: unknown) => allowClient && typeof value === 'string' && value.trim() ? value.trim() : null;
+
+    if (provider === 'custom') {
+        if (server.apiKey || server.baseUrl || !allowClient) {
+            if (typeof clientBaseUrl === 'string' && clientBaseUrl.trim()) console.warn('Ignoring client-supplied custom base URL');
+            return { apiKey: server.baseUrl ? server.apiKey : null, baseUrl: server.baseUrl };
+        }
+        return { apiKey: fromClient(clientApiKey), baseUrl: fromClient(clientBaseUrl) };
+    }
+
+    // Only the custom provider has a configurable endpoint
+    return { apiKey: server.apiKey || fromClient(clientApiKey), baseUrl: null };
+};
+
+export const getLLMRequestConfig = async (req: NextRequest, feature?: LLMFeature): Promise<LLMRequestConfig> => {
     const providerHeader = req.headers.get('x-provider');
     const provider: LLMProvider = isProvider(providerHeader) ? providerHeader : 'openai';
 
@@ -13,10 +57,47 @@ export const getLLMRequestConfig = (req: NextRequest) => {
     const envModel = provider === 'openai' ? process.env.OPENAI_MODEL : undefined;
     const model = modelHeader || envModel || DEFAULT_MODELS[provider];
 
-    const envKey = provider === 'openai' ? process.env.OPENAI_API_KEY : undefined;
-    const apiKeyValue = req.headers.get('x-api-key') || envKey;
-    const apiKey = apiKeyValue ? apiKeyValue.trim() : null;
+    const { apiKey, baseUrl } = await resolveCredentials(provider, req.headers.get('x-api-key'), req.headers.get('x-base-url'));
+
+    return { provider, model, apiKey, baseUrl, feature, fallbacks: await getFallbackConfigs(req) };
+};
+
+/**
+ * Parse the fallback chain header, dropping malformed or unconfigured entries
+ */
+const getFallbackConfigs = async (req: NextRequest): Promise<LLMRequestConfig[]> => {
+    const raw = req.headers.get(FALLBACK_CHAIN_HEADER);
+    if (!raw) return [];
+
+    let entries: unknown;
+    try {
+        entries = JSON.parse(raw);
+    } catch {
+        console.warn('Ignoring malformed fallback chain header');
+        return [];
+    }
+    if (!Array.isArray(entries)) return [];
 
-    return { provider, model, apiKey };
+    const configs = await Promise.all(entries.map(async (entry): Promise<LLMRequestConfig | null> => {
+        if (!entry || typeof entry !== 'object' || !isProvider(entry.provider)) return null;
+        const provider: LLMProvider = entry.provider;
+        const config: LLMRequestConfig = {
+            provider,
+            model: typeof entry.model === 'string' && entry.model.trim() ? entry.model.trim() : DEFAULT_MODELS[provider],
+            ...await resolveCredentials(provider, entry.apiKey, entry.baseUrl),
+            fallbacks: []
+        };
+        return isLLMConfigured(config) ? config : null;
+    }));
+    return configs.filter((config): config is LLMRequestConfig => config !== null);
 };
 
+/**
+ * Whether the request carries enough configuration to call the provider directly;
+ * otherwise routes fall back to the Python backend
+ */
+export const isLLMConfigured = (config: LLMRequestConfig): boolean => {
+    if (config.provider === 'mock') return true;
+    if (config.provider === 'custom') return !!config.baseUrl;
+    return !!config.apiKey;
+};
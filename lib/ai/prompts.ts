@@ -16,6 +16,19 @@ export const getLangName = (code: string) => {
     return names[code.toLowerCase()] || names[code.split('-')[0]] || 'English';
 };
 
+// AI edits that can be applied to one notebook section
+export type NotebookSectionAction = 'expand' | 'simplify' | 'examples' | 'translate' | 'factcheck';
+
+export const NOTEBOOK_SECTION_ACTIONS: NotebookSectionAction[] = ['expand', 'simplify', 'examples', 'translate', 'factcheck'];
+
+const notebookSectionTasks: Record<NotebookSectionAction, (langName: string) => string> = {
+    expand: () => `Expand this section with more depth: explain the reasoning, add detail and nuance, and fill gaps a learner would hit. At most double its length.`,
+    simplify: () => `Rewrite this section for a beginner: plainer words, shorter sentences, jargon removed or defined. Keep every key point.`,
+    examples: () => `Keep the existing text and add 2-3 concrete, worked examples that illustrate it, placed where they fit best.`,
+    translate: (langName) => `Translate this section into ${langName}, including its heading. Keep the Markdown structure, code, and links unchanged.`,
+    factcheck: () => `Fact-check this section. Correct inaccurate statements in place. After any claim that is disputed or that you cannot verify, add a line "> Note: ..." explaining the issue. Leave accurate text unchanged.`
+};
+
 export const prompts = {
     // Generate Conversation Suggestions (Sparks)
     suggestions: (
@@ -70,6 +83,33 @@ Requirements:
 
 Your next message:`,
 
+    // Auto-Play Evaluation (after each cycle)
+    autoPlayEvaluate: (
+        goal: string,
+        partyAContext: string,
+        partyBContext: string,
+        historyText: string,
+        notebookOutline: string
+    ) => `You are reviewing a roleplay conversation that is running automatically.
+
+Speaker (You): ${partyAContext}
+Partner (Response): ${partyBContext}
+Objective of the session: ${goal}
+${notebookOutline ? `\nNotebook sections available to the conversation:\n${notebookOutline}\n` : ''}
+${historyText}
+
+Decide where the conversation stands:
+- "goal_reached": the objective has been fully accomplished in the conversation above.
+- "looping": the last exchanges repeat earlier ones, stall, or drift away from the objective.
+- "continue": progress is being made but the objective is not yet complete.
+
+Return ONLY a valid JSON object:
+{
+  "status": "continue" | "goal_reached" | "looping",
+  "reason": "one short sentence",
+  "steer": "one short direction for the speaker's next message that moves toward the objective (empty when goal_reached)"
+}`,
+
     // Context Extraction
     contextExtraction: (text: string) => `Analyze this request and extract concise, real-world roles and languages.
 
@@ -175,6 +215,31 @@ Return ONLY a valid JSON object where keys are 2-letter language codes (e.g., "e
   ...
 }`,
 
+    // Notebook Section Edit (replacement Markdown for one section)
+    notebookSectionEdit: (
+        action: NotebookSectionAction,
+        section: string,
+        notebookTitle: string,
+        outline: string,
+        langName: string
+    ) => `You are editing one section of a Markdown study notebook titled "${notebookTitle}".
+
+Notebook outline (context only):
+${outline || '(no headings)'}
+
+Section to edit:
+<<<
+${section}
+>>>
+
+Task: ${notebookSectionTasks[action](langName)}
+
+Rules:
+- Output ONLY the replacement Markdown; it replaces the section verbatim.
+- Keep the section's heading line and level if it has one.
+- Match the notebook's tone and formatting; do not cover other sections.
+- No preamble, no commentary, no code fence around the output.`,
+
     // Smart Phrase Prediction
     predictPhrases: (
         partyContext: string,
@@ -0,0 +1,94 @@
+/**
+ * Anthropic Provider
+ * Messages API with native SSE streaming
+ */
+
+import { LLMProviderError, type ChatRequest, type ChatResult, type ChatStreamEvent, type LLMProviderAdapter, type TokenUsage } from './types';
+import { readSSEData, splitSystemMessage, withJsonInstruction } from './utils';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_MAX_TOKENS = 1024;
+
+const toUsage = (inputTokens: number, outputTokens: number): TokenUsage => ({
+    promptTokens: inputTokens,
+    completionTokens: outputTokens,
+    totalTokens: inputTokens + outputTokens
+});
+
+export class AnthropicProvider implements LLMProviderAdapter {
+    id = 'anthropic' as const;
+
+    constructor(private apiKey: string) { }
+
+    private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+        const { system, messages } = splitSystemMessage(
+            request.json ? withJsonInstruction(request.messages) : request.messages
+        );
+
+        const response = await fetch(ANTHROPIC_URL, {
+            method: 'POST',
+            signal: request.signal,
+            headers: {
+                'x-api-key': this.apiKey.trim(),
+                'anthropic-version': '2023-06-01',
+                'content-type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: request.model,
+                system,
+                messages,
+                max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+                // Anthropic accepts 0..1, narrower than the other providers
+                ...(request.temperature !== undefined && { temperature: Math.min(1, Math.max(0, request.temperature)) }),
+                ...(stream && { stream: true })
+            })
+        });
+
+        if (!response.ok) {
+            throw await LLMProviderError.fromResponse(this.id, response);
+        }
+
+        return response;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const response = await this.send(request, false);
+        const data = await response.json();
+
+        return {
+            text: (data.content || []).map((block: { text?: string }) => block.text || '').join(''),
+            finishReason: data.stop_reason?.toLowerCase(),
+            usage: data.usage ? toUsage(data.usage.input_tokens ?? 0, data.usage.output_tokens ?? 0) : undefined
+        };
+    }
+
+    async *stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+        const response = await this.send(request, true);
+        let finishReason: string | undefined;
+        let inputTokens = 0;
+        let outputTokens = 0;
+
+        for await (const data of readSSEData(response.body)) {
+            let json;
+            try {
+                json = JSON.parse(data);
+            } catch {
+                continue;
+            }
+
+            if (json.type === 'message_start') {
+                inputTokens = json.message?.usage?.input_tokens ?? 0;
+            } else if (json.type === 'content_block_delta' && json.delta?.text) {
+                yield { type: 'delta', text: json.delta.text };
+            } else if (json.type === 'message_delta') {
+                if (json.delta?.stop_reason) finishReason = json.delta.stop_reason.toLowerCase();
+                outputTokens = json.usage?.output_tokens ?? outputTokens;
+            } else if (json.type === 'error') {
+                // e.g. overloaded_error after the stream has started
+                throw new LLMProviderError(this.id, 502, json.error?.type || 'Stream Error', json.error?.message || '');
+            }
+        }
+
+        yield { type: 'done', finishReason, usage: toUsage(inputTokens, outputTokens) };
+    }
+}
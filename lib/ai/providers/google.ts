@@ -0,0 +1,114 @@
+/**
+ * Google Provider
+ * Native Gemini generateContent / streamGenerateContent APIs
+ */
+
+import { LLMProviderError, type ChatRequest, type ChatResult, type ChatStreamEvent, type LLMProviderAdapter, type TokenUsage } from './types';
+import { readSSEData, splitSystemMessage, withJsonInstruction } from './utils';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiUsage {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+const toUsage = (usage?: GeminiUsage): TokenUsage | undefined => {
+    if (!usage) return undefined;
+    const promptTokens = usage.promptTokenCount ?? 0;
+    const completionTokens = usage.candidatesTokenCount ?? 0;
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens
+    };
+};
+
+interface GeminiCandidate {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+}
+
+const candidateText = (candidate?: GeminiCandidate): string =>
+    (candidate?.content?.parts || []).map((part) => part.text || '').join('');
+
+export class GoogleProvider implements LLMProviderAdapter {
+    id = 'google' as const;
+
+    constructor(private apiKey: string) { }
+
+    private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+        const safeKey = this.apiKey.trim();
+        const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+        const url = `${GEMINI_BASE_URL}/${request.model.trim()}:${method}key=${safeKey}`;
+        const { system, messages } = splitSystemMessage(
+            request.json ? withJsonInstruction(request.messages) : request.messages
+        );
+
+        console.log(`[Google API] Calling: ${url.replace(safeKey, '***')}`);
+
+        const response = await fetch(url, {
+            method: 'POST',
+            signal: request.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+                contents: messages.map((message) => ({
+                    role: message.role === 'assistant' ? 'model' : 'user',
+                    parts: [{ text: message.content }]
+                })),
+                generationConfig: {
+                    ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens }),
+                    ...(request.temperature !== undefined && { temperature: request.temperature }),
+                    ...(request.json && { responseMimeType: 'application/json' })
+                }
+            })
+        });
+
+        if (!response.ok) {
+            throw await LLMProviderError.fromResponse(this.id, response);
+        }
+
+        return response;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const response = await this.send(request, false);
+        const data = await response.json();
+        const candidate = data.candidates?.[0];
+
+        return {
+            text: candidateText(candidate),
+            finishReason: candidate?.finishReason?.toLowerCase(),
+            usage: toUsage(data.usageMetadata)
+        };
+    }
+
+    async *stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+        const response = await this.send(request, true);
+        let finishReason: string | undefined;
+        let usage: TokenUsage | undefined;
+
+        for await (const data of readSSEData(response.body)) {
+            let json;
+            try {
+                json = JSON.parse(data);
+            } catch {
+                continue;
+            }
+
+            if (json.error) {
+                throw new LLMProviderError(this.id, json.error.code || 502, json.error.status || 'Stream Error', json.error.message || '');
+            }
+
+            const candidate = json.candidates?.[0];
+            const text = candidateText(candidate);
+            if (text) yield { type: 'delta', text };
+            if (candidate?.finishReason) finishReason = candidate.finishReason.toLowerCase();
+            if (json.usageMetadata) usage = toUsage(json.usageMetadata);
+        }
+
+        yield { type: 'done', finishReason, usage };
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * LLM Provider Adapter Factory
+ * Resolves the adapter for every entry in LLM_PROVIDERS
+ */
+
+import { PROVIDER_ENDPOINTS, resolveCustomEndpoint, type LLMProvider } from '@/lib/config/llm-config';
+import type { LLMRequestConfig } from '@/lib/ai/llm-request';
+import type { LLMProviderAdapter } from './types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { AnthropicProvider } from './anthropic';
+import { GoogleProvider } from './google';
+import { MockProvider } from './mock';
+
+type ProviderFactory = (apiKey: string, baseUrl: string | null) => LLMProviderAdapter;
+
+const PROVIDER_FACTORIES: Record<LLMProvider, ProviderFactory> = {
+    openai: (apiKey) => new OpenAICompatibleProvider('openai', apiKey, {
+        endpoint: PROVIDER_ENDPOINTS.openai,
+        supportsJsonMode: true
+    }),
+    anthropic: (apiKey) => new AnthropicProvider(apiKey),
+    google: (apiKey) => new GoogleProvider(apiKey),
+    openrouter: (apiKey) => new OpenAICompatibleProvider('openrouter', apiKey, {
+        endpoint: PROVIDER_ENDPOINTS.openrouter,
+        headers: {
+            'HTTP-Referer': 'https://convolab.ai', // Optional, required by OpenRouter for ranking
+            'X-Title': 'ConvoLab'
+        }
+    }),
+    groq: (apiKey) => new OpenAICompatibleProvider('groq', apiKey, {
+        endpoint: PROVIDER_ENDPOINTS.groq,
+        supportsJsonMode: true
+    }),
+    // Ollama / llama.cpp / LM Studio etc.; JSON mode support varies, so rely on the prompt
+    custom: (apiKey, baseUrl) => new OpenAICompatibleProvider('custom', apiKey, {
+        endpoint: baseUrl ? resolveCustomEndpoint(baseUrl) : PROVIDER_ENDPOINTS.custom
+    }),
+    mock: () => new MockProvider()
+};
+
+/**
+ * Create the adapter for a resolved request configuration
+ */
+export function getLLMProvider({ provider, apiKey, baseUrl }: Pick<LLMRequestConfig, 'provider' | 'apiKey' | 'baseUrl'>): LLMProviderAdapter {
+    return PROVIDER_FACTORIES[provider](apiKey || '', baseUrl);
+}
+
+export { LLMProviderError } from './types';
+export type { ChatMessage, ChatRequest, ChatResult, ChatStreamEvent, LLMProviderAdapter, ServedBy, TokenUsage } from './types';
+export { parseJSONContent } from './utils';
@@ -0,0 +1,73 @@
+/**
+ * Mock Provider Fixtures
+ * Scripted responses per feature; `{topic}` is replaced with a snippet of the latest user message
+ */
+
+import type { LLMFeature } from '@/lib/config/llm-config';
+
+export type MockFixtures = Record<LLMFeature, string[]>;
+
+export const MOCK_FIXTURES: MockFixtures = {
+    respond: [
+        'You said: "{topic}". That is a great starting point, so let us build from the basics.',
+        'Good point about "{topic}". The key is to take it one small step at a time.',
+        'I see what you mean by "{topic}". What do you already know about it?',
+        'On "{topic}", here is a practical tip: practice for five minutes a day and note what feels hard.'
+    ],
+    autoplay: [
+        'Could you explain that part again, a little more slowly?',
+        'That makes sense. What would you recommend I try first?',
+        'Interesting! Can you give me a concrete example?',
+        'Thanks, that helps. What is a common mistake people make here?'
+    ],
+    suggestions: [
+        'Tell me more about that',
+        'Can you give an example?',
+        'What should I try next?',
+        'That makes sense',
+        'I see it differently',
+        'Why does that matter?'
+    ],
+    predictions: [
+        '["Yes, please", "Can you repeat that?", "What do you mean?"]',
+        '["That sounds good", "Tell me more", "I am not sure"]'
+    ],
+    translation: [
+        '[{lang}] {text}'
+    ],
+    context: [
+        '{"party_a": {"context": "Learner working on: {topic}", "languages": ["en"]}, "party_b": {"context": "Supportive expert guiding the learner clearly", "languages": ["en"]}}'
+    ],
+    notebook: [
+        `# Notebook: {topic}
+
+## Overview
+A short summary of the conversation and the main ideas that came up.
+
+## Key Concepts
+- **Foundations**: the core idea behind {topic}.
+- **Practice**: small, repeatable exercises.
+- **Feedback**: check understanding with questions.
+
+## Example
+\`\`\`text
+Start simple, then add one new detail at a time.
+\`\`\`
+
+## Common Pitfalls
+- Trying to learn everything at once.
+- Skipping review.
+
+## Next Steps
+1. Revisit the key concepts tomorrow.
+2. Try the example on your own.
+
+## References
+- Mock reference (offline fixture)`
+    ],
+    scenario: [
+        'You are ordering coffee at a busy cafe in Paris.',
+        'You are checking in at a small hotel after a long flight.',
+        'You are asking a colleague for feedback on your first presentation.'
+    ]
+};
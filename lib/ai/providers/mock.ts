@@ -0,0 +1,114 @@
+/**
+ * Mock Provider
+ * Deterministic, fixture-driven responses for offline development, demos and CI
+ */
+
+import type { LLMFeature } from '@/lib/config/llm-config';
+import type { ChatRequest, ChatResult, ChatStreamEvent, LLMProviderAdapter, TokenUsage } from './types';
+import { MOCK_FIXTURES, type MockFixtures } from './mock-fixtures';
+
+const DEFAULT_STREAM_DELAY_MS = 30;
+const TOPIC_MAX_CHARS = 60;
+
+/**
+ * Built-in fixtures, optionally overridden per feature by the MOCK_LLM_SCRIPT env var
+ * (JSON such as `{"respond": ["Hello!"]}`)
+ */
+const loadFixtures = (): MockFixtures => {
+    const script = process.env.MOCK_LLM_SCRIPT;
+    if (!script) return MOCK_FIXTURES;
+
+    try {
+        return { ...MOCK_FIXTURES, ...JSON.parse(script) };
+    } catch (error) {
+        console.warn('[Mock API] Ignoring invalid MOCK_LLM_SCRIPT', error);
+        return MOCK_FIXTURES;
+    }
+};
+
+// Stable string hash (djb2) so the same conversation always gets the same answer
+const hash = (value: string) => {
+    let h = 5381;
+    for (let i = 0; i < value.length; i++) {
+        h = ((h << 5) + h + value.charCodeAt(i)) >>> 0;
+    }
+    return h;
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const clip = (text: string) => {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    return normalized.length > TOPIC_MAX_CHARS ? `${normalized.slice(0, TOPIC_MAX_CHARS)}...` : normalized;
+};
+
+/**
+ * Pull the subject of the request out of the feature's prompt
+ */
+const extractTopic = (feature: LLMFeature, prompt: string) => {
+    const patterns: Partial<Record<LLMFeature, RegExp>> = {
+        context: /Request: "([\s\S]*?)"/,
+        translation: /Text: "([\s\S]*?)"\nTarget Languages:/,
+        notebook: /(?:User|party_a): (.+)/
+    };
+    const match = patterns[feature]?.exec(prompt);
+    return clip(match ? match[1] : prompt) || 'this topic';
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MockProvider implements LLMProviderAdapter {
+    id = 'mock' as const;
+
+    constructor(
+        private fixtures: MockFixtures = loadFixtures(),
+        private streamDelayMs: number = Number(process.env.MOCK_LLM_DELAY_MS ?? DEFAULT_STREAM_DELAY_MS)
+    ) { }
+
+    private respond(request: ChatRequest): string {
+        const feature = request.feature || 'respond';
+        const lastUser = [...request.messages].reverse().find((message) => message.role === 'user');
+        const prompt = lastUser?.content || '';
+        const topic = extractTopic(feature, prompt);
+
+        if (feature === 'translation') {
+            const langs = /Target Languages: (.+)/.exec(prompt)?.[1].split(',').map((lang) => lang.trim()) || [];
+            const template = this.fixtures.translation[0] || '{text}';
+            return JSON.stringify(Object.fromEntries(
+                langs.map((lang) => [lang, template.replace('{lang}', lang).replace('{text}', topic)])
+            ));
+        }
+
+        // Autoplay goal check: a verdict that never ends the run early
+        if (feature === 'autoplay' && request.json) {
+            return JSON.stringify({ status: 'continue', reason: 'Mock evaluation: the conversation is progressing.', steer: '' });
+        }
+
+        const options = this.fixtures[feature]?.length ? this.fixtures[feature] : MOCK_FIXTURES[feature];
+        const index = hash(`${request.messages.length}:${prompt}`) % options.length;
+        return options[index].split('{topic}').join(topic);
+    }
+
+    private usage(request: ChatRequest, text: string): TokenUsage {
+        const promptTokens = estimateTokens(request.messages.map((message) => message.content).join('\n'));
+        const completionTokens = estimateTokens(text);
+        return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const text = this.respond(request);
+        return { text, finishReason: 'stop', usage: this.usage(request, text) };
+    }
+
+    async *stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+        const text = this.respond(request);
+
+        for (const chunk of text.match(/\S+\s*/g) || []) {
+            if (this.streamDelayMs > 0) await sleep(this.streamDelayMs);
+            request.signal?.throwIfAborted();
+            yield { type: 'delta', text: chunk };
+        }
+
+        yield { type: 'done', finishReason: 'stop', usage: this.usage(request, text) };
+    }
+}
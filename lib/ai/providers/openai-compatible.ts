@@ -0,0 +1,118 @@
+/**
+ * OpenAI-Compatible Provider
+ * Chat Completions API shared by OpenAI, OpenRouter, Groq and custom endpoints
+ */
+
+import type { LLMProvider } from '@/lib/config/llm-config';
+import { LLMProviderError, type ChatRequest, type ChatResult, type ChatStreamEvent, type LLMProviderAdapter, type TokenUsage } from './types';
+import { readSSEData, withJsonInstruction } from './utils';
+
+export interface OpenAICompatibleOptions {
+    /** Full chat completions URL */
+    endpoint: string;
+
+    /** Extra headers sent with every request */
+    headers?: Record<string, string>;
+
+    /** Whether the provider accepts `response_format: json_object` */
+    supportsJsonMode?: boolean;
+}
+
+interface OpenAIUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+}
+
+const toUsage = (usage?: OpenAIUsage): TokenUsage | undefined => {
+    if (!usage) return undefined;
+    const promptTokens = usage.prompt_tokens ?? 0;
+    const completionTokens = usage.completion_tokens ?? 0;
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage.total_tokens ?? promptTokens + completionTokens
+    };
+};
+
+export class OpenAICompatibleProvider implements LLMProviderAdapter {
+    constructor(
+        public id: LLMProvider,
+        private apiKey: string,
+        private options: OpenAICompatibleOptions
+    ) { }
+
+    private buildBody(request: ChatRequest, stream: boolean) {
+        const messages = request.json ? withJsonInstruction(request.messages) : request.messages;
+        return {
+            model: request.model,
+            messages,
+            ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+            ...(request.temperature !== undefined && { temperature: request.temperature }),
+            ...(request.json && this.options.supportsJsonMode && { response_format: { type: 'json_object' } }),
+            ...(stream && { stream: true, stream_options: { include_usage: true } })
+        };
+    }
+
+    private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+        const response = await fetch(this.options.endpoint, {
+            method: 'POST',
+            signal: request.signal,
+            headers: {
+                // Local servers often run without a key
+                ...(this.apiKey.trim() && { 'Authorization': `Bearer ${this.apiKey.trim()}` }),
+                'Content-Type': 'application/json',
+                ...this.options.headers
+            },
+            body: JSON.stringify(this.buildBody(request, stream))
+        });
+
+        if (!response.ok) {
+            throw await LLMProviderError.fromResponse(this.id, response);
+        }
+
+        return response;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const response = await this.send(request, false);
+        const data = await response.json();
+        const choice = data.choices?.[0];
+
+        return {
+            text: choice?.message?.content || '',
+            finishReason: choice?.finish_reason?.toLowerCase(),
+            usage: toUsage(data.usage)
+        };
+    }
+
+    async *stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+        const response = await this.send(request, true);
+        let finishReason: string | undefined;
+        let usage: TokenUsage | undefined;
+
+        for await (const data of readSSEData(response.body)) {
+            if (data === '[DONE]') break;
+            let json;
+            try {
+                json = JSON.parse(data);
+            } catch {
+                continue;
+            }
+
+            // Some servers report failures as an in-band error chunk
+            if (json.error) {
+                throw new LLMProviderError(this.id, 502, 'Stream Error', json.error.message || JSON.stringify(json.error));
+            }
+
+            const choice = json.choices?.[0];
+            if (choice?.delta?.content) {
+                yield { type: 'delta', text: choice.delta.content };
+            }
+            if (choice?.finish_reason) finishReason = choice.finish_reason.toLowerCase();
+            if (json.usage) usage = toUsage(json.usage);
+        }
+
+        yield { type: 'done', finishReason, usage };
+    }
+}
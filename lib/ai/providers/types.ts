@@ -0,0 +1,118 @@
+/**
+ * LLM Provider Adapter Types and Interfaces
+ */
+
+import type { LLMFeature, LLMProvider } from '@/lib/config/llm-config';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+}
+
+export interface ChatRequest {
+    /** Model ID as understood by the upstream provider */
+    model: string;
+
+    /** Conversation messages; a leading system message is allowed */
+    messages: ChatMessage[];
+
+    /** Upper bound on generated tokens */
+    maxTokens?: number;
+
+    /** Sampling temperature (provider default when omitted) */
+    temperature?: number;
+
+    /** Ask the provider for a JSON object response */
+    json?: boolean;
+
+    /** App feature issuing the request */
+    feature?: LLMFeature;
+
+    /** Aborts the upstream call (e.g. when the client disconnects) */
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+/** The provider/model that actually served a request */
+export interface ServedBy {
+    provider: LLMProvider;
+    model: string;
+
+    /** True when the primary provider failed and a fallback answered */
+    fallback: boolean;
+}
+
+export interface ChatResult {
+    /** Generated text content */
+    text: string;
+
+    /** Provider-reported finish reason, normalized to lowercase */
+    finishReason?: string;
+
+    /** Token usage, when the provider reports it */
+    usage?: TokenUsage;
+
+    /** Set by the fallback client once a provider has answered */
+    servedBy?: ServedBy;
+}
+
+export type ChatStreamEvent =
+    | { type: 'model'; servedBy: ServedBy }
+    | { type: 'delta'; text: string }
+    | { type: 'done'; finishReason?: string; usage?: TokenUsage };
+
+export interface LLMProviderAdapter {
+    /** Provider ID from LLM_PROVIDERS */
+    id: LLMProvider;
+
+    /** Run a single completion and return the full text */
+    chat(request: ChatRequest): Promise<ChatResult>;
+
+    /** Run a streaming completion, yielding text deltas and a final done event (adapters never emit `model`) */
+    stream(request: ChatRequest): AsyncGenerator<ChatStreamEvent>;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Error raised when an upstream provider call fails
+ */
+export class LLMProviderError extends Error {
+    /** Delay requested by the provider's Retry-After header, if any */
+    public retryAfterMs?: number;
+
+    constructor(
+        public provider: LLMProvider,
+        public status: number,
+        statusText: string,
+        public details: string = ''
+    ) {
+        super(`${provider} Provider Error: ${status} ${statusText}`.trim());
+        this.name = 'LLMProviderError';
+    }
+
+    static async fromResponse(provider: LLMProvider, response: Response): Promise<LLMProviderError> {
+        let details = '';
+        try {
+            details = await response.text();
+        } catch { }
+        console.error(`[${provider} API] Error ${response.status}: ${details}`);
+        const error = new LLMProviderError(provider, response.status, response.statusText, details);
+        error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        return error;
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared helpers for provider adapters
+ */
+
+import type { ChatMessage } from './types';
+
+const JSON_INSTRUCTION = 'Output valid JSON only.';
+
+/**
+ * Split a leading system message from the conversation (Anthropic / Gemini style)
+ */
+export const splitSystemMessage = (messages: ChatMessage[]) => {
+    const system = messages
+        .filter((message) => message.role === 'system')
+        .map((message) => message.content)
+        .join('\n\n');
+    const rest = messages.filter((message) => message.role !== 'system');
+    return { system: system || undefined, messages: rest };
+};
+
+/**
+ * Ensure the conversation asks for JSON output
+ */
+export const withJsonInstruction = (messages: ChatMessage[]): ChatMessage[] => {
+    const [first, ...rest] = messages;
+    if (first?.role === 'system') {
+        return [{ role: 'system', content: `${first.content}\n\n${JSON_INSTRUCTION}` }, ...rest];
+    }
+    return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+};
+
+/**
+ * Read an SSE body and yield the payload of every `data:` line
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+    if (!body) return;
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || ''; // Keep incomplete line
+
+            for (const line of lines) {
+                if (line.startsWith('data:')) {
+                    yield line.slice(5).trim();
+                }
+            }
+        }
+
+        if (buffer.startsWith('data:')) {
+            yield buffer.slice(5).trim();
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Parse a JSON payload from model output, tolerating Markdown code fences
+ */
+export const parseJSONContent = <T = unknown>(content: string): T => {
+    try {
+        return JSON.parse(content);
+    } catch {
+        const clean = content.replace(/```json\n?|```/g, '').trim();
+        return JSON.parse(clean);
+    }
+};
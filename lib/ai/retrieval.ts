@@ -0,0 +1,307 @@
+/**
+ * Notebook Retrieval (Shared between Client/Server)
+ *
+ * Grounding for respond/autoplay: notebooks are split into heading sections (long sections
+ * into paragraph-sized pieces) and ranked against the conversation with BM25, so the prompt
+ * carries the most relevant excerpts from any number of notebooks instead of a truncated prefix.
+ */
+
+import { slugifyHeading, splitMarkdownSections } from '@/lib/utils/markdown';
+
+export interface GroundingNotebook {
+    id?: string;
+    title?: string;
+    content?: string;
+}
+
+export interface NotebookChunk {
+    notebookId?: string;
+    notebookTitle: string;
+    headings: string[]; // Heading path down to the chunk's section, outermost first
+    text: string;
+    start: number;      // Offset range in the notebook content
+    end: number;
+}
+
+/**
+ * A retrieved chunk the response was grounded on; `label` is its [n] marker in the prompt
+ */
+export interface NotebookCitation {
+    label: number;
+    notebookId?: string;
+    notebookTitle: string;
+    heading?: string;   // Innermost heading of the chunk
+    start: number;
+    end: number;
+    excerpt: string;
+    score: number;
+}
+
+export interface RetrievalResult {
+    chunks: Array<NotebookChunk & { score: number }>; // In prompt order
+    citations: NotebookCitation[];                    // Every chunk in the prompt, most relevant first
+}
+
+const MAX_CHUNK_CHARS = 1200;
+const MAX_CHUNKS = 8;
+// Sources shown for a response whose text has no markers
+const MAX_UNMARKED_CITATIONS = 3;
+const EXCERPT_CHARS = 240;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+    'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then',
+    'there', 'these', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+    'you', 'your'
+]);
+
+// Scripts written without spaces between words (plus the katakana long vowel mark)
+const CJK_RUN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]+)/u;
+
+// Character bigrams of an unspaced run, so a query word matches inside a longer run
+const bigrams = (run: string): string[] => {
+    const chars = [...run];
+    if (chars.length === 1) return chars;
+    return chars.slice(1).map((char, i) => chars[i] + char);
+};
+
+// Accent-folded words of spaced text
+const words = (text: string): string[] =>
+    (text.normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter(token => !STOPWORDS.has(token));
+
+/**
+ * Index/query terms: words for spaced scripts, bigrams for CJK runs. NFKC first folds full-width
+ * and half-width forms; accents are only stripped outside CJK, where NFKD would split Hangul
+ * syllables into jamo and kana from their voicing marks.
+ */
+const tokenize = (text: string) =>
+    text.normalize('NFKC').toLowerCase().split(CJK_RUN)
+        .flatMap((part, i) => i % 2 === 1 ? bigrams(part) : words(part));
+
+/**
+ * Split text longer than MAX_CHUNK_CHARS at paragraph (then line) boundaries
+ */
+const splitLong = (text: string, offset: number): Array<{ text: string; start: number }> => {
+    if (text.length <= MAX_CHUNK_CHARS) return [{ text, start: offset }];
+    const pieces: Array<{ text: string; start: number }> = [];
+    let pieceStart = 0;
+    while (text.length - pieceStart > MAX_CHUNK_CHARS) {
+        const window = text.slice(pieceStart, pieceStart + MAX_CHUNK_CHARS);
+        const cut = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('\n'));
+        const length = cut > MAX_CHUNK_CHARS / 3 ? cut : MAX_CHUNK_CHARS;
+        pieces.push({ text: text.slice(pieceStart, pieceStart + length), start: offset + pieceStart });
+        pieceStart += length;
+    }
+    pieces.push({ text: text.slice(pieceStart), start: offset + pieceStart });
+    return pieces;
+};
+
+/**
+ * Non-overlapping chunks of a notebook: the text between consecutive headings,
+ * each tagged with its heading path. A heading with no text of its own (e.g. a chapter
+ * heading right before its first subsection) is merged into the chunk that follows it.
+ */
+export const chunkNotebook = (notebook: GroundingNotebook): NotebookChunk[] => {
+    const content = notebook.content ?? '';
+    const notebookTitle = notebook.title?.trim() || 'Untitled';
+    const sections = splitMarkdownSections(content);
+    const starts = [0, ...sections.map(section => section.start).filter(start => start > 0)];
+
+    const chunks: NotebookChunk[] = [];
+    const path: Array<{ heading: string; level: number }> = [];
+    // Start of heading-only sections waiting for the next chunk
+    let pendingStart: number | null = null;
+    starts.forEach((start, i) => {
+        const end = starts[i + 1] ?? content.length;
+        const section = sections.find(item => item.start === start);
+        if (section) {
+            while (path.length > 0 && path[path.length - 1].level >= section.level) path.pop();
+            path.push({ heading: section.heading, level: section.level });
+            const body = content.slice(start, end).replace(/^.*\n?/, '');
+            if (!body.trim()) {
+                pendingStart ??= start;
+                return;
+            }
+        }
+        const chunkStart = pendingStart ?? start;
+        pendingStart = null;
+        for (const piece of splitLong(content.slice(chunkStart, end), chunkStart)) {
+            const text = piece.text.trim();
+            if (!text) continue;
+            chunks.push({
+                notebookId: notebook.id,
+                notebookTitle,
+                headings: path.map(item => item.heading),
+                text,
+                start: piece.start,
+                end: piece.start + piece.text.length
+            });
+        }
+    });
+    return chunks;
+};
+
+/**
+ * Rank the chunks of every notebook against `query` and pick excerpts that fit in `maxChars`.
+ * Only matching chunks are used (all of them when they fit); when nothing matches, each notebook's opening is.
+ */
+export const retrieveChunks = (notebooks: GroundingNotebook[], query: string, maxChars: number): RetrievalResult => {
+    // positions[i]: index of chunk i within its own notebook
+    const positions: number[] = [];
+    const chunks = notebooks.filter(notebook => notebook.content?.trim()).flatMap(notebook => {
+        const notebookChunks = chunkNotebook(notebook);
+        notebookChunks.forEach((_, position) => positions.push(position));
+        return notebookChunks;
+    });
+    if (chunks.length === 0) return { chunks: [], citations: [] };
+
+    const docs = chunks.map(chunk => tokenize(`${chunk.notebookTitle} ${chunk.headings.join(' ')} ${chunk.text}`));
+    const avgLength = docs.reduce((sum, tokens) => sum + tokens.length, 0) / docs.length || 1;
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of docs) {
+        for (const token of new Set(tokens)) documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+
+    const terms = [...new Set(tokenize(query))];
+    const scores = docs.map(tokens => {
+        const frequency = new Map<string, number>();
+        for (const token of tokens) frequency.set(token, (frequency.get(token) ?? 0) + 1);
+        return terms.reduce((score, term) => {
+            const tf = frequency.get(term) ?? 0;
+            if (tf === 0) return score;
+            const df = documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+            return score + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * tokens.length / avgLength));
+        }, 0);
+    });
+
+    const order = chunks.map((_, index) => index);
+    const matching = order.filter(index => scores[index] > 0).sort((a, b) => scores[b] - scores[a]);
+    // Once anything matches, chunks that don't are left out
+    const pool = matching.length > 0 ? [...matching].sort((a, b) => a - b) : order;
+    const totalChars = pool.reduce((sum, index) => sum + chunks[index].text.length, 0);
+
+    let selected: number[];
+    if (totalChars <= maxChars) {
+        selected = pool;
+    } else {
+        // Relevant chunks first; without matches, round-robin through each notebook's opening chunks
+        const candidates = matching.length > 0 ? matching : [...order].sort((a, b) => positions[a] - positions[b] || a - b);
+        selected = [];
+        let used = 0;
+        for (const index of candidates) {
+            if (selected.length >= MAX_CHUNKS) break;
+            if (used + chunks[index].text.length > maxChars) continue;
+            selected.push(index);
+            used += chunks[index].text.length;
+        }
+        // A single chunk larger than the budget is clipped rather than dropped
+        if (selected.length === 0) selected = [candidates[0]];
+        selected.sort((a, b) => a - b);
+    }
+
+    const labels = new Map(selected.map((index, position) => [index, position + 1]));
+    const citations = [...selected]
+        .sort((a, b) => scores[b] - scores[a] || a - b)
+        .map((index): NotebookCitation => {
+            const chunk = chunks[index];
+            const excerpt = chunk.text.replace(/^(?:#{1,6}\s+.*(?:\n|$)\s*)+/, '').replace(/\s+/g, ' ').trim();
+            return {
+                label: labels.get(index) ?? 0,
+                notebookId: chunk.notebookId,
+                notebookTitle: chunk.notebookTitle,
+                heading: chunk.headings[chunk.headings.length - 1],
+                start: chunk.start,
+                end: chunk.end,
+                excerpt: excerpt.length > EXCERPT_CHARS ? `${excerpt.slice(0, EXCERPT_CHARS - 3).trimEnd()}...` : excerpt,
+                score: Math.round(scores[index] * 100) / 100
+            };
+        });
+
+    return {
+        chunks: selected.map(index => ({
+            ...chunks[index],
+            text: chunks[index].text.slice(0, maxChars),
+            score: scores[index]
+        })),
+        citations
+    };
+};
+
+/**
+ * Prompt block listing the retrieved excerpts with their [n] labels
+ */
+export const formatExcerpts = ({ chunks }: RetrievalResult) => chunks
+    .map((chunk, index) => {
+        // Notebooks usually open with their title as the top heading; don't repeat it
+        const headings = chunk.headings[0] === chunk.notebookTitle ? chunk.headings.slice(1) : chunk.headings;
+        const location = [chunk.notebookTitle, ...headings].join(' › ');
+        return `[${index + 1}] ${location}\n${chunk.text}`;
+    })
+    .join('\n\n');
+
+/**
+ * Request bodies carry `notebooks`; older clients send a single `notebook`
+ */
+export const readGroundingNotebooks = (body: { notebook?: GroundingNotebook; notebooks?: GroundingNotebook[] }): GroundingNotebook[] => {
+    const notebooks = Array.isArray(body.notebooks) ? body.notebooks : body.notebook ? [body.notebook] : [];
+    return notebooks.filter(notebook => typeof notebook?.content === 'string' && notebook.content.trim());
+};
+
+/**
+ * One combined notebook, for the Python backend which only reads `notebook`
+ */
+export const combineNotebooks = (notebooks: GroundingNotebook[]): GroundingNotebook | undefined => {
+    if (notebooks.length <= 1) return notebooks[0];
+    return {
+        title: notebooks.map(notebook => notebook.title || 'Untitled').join(', '),
+        content: notebooks.map(notebook => `# ${notebook.title || 'Untitled'}\n\n${notebook.content ?? ''}`).join('\n\n')
+    };
+};
+
+// ============================================================================
+// Citation markers
+// ============================================================================
+
+// "[2]", "[1, 3]" or "[1][2]" right after the text they support
+const MARKER_PATTERN = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Remove the [n] markers the model placed for the given excerpt labels, collecting the labels
+ * in order of first use. While `streaming`, an unfinished marker at the end is hidden too.
+ */
+export const extractCitationMarkers = (text: string, labels: number[], streaming = false) => {
+    const known = new Set(labels);
+    const cited: number[] = [];
+    let cleaned = text.replace(MARKER_PATTERN, (marker, list: string) => {
+        const numbers = list.split(',').map(item => Number(item.trim()));
+        if (!numbers.every(number => known.has(number))) return marker;
+        numbers.forEach(number => {
+            if (!cited.includes(number)) cited.push(number);
+        });
+        return '';
+    });
+    if (streaming) cleaned = cleaned.replace(/\s*\[[\d,\s]*$/, '');
+    return { text: cleaned, cited };
+};
+
+/**
+ * Citations to show for a response: the excerpts it marked, or the best matches when it marked none.
+ * Excerpts that matched nothing (a notebook's opening, used when no chunk matched) are never shown.
+ */
+export const selectCitations = (citations: NotebookCitation[], cited: number[]) => {
+    if (cited.length === 0) return citations.filter(citation => citation.score > 0).slice(0, MAX_UNMARKED_CITATIONS);
+    return cited
+        .map(label => citations.find(citation => citation.label === label))
+        .filter((citation): citation is NotebookCitation => !!citation && citation.score > 0);
+};
+
+/**
+ * Notebook page link that selects the cited chunk and scrolls to its section
+ */
+export const getCitationHref = ({ notebookId, heading, start, end }: NotebookCitation) =>
+    notebookId ? `/notebook/${notebookId}?at=${start}&len=${end - start}${heading ? `#${slugifyHeading(heading)}` : ''}` : null;
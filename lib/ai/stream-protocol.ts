@@ -0,0 +1,116 @@
+/**
+ * Normalized Response Stream Protocol (Shared between Client/Server)
+ *
+ * AI routes that stream emit Server-Sent Events whose `data:` payload is one JSON event:
+ *   model  - which provider/model is answering (sent before any text; may be a fallback)
+ *   citations - notebook excerpts the response is grounded on (before any delta, when grounded)
+ *   delta  - a chunk of generated text
+ *   usage  - token usage reported by the provider
+ *   done   - generation finished; `truncated` is true when the token limit cut it off
+ *   error  - the upstream call failed mid-stream; no further events follow
+ */
+
+import type { ChatStreamEvent, ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import { readSSEData } from '@/lib/ai/providers/utils';
+import type { NotebookCitation } from '@/lib/ai/retrieval';
+
+export type ResponseStreamEvent =
+    | { type: 'model'; servedBy: ServedBy }
+    | { type: 'citations'; citations: NotebookCitation[] }
+    | { type: 'delta'; text: string }
+    | { type: 'usage'; usage: TokenUsage }
+    | { type: 'done'; finishReason?: string; truncated: boolean }
+    | { type: 'error'; error: string; details?: string };
+
+export const STREAM_CONTENT_TYPE = 'text/event-stream; charset=utf-8';
+
+// Finish reasons that mean the model hit its token limit
+const TRUNCATION_REASONS = ['length', 'max_tokens'];
+
+export const isTruncated = (finishReason?: string) => !!finishReason && TRUNCATION_REASONS.includes(finishReason);
+
+export const encodeStreamEvent = (event: ResponseStreamEvent) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Convert provider stream events into a normalized SSE body, after any `leading` events.
+ * Errors thrown by the provider become an `error` event instead of a dropped connection.
+ */
+export function createEventStream(events: AsyncGenerator<ChatStreamEvent>, leading: ResponseStreamEvent[] = []): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream({
+        async start(controller) {
+            const send = (event: ResponseStreamEvent) => controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+
+            try {
+                leading.forEach(send);
+                for await (const event of events) {
+                    if (event.type === 'model') {
+                        send({ type: 'model', servedBy: event.servedBy });
+                    } else if (event.type === 'delta') {
+                        send({ type: 'delta', text: event.text });
+                    } else {
+                        if (event.usage) send({ type: 'usage', usage: event.usage });
+                        send({ type: 'done', finishReason: event.finishReason, truncated: isTruncated(event.finishReason) });
+                    }
+                }
+            } catch (error) {
+                console.error('Streaming Error:', error);
+                send({
+                    type: 'error',
+                    error: error instanceof Error ? error.message : 'Stream failed',
+                    details: (error as { details?: string }).details
+                });
+            } finally {
+                controller.close();
+            }
+        }
+    });
+}
+
+/**
+ * Start a provider stream and wrap it as a normalized SSE body.
+ * The first event is awaited up front so request-level failures (bad key, 429, ...)
+ * reject here and can still be returned as a JSON error with the upstream status.
+ */
+export async function openEventStream(events: AsyncGenerator<ChatStreamEvent>, leading: ResponseStreamEvent[] = []): Promise<ReadableStream<Uint8Array>> {
+    const first = await events.next();
+
+    async function* replay() {
+        if (first.done) return;
+        yield first.value;
+        yield* events;
+    }
+
+    return createEventStream(replay(), leading);
+}
+
+/**
+ * Adapt a plain-text streaming body (e.g. the Python backend) to provider stream events
+ */
+export async function* plainTextEvents(body: ReadableStream<Uint8Array> | null): AsyncGenerator<ChatStreamEvent> {
+    if (body) {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const text = decoder.decode(value, { stream: true });
+            if (text) yield { type: 'delta', text };
+        }
+    }
+    yield { type: 'done', finishReason: 'stop' };
+}
+
+/**
+ * Read a normalized event stream on the client
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array> | null): AsyncGenerator<ResponseStreamEvent> {
+    for await (const data of readSSEData(body)) {
+        try {
+            yield JSON.parse(data) as ResponseStreamEvent;
+        } catch {
+            console.warn('Ignoring malformed stream event', data);
+        }
+    }
+}
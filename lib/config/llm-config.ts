@@ -3,7 +3,25 @@
  * Single source of truth for all provider settings
  */
 
-export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'openrouter' | 'groq';
+export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'openrouter' | 'groq' | 'custom' | 'mock';
+
+// App features that call an LLM (used to label requests)
+export type LLMFeature = 'respond' | 'autoplay' | 'suggestions' | 'predictions' | 'translation' | 'context' | 'notebook' | 'scenario';
+
+// Features that can be routed to their own provider/model (scenario generation shares the context route)
+export type RoutableFeature = Exclude<LLMFeature, 'scenario'>;
+
+export const ROUTABLE_FEATURES: { id: RoutableFeature; name: string; description: string }[] = [
+    { id: 'respond', name: 'Responses', description: 'Party B replies' },
+    { id: 'autoplay', name: 'Auto-Play', description: 'Simulated Party A turns' },
+    { id: 'suggestions', name: 'Suggestions', description: 'Conversation continuations' },
+    { id: 'predictions', name: 'Predictions', description: 'Phrase completions while typing' },
+    { id: 'translation', name: 'Translation', description: 'Multi-language translations' },
+    { id: 'context', name: 'Context Extraction', description: 'Scenario and grounding context' },
+    { id: 'notebook', name: 'Notebook', description: 'Study notebook generation' }
+];
+
+const getRouteFeature = (feature: LLMFeature): RoutableFeature => feature === 'scenario' ? 'context' : feature;
 
 // All supported LLM providers
 export const LLM_PROVIDERS: { id: LLMProvider; name: string }[] = [
@@ -11,7 +29,9 @@ export const LLM_PROVIDERS: { id: LLMProvider; name: string }[] = [
     { id: 'anthropic', name: 'Anthropic' },
     { id: 'google', name: 'Google' },
     { id: 'openrouter', name: 'OpenRouter' },
-    { id: 'groq', name: 'Groq' }
+    { id: 'groq', name: 'Groq' },
+    { id: 'custom', name: 'Custom (OpenAI-compatible)' },
+    { id: 'mock', name: 'Mock (Offline)' }
 ];
 
 // Default models for each provider
@@ -20,16 +40,72 @@ export const DEFAULT_MODELS: Record<LLMProvider, string> = {
     anthropic: 'claude-haiku-4-5-20251001',
     google: 'gemini-3-flash-preview',
     openrouter: 'openai/gpt-oss-120b',
-    groq: 'llama-3.3-70b-versatile'
+    groq: 'llama-3.3-70b-versatile',
+    custom: 'llama3.2',
+    mock: 'mock-1'
+};
+
+// Per-model pricing in USD per 1M tokens (input = prompt, output = completion).
+// Models not listed here are metered by token count only.
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    // OpenAI
+    'gpt-5.2-2025-12-11': { input: 1.75, output: 14 },
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    // Anthropic
+    'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+    'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+    // Google
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    // OpenRouter
+    'openai/gpt-oss-120b': { input: 0.1, output: 0.5 },
+    // Groq
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 }
 };
 
+// Providers that run locally or in-process and never bill
+const FREE_PROVIDERS: LLMProvider[] = ['custom', 'mock'];
+
+/**
+ * Look up pricing for a model; OpenRouter-style ids ("vendor/model") also match the bare model name
+ */
+export function getModelPricing(provider: LLMProvider, model: string): ModelPricing | null {
+    if (FREE_PROVIDERS.includes(provider)) return { input: 0, output: 0 };
+    return MODEL_PRICING[model] || MODEL_PRICING[model.split('/').pop() || ''] || null;
+}
+
+/**
+ * Estimate the USD cost of a request, or null when the model has no known pricing
+ */
+export function estimateCost(
+    provider: LLMProvider,
+    model: string,
+    usage: { promptTokens: number; completionTokens: number }
+): number | null {
+    const pricing = getModelPricing(provider, model);
+    if (!pricing) return null;
+    return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
 // LocalStorage key mapping for each provider
 export const PROVIDER_KEY_MAP: Record<LLMProvider, string> = {
     openai: 'key_openai',
     anthropic: 'key_anthropic',
     google: 'key_google',
     openrouter: 'key_openrouter',
-    groq: 'key_groq'
+    groq: 'key_groq',
+    custom: 'key_custom',
+    mock: 'key_mock'
 };
 
 // API endpoints for each provider
@@ -38,9 +114,51 @@ export const PROVIDER_ENDPOINTS: Record<LLMProvider, string> = {
     anthropic: 'https://api.anthropic.com/v1/messages',
     google: 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions',
     openrouter: 'https://openrouter.ai/api/v1/chat/completions',
-    groq: 'https://api.groq.com/openai/v1/chat/completions'
+    groq: 'https://api.groq.com/openai/v1/chat/completions',
+    custom: 'http://localhost:11434/v1/chat/completions',
+    mock: '' // Served in-process, no network
 };
 
+// LocalStorage key for the custom provider base URL (e.g. http://localhost:11434/v1)
+export const CUSTOM_BASE_URL_KEY = 'base_url_custom';
+
+// LocalStorage key for the ordered fallback chain tried when the selected provider fails
+export const FALLBACK_CHAIN_KEY = 'llm_fallback_chain';
+
+export interface LLMFallbackEntry {
+    provider: LLMProvider;
+    model: string;
+}
+
+// LocalStorage key caching which providers the server holds keys for (refreshed from /api/ai/providers)
+export const SERVER_PROVIDERS_KEY = 'llm_server_providers';
+
+export interface ServerProviderStatus {
+    providers: LLMProvider[];
+    /** The server ignores client keys; only server-configured providers work */
+    keysOnly: boolean;
+}
+
+// LocalStorage key for per-feature provider/model overrides; unrouted features use the selected provider
+export const FEATURE_ROUTES_KEY = 'llm_feature_routes';
+
+export interface LLMFeatureRoute {
+    provider: LLMProvider;
+    /** Empty means the provider's configured model */
+    model: string;
+}
+
+export type LLMFeatureRoutes = Partial<Record<RoutableFeature, LLMFeatureRoute>>;
+
+/**
+ * Resolve the chat completions URL for an OpenAI-compatible base URL
+ */
+export function resolveCustomEndpoint(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    if (trimmed.endsWith('/chat/completions')) return trimmed;
+    return `${trimmed}/chat/completions`;
+}
+
 /**
  * Get provider-specific model from storage with sane fallbacks
  */
@@ -75,30 +193,123 @@ export function getStoredProviderApiKey(provider: LLMProvider): string | null {
 }
 
 /**
- * Get the current LLM configuration from localStorage
+ * Get the custom provider base URL from storage (trimmed)
  */
-export function getLLMConfig(): { provider: LLMProvider; model: string; apiKey: string | null } {
+export function getStoredCustomBaseUrl(): string | null {
+    if (typeof window === 'undefined') return null;
+
+    const baseUrl = localStorage.getItem(CUSTOM_BASE_URL_KEY);
+    return baseUrl ? baseUrl.trim() : null;
+}
+
+/**
+ * Get the stored fallback chain (provider/model pairs in the order they are tried)
+ */
+export function getStoredFallbackChain(): LLMFallbackEntry[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+        const parsed = JSON.parse(localStorage.getItem(FALLBACK_CHAIN_KEY) || '[]');
+        if (!Array.isArray(parsed)) return [];
+        return parsed.filter((entry): entry is LLMFallbackEntry =>
+            !!entry && LLM_PROVIDERS.some(p => p.id === entry.provider) && typeof entry.model === 'string'
+        );
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Get the cached server key status
+ */
+export function getServerProviderStatus(): ServerProviderStatus {
+    if (typeof window === 'undefined') return { providers: [], keysOnly: false };
+
+    try {
+        const parsed = JSON.parse(localStorage.getItem(SERVER_PROVIDERS_KEY) || '{}');
+        const providers = Array.isArray(parsed.providers)
+            ? parsed.providers.filter((id: unknown) => LLM_PROVIDERS.some(p => p.id === id))
+            : [];
+        return { providers, keysOnly: parsed.keysOnly === true };
+    } catch {
+        return { providers: [], keysOnly: false };
+    }
+}
+
+/**
+ * Check if the server holds the credentials for a provider
+ */
+export function isServerProvider(provider: LLMProvider): boolean {
+    return getServerProviderStatus().providers.includes(provider);
+}
+
+/**
+ * Get the stored per-feature routes, dropping entries for unknown features or providers
+ */
+export function getStoredFeatureRoutes(): LLMFeatureRoutes {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        const parsed = JSON.parse(localStorage.getItem(FEATURE_ROUTES_KEY) || '{}');
+        if (!parsed || typeof parsed !== 'object') return {};
+        const routes: LLMFeatureRoutes = {};
+        for (const { id } of ROUTABLE_FEATURES) {
+            const route = parsed[id];
+            if (route && LLM_PROVIDERS.some(p => p.id === route.provider)) {
+                routes[id] = { provider: route.provider, model: typeof route.model === 'string' ? route.model.trim() : '' };
+            }
+        }
+        return routes;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Get the current LLM configuration from localStorage, honouring the feature's route when given.
+ * An explicit `target` (e.g. one side of a model comparison) takes precedence over the route.
+ */
+export function getLLMConfig(feature?: LLMFeature, target?: LLMFeatureRoute): { provider: LLMProvider; model: string; apiKey: string | null; baseUrl: string | null } {
     if (typeof window === 'undefined') {
-        return { provider: 'openai', model: DEFAULT_MODELS.openai, apiKey: null };
+        return { provider: 'openai', model: DEFAULT_MODELS.openai, apiKey: null, baseUrl: null };
     }
 
-    const provider = (localStorage.getItem('user_llm_provider') || 'openai') as LLMProvider;
-    const model = getStoredProviderModel(provider);
+    const route = target || (feature ? getStoredFeatureRoutes()[getRouteFeature(feature)] : undefined);
+    const provider = route?.provider || (localStorage.getItem('user_llm_provider') || 'openai') as LLMProvider;
+    const model = route?.model || getStoredProviderModel(provider);
     const apiKey = getStoredProviderApiKey(provider);
+    const baseUrl = provider === 'custom' ? getStoredCustomBaseUrl() : null;
 
-    return { provider, model, apiKey };
+    return { provider, model, apiKey, baseUrl };
 }
 
 /**
- * Build request headers for API calls
+ * Build request headers for API calls made on behalf of a feature
  */
-export function getLLMHeaders(): Record<string, string> {
-    const { provider, model, apiKey } = getLLMConfig();
+export function getLLMHeaders(feature?: LLMFeature, target?: LLMFeatureRoute): Record<string, string> {
+    const { provider, model, apiKey, baseUrl } = getLLMConfig(feature, target);
     const headers: Record<string, string> = {};
+    // Keys the server resolves itself never leave the browser
+    const sendsCredentials = (id: LLMProvider) => !getServerProviderStatus().keysOnly && !isServerProvider(id);
 
-    if (apiKey) headers['x-api-key'] = apiKey.trim();
+    if (apiKey && sendsCredentials(provider)) headers['x-api-key'] = apiKey.trim();
     if (provider) headers['x-provider'] = provider;
     if (model) headers['x-model'] = model;
+    if (baseUrl && sendsCredentials(provider)) headers['x-base-url'] = baseUrl;
+
+    // Fallbacks carry their own credentials; providers that aren't set up are skipped
+    const fallbacks = getStoredFallbackChain()
+        .filter(entry => isProviderConfigured(entry.provider))
+        .map(entry => {
+            const withCredentials = sendsCredentials(entry.provider);
+            return {
+                provider: entry.provider,
+                model: entry.model || DEFAULT_MODELS[entry.provider],
+                apiKey: withCredentials ? getStoredProviderApiKey(entry.provider) || undefined : undefined,
+                baseUrl: withCredentials && entry.provider === 'custom' ? getStoredCustomBaseUrl() || undefined : undefined
+            };
+        });
+    if (fallbacks.length > 0) headers['x-llm-fallbacks'] = JSON.stringify(fallbacks);
 
     return headers;
 }
@@ -111,3 +322,15 @@ export function hasApiKey(provider: LLMProvider): boolean {
 
     return !!getStoredProviderApiKey(provider);
 }
+
+/**
+ * Check if a provider has everything it needs to be called directly
+ * (server-held keys count; the custom provider only requires a base URL; the mock provider needs nothing)
+ */
+export function isProviderConfigured(provider: LLMProvider): boolean {
+    if (provider === 'mock') return true;
+    if (isServerProvider(provider)) return true;
+    if (getServerProviderStatus().keysOnly) return false;
+    if (provider === 'custom') return !!getStoredCustomBaseUrl();
+    return hasApiKey(provider);
+}
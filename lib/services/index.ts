@@ -10,3 +10,7 @@ export type { TranslationProvider } from './translation';
 // Audio Services
 export { ttsService, sttService, getSpeechLang } from './audio';
 export type { TTSProvider, TTSOptions, STTProvider, STTOptions, TTSProviderType, STTProviderType } from './audio';
+
+// Simulation
+export { runSimulation } from './simulation';
+export type { SimulationTurn, SimulationSteps, SimulationOptions, SimulationResult, SimulationEvaluation } from './simulation';
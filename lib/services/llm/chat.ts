@@ -1,9 +1,18 @@
 /**
  * LLM Service - AI Response Generation
+ *
+ * Every call takes an optional AbortSignal; aborting it cancels the upstream provider request.
  */
 
 import { apiClient } from '@/lib/utils/api-client';
-import { getLLMHeaders } from '@/lib/config/llm-config';
+import { getLLMHeaders, type LLMFeatureRoute } from '@/lib/config/llm-config';
+import { readStreamEvents } from '@/lib/ai/stream-protocol';
+import { stripMarkdownFence } from '@/lib/utils/markdown';
+import { usageTracker, type UsageRecord } from '@/lib/utils/usage-tracker';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import type { NotebookSectionAction } from '@/lib/ai/prompts';
+import type { NotebookCitation } from '@/lib/ai/retrieval';
+import type { SimulationEvaluation } from '@/lib/services/simulation/engine';
 
 export interface LLMResponseOptions {
     message: string;
@@ -14,7 +23,8 @@ export interface LLMResponseOptions {
     return_lang: string;
     stream?: boolean;
     history?: Array<{ role: string; content: string }>;
-    notebook?: NotebookContext;
+    notebooks?: NotebookContext[]; // Grounding; the route retrieves the excerpts relevant to the message
+    temperature?: number;          // Sampling override, used for alternative replies
 }
 
 export interface NotebookRequest {
@@ -23,18 +33,69 @@ export interface NotebookRequest {
     party_b_context?: string;
 }
 
+export interface NotebookResult {
+    markdown: string;
+    truncated: boolean;
+    usage: UsageRecord | null; // Priced usage for this generation, when the provider reported it
+}
+
+export interface NotebookSectionRequest {
+    action: NotebookSectionAction;
+    section: string;
+    title?: string;
+    outline?: string;     // Heading list of the whole notebook, for context
+    target_lang?: string; // For 'translate'
+}
+
 export interface NotebookContext {
+    id?: string;
     title?: string;
     content?: string;
 }
 
+/**
+ * Collect a streamed notebook route response, reporting the Markdown so far after every chunk
+ */
+const readNotebookStream = async (res: Response, onMarkdown: (markdown: string) => void): Promise<NotebookResult> => {
+    // The Python backend fallback answers with plain JSON
+    if (res.headers.get('content-type')?.includes('application/json')) {
+        const json = await res.json();
+        const markdown = stripMarkdownFence(json.markdown || '');
+        onMarkdown(markdown);
+        return { markdown, truncated: false, usage: null };
+    }
+
+    let raw = '';
+    let truncated = false;
+    let usage: UsageRecord | null = null;
+    let servedBy: ServedBy | null = null;
+    for await (const event of readStreamEvents(res.body)) {
+        if (event.type === 'delta') {
+            raw += event.text;
+            onMarkdown(stripMarkdownFence(raw));
+        } else if (event.type === 'model') {
+            servedBy = event.servedBy;
+            usageTracker.served(servedBy);
+        } else if (event.type === 'usage') {
+            usage = usageTracker.record('notebook', event.usage, servedBy);
+        } else if (event.type === 'done') {
+            truncated = event.truncated;
+        } else if (event.type === 'error') {
+            throw new Error(event.error);
+        }
+    }
+
+    return { markdown: stripMarkdownFence(raw), truncated, usage };
+};
+
 export const chatService = {
     /**
-     * Generate AI response (with optional streaming)
+     * Generate AI response (with optional streaming); `target` sends it to a specific provider/model
+     * instead of the respond route
      */
-    async generateResponse(options: LLMResponseOptions): Promise<Response> {
-        const headers = getLLMHeaders();
-        return apiClient.postStream('/api/ai/respond', options, { headers });
+    async generateResponse(options: LLMResponseOptions, signal?: AbortSignal, target?: LLMFeatureRoute): Promise<Response> {
+        const headers = getLLMHeaders('respond', target);
+        return apiClient.postStream('/api/ai/respond', options, { headers, signal });
     },
 
     /**
@@ -45,10 +106,30 @@ export const chatService = {
         party_b_context: string;
         party_a_lang?: string;
         history: Array<{ role: string; content: string }>;
-        notebook?: NotebookContext;
-    }): Promise<{ message: string }> {
-        const headers = getLLMHeaders();
-        return apiClient.post('/api/ai/autoplay/generate', data, { headers });
+        notebooks?: NotebookContext[];
+        goal?: string;  // Objective of the autoplay session
+        steer?: string; // Evaluator's direction for this message
+    }, signal?: AbortSignal): Promise<{ message: string; usage?: TokenUsage; servedBy?: ServedBy; citations?: NotebookCitation[] }> {
+        const headers = getLLMHeaders('autoplay');
+        const result = await apiClient.post('/api/ai/autoplay/generate', data, { headers, signal });
+        usageTracker.record('autoplay', result.usage, result.servedBy);
+        return result;
+    },
+
+    /**
+     * Judge an Auto-Play conversation against its objective after a cycle
+     */
+    async evaluateAutoPlay(data: {
+        goal: string;
+        party_a_context: string;
+        party_b_context: string;
+        history: Array<{ role: string; content: string }>;
+        notebooks?: NotebookContext[];
+    }, signal?: AbortSignal): Promise<SimulationEvaluation> {
+        const headers = getLLMHeaders('autoplay');
+        const result = await apiClient.post('/api/ai/autoplay/evaluate', data, { headers, signal });
+        usageTracker.record('autoplay', result.usage, result.servedBy);
+        return result.evaluation;
     },
 
     /**
@@ -58,16 +139,46 @@ export const chatService = {
         conversation_history: Array<{ user: string; ai: string }>;
         source_lang: string;
         target_langs: string[];
-    }) {
-        const headers = getLLMHeaders();
-        return apiClient.post('/api/ai/suggestions', data, { headers });
+    }, signal?: AbortSignal) {
+        const headers = getLLMHeaders('suggestions');
+        const result = await apiClient.post('/api/ai/suggestions', data, { headers, signal });
+        usageTracker.record('suggestions', result.usage, result.servedBy);
+        return result;
     },
 
     /**
      * Generate a notebook from conversation history
      */
-    async generateNotebook(data: NotebookRequest): Promise<{ markdown: string }> {
-        const headers = getLLMHeaders();
-        return apiClient.post('/api/ai/notebook', data, { headers });
+    async generateNotebook(data: NotebookRequest, signal?: AbortSignal): Promise<{ markdown: string; usage?: TokenUsage; servedBy?: ServedBy }> {
+        const headers = getLLMHeaders('notebook');
+        const result = await apiClient.post('/api/ai/notebook', data, { headers, signal });
+        usageTracker.record('notebook', result.usage, result.servedBy);
+        return result;
+    },
+
+    /**
+     * Stream a notebook from conversation history, reporting the Markdown so far after every chunk.
+     */
+    async streamNotebook(
+        data: NotebookRequest,
+        onMarkdown: (markdown: string) => void,
+        signal?: AbortSignal
+    ): Promise<NotebookResult> {
+        const headers = getLLMHeaders('notebook');
+        const res = await apiClient.postStream('/api/ai/notebook', { ...data, stream: true }, { headers, signal });
+        return readNotebookStream(res, onMarkdown);
+    },
+
+    /**
+     * Stream an AI rewrite of one notebook section; resolves to the replacement Markdown.
+     */
+    async streamNotebookSection(
+        data: NotebookSectionRequest,
+        onMarkdown: (markdown: string) => void,
+        signal?: AbortSignal
+    ): Promise<NotebookResult> {
+        const headers = getLLMHeaders('notebook');
+        const res = await apiClient.postStream('/api/ai/notebook/section', { ...data, stream: true }, { headers, signal });
+        return readNotebookStream(res, onMarkdown);
     }
 };
@@ -4,20 +4,23 @@
  */
 
 import { chatService } from './chat';
+import { isAbortError } from '@/lib/utils/api-client';
 
 export async function getConversationSuggestions(
     conversationHistory: Array<{ user: string; ai: string }>,
     sourceLang: string,
-    targetLangs: string[]
+    targetLangs: string[],
+    signal?: AbortSignal
 ) {
     try {
         const result = await chatService.getConversationSuggestions({
             conversation_history: conversationHistory,
             source_lang: sourceLang,
             target_langs: targetLangs
-        });
+        }, signal);
         return result.suggestions || [];
     } catch (error) {
+        if (isAbortError(error)) return [];
         console.error('Error fetching conversation suggestions:', error);
         return [];
     }
@@ -1,3 +1,4 @@
 export * from './chat';
 export * from './conversation';
 export * from './predictions';
+export * from './providers';
@@ -4,6 +4,8 @@
 
 import { API_BASE_URL } from '@/lib/config/api';
 import { getLLMHeaders } from '@/lib/config/llm-config';
+import { isAbortError } from '@/lib/utils/api-client';
+import { usageTracker } from '@/lib/utils/usage-tracker';
 
 export interface PhrasePrediction {
     phrase: string;
@@ -25,7 +27,8 @@ export async function getPhrasePredictions(
     text: string,
     sourceLang: string,
     returnLang: string,
-    numPredictions: number = 8
+    numPredictions: number = 8,
+    signal?: AbortSignal
 ): Promise<PhrasePrediction[]> {
     if (!text || text.trim().length === 0) return [];
 
@@ -33,13 +36,14 @@ export async function getPhrasePredictions(
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
             'ngrok-skip-browser-warning': 'true',
-            ...getLLMHeaders()
+            ...getLLMHeaders('predictions')
         };
 
 
         const response = await fetch(`${API_BASE_URL}/api/ai/predict/phrases`, {
             method: 'POST',
             headers,
+            signal,
             body: JSON.stringify({
                 party_context: "User", // This might need to be passed in, but for now default or infer? Original code didn't pass it clearly in GET params
                 history: text, // The 'text' arg seems to be history or context. Original code encoded it as 'text'.
@@ -50,8 +54,10 @@ export async function getPhrasePredictions(
         if (!response.ok) return [];
 
         const data = await response.json();
+        usageTracker.record('predictions', data.usage, data.servedBy);
         return data.phrases ? data.phrases.map((p: string) => ({ phrase: p, probability: 1.0 })) : []; // Adapt response format
     } catch (error) {
+        if (isAbortError(error)) return [];
         console.error('Phrase prediction error:', error);
         return [];
     }
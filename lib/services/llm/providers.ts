@@ -0,0 +1,26 @@
+/**
+ * Provider Service
+ * Keeps the client's view of server-held provider keys up to date
+ */
+
+import { apiClient } from '@/lib/utils/api-client';
+import { SERVER_PROVIDERS_KEY, getServerProviderStatus, type ServerProviderStatus } from '@/lib/config/llm-config';
+
+export const providerService = {
+    /**
+     * Fetch which providers the server has keys for and cache it for the synchronous config helpers.
+     * Keeps the previous status when the server can't be reached.
+     */
+    async refreshServerStatus(): Promise<ServerProviderStatus> {
+        try {
+            const status = await apiClient.get<ServerProviderStatus>('/api/ai/providers');
+            localStorage.setItem(SERVER_PROVIDERS_KEY, JSON.stringify({
+                providers: Array.isArray(status.providers) ? status.providers : [],
+                keysOnly: !!status.keysOnly
+            }));
+        } catch (error) {
+            console.warn('Could not load server provider status:', error);
+        }
+        return getServerProviderStatus();
+    }
+};
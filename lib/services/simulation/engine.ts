@@ -0,0 +1,161 @@
+/**
+ * Simulation Engine
+ * Runs autoplay cycles (Party A speaks, Party B answers) without any UI. Each step is injected,
+ * so the same loop drives the visible autoplay in `useSimulationManager` (typing, audio) and
+ * headless batch runs in /api/ai/dialogue, which call the providers directly and collect a transcript.
+ *
+ * With an evaluator step, each cycle ends with a check against the session's objective:
+ * the run stops once the goal is reached, and a looping conversation is steered (Party A's
+ * next line gets a direction) before it is given up on.
+ */
+
+import type { NotebookCitation } from '@/lib/ai/retrieval';
+
+export type SimulationRole = 'party_a' | 'party_b';
+
+export interface SimulationTurn {
+    role: SimulationRole;
+    content: string;
+    translations?: Record<string, string>;
+    citations?: NotebookCitation[];
+}
+
+export type SimulationStep =
+    | 'generating_party_a'
+    | 'delivering_party_a'
+    | 'generating_party_b'
+    | 'presenting_party_b'
+    | 'evaluating';
+
+export type SimulationStopReason =
+    | 'max_cycles'
+    | 'aborted'
+    | 'no_message'  // Party A generation returned nothing
+    | 'no_response' // Party B did not answer
+    | 'goal_reached'
+    | 'looping'     // Still going in circles after steering
+    | 'error';
+
+export interface SimulationEvaluation {
+    status: 'continue' | 'goal_reached' | 'looping';
+    reason?: string;
+    steer?: string; // Direction for Party A's next line
+}
+
+export interface SimulationSteps {
+    // `steer` is the evaluator's direction for this line, if any
+    generatePartyA: (transcript: SimulationTurn[], signal: AbortSignal, steer?: string) => Promise<string | null>;
+    // Hand Party A's message over (UI: type, submit, play); null cancels the run. Defaults to the plain text.
+    deliverPartyA?: (text: string, transcript: SimulationTurn[], signal: AbortSignal) => Promise<SimulationTurn | null>;
+    generatePartyB: (message: string, transcript: SimulationTurn[], signal: AbortSignal) => Promise<SimulationTurn | null>;
+    // Show or play Party B's answer before the next cycle
+    presentPartyB?: (turn: SimulationTurn, signal: AbortSignal) => Promise<void>;
+    // Judge the conversation after each cycle; null (e.g. the evaluator is unavailable) means continue
+    evaluateCycle?: (transcript: SimulationTurn[], cycle: number, signal: AbortSignal) => Promise<SimulationEvaluation | null>;
+}
+
+export interface SimulationOptions {
+    maxCycles: number;
+    signal?: AbortSignal;
+    transcript?: SimulationTurn[]; // Conversation so far; new turns are appended to a copy
+    cycleDelayMs?: number;         // Pause between cycles
+    waitIfPaused?: () => Promise<void>;
+    maxSteers?: number;            // Consecutive 'looping' verdicts steered before stopping (default 2)
+    onStep?: (step: SimulationStep, cycle: number) => void; // `cycle` is 1-based
+    onTurn?: (turn: SimulationTurn, transcript: SimulationTurn[]) => void;
+    onEvaluation?: (evaluation: SimulationEvaluation, cycle: number) => void;
+}
+
+export interface SimulationResult {
+    transcript: SimulationTurn[];
+    cycles: number; // Completed Party A/Party B exchanges
+    stopReason: SimulationStopReason;
+    evaluation?: SimulationEvaluation; // Latest verdict, when there is an evaluator
+    error?: string;
+}
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+    }, { once: true });
+});
+
+/**
+ * Run up to `maxCycles` exchanges. Never throws: failures and cancellation end the run
+ * with the transcript collected so far and the reason it stopped.
+ */
+export async function runSimulation(steps: SimulationSteps, options: SimulationOptions): Promise<SimulationResult> {
+    const signal = options.signal ?? new AbortController().signal;
+    const transcript = [...(options.transcript ?? [])];
+    const maxSteers = options.maxSteers ?? 2;
+    let cycles = 0;
+    let evaluation: SimulationEvaluation | undefined;
+    let steer: string | undefined;
+    let steers = 0;
+
+    const finish = (stopReason: SimulationStopReason, error?: string): SimulationResult =>
+        ({ transcript, cycles, stopReason: signal.aborted ? 'aborted' : stopReason, evaluation, error });
+
+    const append = (turn: SimulationTurn) => {
+        transcript.push(turn);
+        options.onTurn?.(turn, transcript);
+    };
+
+    // Resolves false once the run was cancelled
+    const proceed = async () => {
+        await options.waitIfPaused?.();
+        return !signal.aborted;
+    };
+
+    try {
+        while (cycles < options.maxCycles) {
+            if (!await proceed()) return finish('aborted');
+            const cycle = cycles + 1;
+
+            options.onStep?.('generating_party_a', cycle);
+            const message = (await steps.generatePartyA(transcript, signal, steer))?.trim();
+            if (signal.aborted) return finish('aborted');
+            if (!message) return finish('no_message');
+
+            options.onStep?.('delivering_party_a', cycle);
+            const partyATurn = steps.deliverPartyA
+                ? await steps.deliverPartyA(message, transcript, signal)
+                : { role: 'party_a' as const, content: message };
+            if (!partyATurn || !await proceed()) return finish('aborted');
+            append(partyATurn);
+
+            options.onStep?.('generating_party_b', cycle);
+            const partyBTurn = await steps.generatePartyB(partyATurn.content, transcript, signal);
+            if (signal.aborted) return finish('aborted');
+            if (!partyBTurn?.content.trim()) return finish('no_response');
+            append(partyBTurn);
+
+            options.onStep?.('presenting_party_b', cycle);
+            await steps.presentPartyB?.(partyBTurn, signal);
+            cycles = cycle;
+
+            if (steps.evaluateCycle) {
+                if (!await proceed()) return finish('aborted');
+                options.onStep?.('evaluating', cycle);
+                const verdict = await steps.evaluateCycle(transcript, cycle, signal);
+                if (signal.aborted) return finish('aborted');
+                if (verdict) {
+                    evaluation = verdict;
+                    options.onEvaluation?.(verdict, cycle);
+                    if (verdict.status === 'goal_reached') return finish('goal_reached');
+                    steers = verdict.status === 'looping' ? steers + 1 : 0;
+                    if (steers > maxSteers) return finish('looping');
+                }
+                steer = verdict?.steer?.trim() || undefined;
+            }
+
+            if (cycles < options.maxCycles) await delay(options.cycleDelayMs ?? 0, signal);
+        }
+        return finish('max_cycles');
+    } catch (error) {
+        return finish('error', error instanceof Error ? error.message : String(error));
+    }
+}
@@ -6,6 +6,8 @@
 import { TranslationProvider } from './types';
 import { API_BASE_URL } from '@/lib/config/api';
 import { getLLMHeaders } from '@/lib/config/llm-config';
+import { isAbortError } from '@/lib/utils/api-client';
+import { usageTracker } from '@/lib/utils/usage-tracker';
 
 
 export class APITranslationProvider implements TranslationProvider {
@@ -47,7 +49,8 @@ export class APITranslationProvider implements TranslationProvider {
     async translateMultiple(
         text: string,
         sourceLang: string,
-        targetLangs: string[]
+        targetLangs: string[],
+        signal?: AbortSignal
     ): Promise<Record<string, string>> {
         if (!text || targetLangs.length === 0) return {};
 
@@ -55,12 +58,13 @@ export class APITranslationProvider implements TranslationProvider {
             const headers: Record<string, string> = {
                 'Content-Type': 'application/json',
                 'ngrok-skip-browser-warning': 'true',
-                ...getLLMHeaders()
+                ...getLLMHeaders('translation')
             };
 
             const response = await fetch(`${API_BASE_URL}/api/ai/translate/multiple`, {
                 method: 'POST',
                 headers,
+                signal,
                 body: JSON.stringify({
                     text,
                     source_lang: sourceLang,
@@ -73,8 +77,10 @@ export class APITranslationProvider implements TranslationProvider {
             }
 
             const data = await response.json();
+            usageTracker.record('translation', data.usage, data.servedBy);
             return data.translations || {};
         } catch (error) {
+            if (isAbortError(error)) return {};
             console.error('API multi-translation error:', error);
             return {};
         }
@@ -9,11 +9,12 @@ export interface TranslationProvider {
     /** Translate text from source language to target language */
     translate(text: string, sourceLang: string, targetLang: string): Promise<string>;
 
-    /** Translate text to multiple target languages */
+    /** Translate text to multiple target languages; aborting `signal` cancels the request */
     translateMultiple(
         text: string,
         sourceLang: string,
-        targetLangs: string[]
+        targetLangs: string[],
+        signal?: AbortSignal
     ): Promise<Record<string, string>>;
 
     /** Check if provider is available/supported */
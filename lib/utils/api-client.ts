@@ -1,20 +1,46 @@
 /**
  * API Client for Backend Communication
+ *
+ * Pass `signal` in options to cancel a request; the fetch rejects with an AbortError.
  */
 
 import { API_BASE_URL } from '../config/api';
 
+/**
+ * True when a request was cancelled through its AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Error text from a failed request: the route's JSON error, the raw body, or the status
+const readErrorMessage = async (response: Response) => {
+    let errorMessage = `Request failed (${response.status} ${response.statusText})`;
+    try {
+        const raw = await response.text();
+        if (raw) {
+            try {
+                const data = JSON.parse(raw);
+                errorMessage = data.error || data.message || errorMessage;
+            } catch {
+                errorMessage = raw;
+            }
+        }
+    } catch { }
+    return errorMessage;
+};
+
 export const apiClient = {
     /**
      * GET request
      */
     get: async <T = any>(endpoint: string, options: RequestInit = {}): Promise<T> => {
         const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+            ...options,
             headers: {
                 'ngrok-skip-browser-warning': 'true',
                 ...options.headers,
-            },
-            ...options
+            }
         });
         if (!response.ok) {
             throw new Error(`API error: ${response.statusText}`);
@@ -27,14 +53,14 @@ export const apiClient = {
      */
     post: async  <T = any>(endpoint: string, data: any, options: RequestInit = {}): Promise<T> => {
         const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+            ...options,
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'ngrok-skip-browser-warning': 'true',
                 ...options.headers,
             },
-            body: JSON.stringify(data),
-            ...options
+            body: JSON.stringify(data)
         });
         if (!response.ok) {
             throw new Error(`API error: ${response.statusText}`);
@@ -43,21 +69,22 @@ export const apiClient = {
     },
 
     /**
-     * POST request with streaming response
+     * POST request with streaming response; a failed request throws with the route's JSON error,
+     * the raw body, or the status
      */
     postStream: async (endpoint: string, data: any, options: RequestInit = {}): Promise<Response> => {
         const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+            ...options,
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'ngrok-skip-browser-warning': 'true',
                 ...options.headers,
             },
-            body: JSON.stringify(data),
-            ...options
+            body: JSON.stringify(data)
         });
         if (!response.ok) {
-            throw new Error(`API error: ${response.statusText}`);
+            throw new Error(await readErrorMessage(response));
         }
         return response;
     }
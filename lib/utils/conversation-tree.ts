@@ -0,0 +1,128 @@
+/**
+ * Conversation Trees
+ * Turns are kept as a tree: rewinding to an earlier turn and then editing a Party A message or
+ * regenerating a Party B reply starts a sibling branch instead of overwriting what came after.
+ * The active branch (root down to `activeId`) is the linear history the rest of the app uses,
+ * so respond/autoplay only ever see that branch.
+ */
+
+import type { SessionHistoryItem } from './session-storage';
+
+export interface ConversationNode extends SessionHistoryItem {
+    id: string;
+    parentId: string | null; // null for opening turns
+}
+
+export interface ConversationTree {
+    nodes: ConversationNode[]; // Creation order, so children are listed oldest first
+    activeId: string | null;   // Last turn of the active branch; null when rewound to the start
+}
+
+const createNodeId = () => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+const toNode = ({ role, content, translations }: SessionHistoryItem, parentId: string | null): ConversationNode => ({
+    id: createNodeId(),
+    parentId,
+    role,
+    content,
+    ...(translations ? { translations } : {})
+});
+
+/**
+ * A single-branch tree holding `history`
+ */
+export const createConversationTree = (history: SessionHistoryItem[] = []): ConversationTree => {
+    const nodes: ConversationNode[] = [];
+    for (const item of history) nodes.push(toNode(item, nodes[nodes.length - 1]?.id ?? null));
+    return { nodes, activeId: nodes[nodes.length - 1]?.id ?? null };
+};
+
+export const getNode = (tree: ConversationTree, id: string | null) =>
+    id ? tree.nodes.find(node => node.id === id) ?? null : null;
+
+export const getChildren = (tree: ConversationTree, parentId: string | null) =>
+    tree.nodes.filter(node => node.parentId === parentId);
+
+/**
+ * Turns of the active branch, first to last
+ */
+export const getActivePath = (tree: ConversationTree): ConversationNode[] => {
+    const path: ConversationNode[] = [];
+    for (let node = getNode(tree, tree.activeId); node; node = getNode(tree, node.parentId)) path.unshift(node);
+    return path;
+};
+
+export const getActiveHistory = (tree: ConversationTree): SessionHistoryItem[] =>
+    getActivePath(tree).map(({ role, content, translations }) => ({ role, content, ...(translations ? { translations } : {}) }));
+
+/**
+ * Add a turn after the active one; it becomes the end of the active branch
+ */
+export const appendTurn = (tree: ConversationTree, item: SessionHistoryItem): ConversationTree => {
+    const node = toNode(item, tree.activeId);
+    return { nodes: [...tree.nodes, node], activeId: node.id };
+};
+
+/**
+ * Make `id` the last turn of the active branch (null: before the first turn). Later turns stay in the tree.
+ */
+export const rewindTo = (tree: ConversationTree, id: string | null): ConversationTree =>
+    id === null || getNode(tree, id) ? { ...tree, activeId: id } : tree;
+
+/**
+ * Switch to the branch through `id`, continuing down its most recent turns
+ */
+export const switchBranch = (tree: ConversationTree, id: string): ConversationTree => {
+    let node = getNode(tree, id);
+    if (!node) return tree;
+    for (let children = getChildren(tree, node.id); children.length > 0; children = getChildren(tree, node.id)) {
+        node = children[children.length - 1];
+    }
+    return { ...tree, activeId: node.id };
+};
+
+/**
+ * Alternatives at a turn: the node and its siblings, with the node's position among them
+ */
+export const getAlternatives = (tree: ConversationTree, id: string) => {
+    const node = getNode(tree, id);
+    const siblings = node ? getChildren(tree, node.parentId) : [];
+    return { siblings, index: siblings.findIndex(sibling => sibling.id === id) };
+};
+
+export const hasBranches = (tree: ConversationTree) => {
+    const parents = tree.nodes.map(node => node.parentId);
+    return new Set(parents).size < parents.length;
+};
+
+/**
+ * Validate a stored or imported tree; undefined when it is malformed
+ */
+export const readConversationTree = (raw: unknown): ConversationTree | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const { nodes, activeId } = raw as { nodes?: unknown; activeId?: unknown };
+    if (!Array.isArray(nodes)) return undefined;
+
+    const ids = new Set<string>();
+    const valid: ConversationNode[] = [];
+    for (const item of nodes) {
+        const node = item as Partial<ConversationNode> | null;
+        if (!node || typeof node.id !== 'string' || typeof node.role !== 'string' || typeof node.content !== 'string') return undefined;
+        // Parents come before their children
+        const parentId = typeof node.parentId === 'string' && ids.has(node.parentId) ? node.parentId : null;
+        ids.add(node.id);
+        valid.push({
+            id: node.id,
+            parentId,
+            role: node.role,
+            content: node.content,
+            ...(node.translations && typeof node.translations === 'object' ? { translations: node.translations } : {})
+        });
+    }
+    return { nodes: valid, activeId: typeof activeId === 'string' && ids.has(activeId) ? activeId : null };
+};
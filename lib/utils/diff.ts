@@ -0,0 +1,91 @@
+/**
+ * Line diff for comparing notebook revisions side by side
+ */
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+    number: number; // 1-based line number in its own text
+    text: string;
+}
+
+export interface DiffRow {
+    type: DiffRowType;
+    left?: DiffLine;  // Line in the older text
+    right?: DiffLine; // Line in the newer text
+}
+
+type Op = { type: 'same' | 'removed' | 'added'; left?: number; right?: number };
+
+/**
+ * Longest-common-subsequence edit script over lines (inputs are notebook-sized)
+ */
+const diffOps = (a: string[], b: string[]): Op[] => {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const ops: Op[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push({ type: 'same', left: i++, right: j++ });
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            ops.push({ type: 'removed', left: i++ });
+        } else {
+            ops.push({ type: 'added', right: j++ });
+        }
+    }
+    while (i < a.length) ops.push({ type: 'removed', left: i++ });
+    while (j < b.length) ops.push({ type: 'added', right: j++ });
+    return ops;
+};
+
+/**
+ * Align two texts into side-by-side rows. Runs of removed lines followed by added
+ * lines are paired up as 'changed' rows so edits read across.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index] });
+
+    const rows: DiffRow[] = [];
+    const ops = diffOps(a, b);
+    let k = 0;
+    while (k < ops.length) {
+        if (ops[k].type === 'same') {
+            rows.push({ type: 'same', left: line(a, ops[k].left!), right: line(b, ops[k].right!) });
+            k++;
+            continue;
+        }
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (k < ops.length && ops[k].type !== 'same') {
+            if (ops[k].type === 'removed') removed.push(ops[k].left!);
+            else added.push(ops[k].right!);
+            k++;
+        }
+        for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+            const left = removed[n] !== undefined ? line(a, removed[n]) : undefined;
+            const right = added[n] !== undefined ? line(b, added[n]) : undefined;
+            rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+        }
+    }
+    return rows;
+};
+
+export const summarizeDiff = (rows: DiffRow[]) => rows.reduce(
+    (summary, row) => {
+        if (row.left && row.type !== 'same') summary.removed++;
+        if (row.right && row.type !== 'same') summary.added++;
+        return summary;
+    },
+    { added: 0, removed: 0 }
+);
@@ -0,0 +1,358 @@
+/**
+ * Document Import
+ * Turns files into notebooks and sessions: Markdown and plain text notes, exported JSON bundles
+ * and session files, and conversation transcripts ("Speaker: line" text or JSON messages).
+ * Everything is validated before it is written; ids already in storage are reported as duplicates.
+ */
+
+import { getNotebookById, importNotebook, type NotebookDoc, type NotebookRevision } from './notebook-storage';
+import { getSessionById, upsertSession, type SessionDoc, type SessionHistoryItem } from './session-storage';
+import { normalizeFolder, parseTags } from './notebook-collections';
+import { getActiveHistory, hasBranches, readConversationTree } from './conversation-tree';
+import { NOTEBOOK_BUNDLE_FORMAT, NOTEBOOK_BUNDLE_VERSION, NOTEBOOK_COLLECTION_FORMAT } from './notebook-export';
+
+export type ImportItem =
+    | { kind: 'notebook'; doc: NotebookDoc; fileName: string }
+    | { kind: 'session'; doc: SessionDoc; fileName: string };
+
+export type DuplicateStrategy = 'skip' | 'replace' | 'copy';
+
+export class ImportError extends Error {
+    constructor(public fileName: string, message: string) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+export const IMPORT_FILE_ACCEPT = '.md,.markdown,.txt,.json';
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+const createImportId = () => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+export const importItemKey = (item: ImportItem) => `${item.kind}:${item.doc.id}`;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const isoDate = (value: unknown, fallback: string) =>
+    typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : fallback;
+
+const requireString = (value: unknown, field: string) => {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`"${field}" must be a non-empty string`);
+    return value;
+};
+
+const validateNotebook = (raw: unknown): NotebookDoc => {
+    if (!isObject(raw)) throw new Error('notebook must be an object');
+    const now = new Date().toISOString();
+    const createdAt = isoDate(raw.createdAt, now);
+    const source = isObject(raw.source) ? {
+        partyAContext: optionalString(raw.source.partyAContext),
+        partyBContext: optionalString(raw.source.partyBContext),
+        messageCount: typeof raw.source.messageCount === 'number' ? raw.source.messageCount : undefined,
+        sessionId: optionalString(raw.source.sessionId)
+    } : undefined;
+    const revisions = Array.isArray(raw.revisions)
+        ? raw.revisions.filter((item): item is NotebookRevision =>
+            isObject(item) && typeof item.id === 'string' && typeof item.content === 'string'
+            && typeof item.createdAt === 'string' && typeof item.origin === 'string')
+        : undefined;
+    const tags = Array.isArray(raw.tags)
+        ? parseTags(raw.tags.filter((item): item is string => typeof item === 'string').join(','))
+        : [];
+
+    return {
+        id: requireString(raw.id, 'notebook.id'),
+        title: optionalString(raw.title)?.trim() || 'Untitled Notebook',
+        content: requireString(raw.content, 'notebook.content'),
+        createdAt,
+        updatedAt: isoDate(raw.updatedAt, createdAt),
+        source,
+        usage: isObject(raw.usage) ? raw.usage as unknown as NotebookDoc['usage'] : undefined,
+        revisions: revisions?.length ? revisions : undefined,
+        folder: normalizeFolder(optionalString(raw.folder) ?? '') || undefined,
+        tags: tags.length > 0 ? tags : undefined
+    };
+};
+
+const validateParty = (raw: unknown, field: string) => {
+    if (!isObject(raw)) throw new Error(`"${field}" must be an object`);
+    const languages = Array.isArray(raw.languages) ? raw.languages.filter((item): item is string => typeof item === 'string') : [];
+    return { context: optionalString(raw.context) ?? '', languages: languages.length > 0 ? languages : ['en'] };
+};
+
+const validateHistory = (raw: unknown): SessionHistoryItem[] => {
+    if (!Array.isArray(raw)) throw new Error('"history" must be an array');
+    return raw.map((item, index) => {
+        if (!isObject(item) || typeof item.content !== 'string') {
+            throw new Error(`history[${index}] needs a "content" string`);
+        }
+        if (item.role !== 'party_a' && item.role !== 'party_b') {
+            throw new Error(`history[${index}].role must be "party_a" or "party_b"`);
+        }
+        const translations = isObject(item.translations)
+            ? Object.fromEntries(Object.entries(item.translations).filter(([, value]) => typeof value === 'string')) as Record<string, string>
+            : undefined;
+        return { role: item.role, content: item.content, translations };
+    });
+};
+
+const validateSession = (raw: unknown): SessionDoc => {
+    if (!isObject(raw)) throw new Error('session must be an object');
+    const now = new Date().toISOString();
+    const createdAt = isoDate(raw.createdAt, now);
+    // A branched session's history is its tree's active branch
+    const tree = readConversationTree(raw.tree);
+    return {
+        id: requireString(raw.id, 'session.id'),
+        title: optionalString(raw.title)?.trim() || 'Imported session',
+        createdAt,
+        updatedAt: isoDate(raw.updatedAt, createdAt),
+        partyA: validateParty(raw.partyA, 'partyA'),
+        partyB: validateParty(raw.partyB, 'partyB'),
+        history: tree ? getActiveHistory(tree) : validateHistory(raw.history),
+        tree: tree && hasBranches(tree) ? tree : undefined,
+        notebookId: optionalString(raw.notebookId)
+    };
+};
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+// FNV-1a; gives text imports a stable id so importing the same file twice is caught as a duplicate
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').trim() || 'Imported';
+
+const notebookFromText = (fileName: string, text: string): NotebookDoc => {
+    const content = text.trim();
+    const now = new Date().toISOString();
+    return {
+        id: `import-${hashText(`notebook:${content}`)}`,
+        title: content.match(/^#\s+(.+)$/m)?.[1].trim() || baseName(fileName),
+        content,
+        createdAt: now,
+        updatedAt: now
+    };
+};
+
+interface TranscriptLine {
+    speaker: string;
+    content: string;
+}
+
+const SPEAKER_LINE = /^\s*(\p{L}[\p{L}\p{N} .'_-]{0,39}):\s+(.+)$/u;
+
+/**
+ * "Speaker: line" transcript, or null when the text does not read as a two-person conversation.
+ * Lines without a speaker continue the previous message.
+ */
+const parseTextTranscript = (text: string): TranscriptLine[] | null => {
+    const lines: TranscriptLine[] = [];
+    let unattributed = 0;
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        const match = line.match(SPEAKER_LINE);
+        if (match) {
+            lines.push({ speaker: match[1].trim(), content: match[2].trim() });
+        } else if (lines.length > 0) {
+            lines[lines.length - 1].content += `\n${line.trim()}`;
+            unattributed++;
+        } else {
+            unattributed++;
+        }
+    }
+    const speakers = new Set(lines.map(line => line.speaker.toLowerCase()));
+    const looksLikeDialogue = lines.length >= 2 && speakers.size === 2 && lines.length >= unattributed;
+    return looksLikeDialogue ? lines : null;
+};
+
+// JSON transcript: [{speaker|role|name, text|content|message}] or { messages: [...] }
+const parseJsonTranscript = (raw: unknown): TranscriptLine[] | null => {
+    const messages = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.messages) ? raw.messages : null;
+    if (!messages) return null;
+    return messages.map((item, index) => {
+        if (!isObject(item)) throw new Error(`message ${index + 1} must be an object`);
+        const speaker = optionalString(item.speaker) ?? optionalString(item.role) ?? optionalString(item.name);
+        const content = optionalString(item.text) ?? optionalString(item.content) ?? optionalString(item.message);
+        if (!speaker || content === undefined) {
+            throw new Error(`message ${index + 1} needs a speaker/role and text/content`);
+        }
+        return { speaker, content };
+    });
+};
+
+// Fixed role names map directly; anything else is assigned party A/B in order of appearance
+const ROLE_ALIASES: Record<string, SessionHistoryItem['role']> = {
+    party_a: 'party_a', user: 'party_a', a: 'party_a',
+    party_b: 'party_b', assistant: 'party_b', b: 'party_b'
+};
+
+const sessionFromTranscript = (fileName: string, text: string, lines: TranscriptLine[]): SessionDoc => {
+    const speakers: string[] = [];
+    for (const { speaker } of lines) {
+        if (!ROLE_ALIASES[speaker.toLowerCase()] && !speakers.includes(speaker)) speakers.push(speaker);
+    }
+    if (speakers.length > 2) {
+        throw new Error(`transcripts need two speakers; found ${speakers.length} (${speakers.slice(0, 4).join(', ')})`);
+    }
+    const roleOf = (speaker: string) => ROLE_ALIASES[speaker.toLowerCase()] ?? (speakers.indexOf(speaker) === 0 ? 'party_a' : 'party_b');
+    const nameOf = (role: SessionHistoryItem['role']) =>
+        lines.find(line => roleOf(line.speaker) === role && !ROLE_ALIASES[line.speaker.toLowerCase()])?.speaker ?? '';
+
+    const now = new Date().toISOString();
+    return {
+        id: `import-${hashText(`session:${text}`)}`,
+        title: baseName(fileName),
+        createdAt: now,
+        updatedAt: now,
+        partyA: { context: nameOf('party_a'), languages: ['en'] },
+        partyB: { context: nameOf('party_b'), languages: ['en'] },
+        history: lines.map(line => ({ role: roleOf(line.speaker), content: line.content }))
+    };
+};
+
+const parseJson = (fileName: string, text: string): ImportItem[] => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('not valid JSON');
+    }
+
+    // Bundle from the notebook exporter
+    if (isObject(raw) && (raw.format === NOTEBOOK_BUNDLE_FORMAT || raw.format === NOTEBOOK_COLLECTION_FORMAT)) {
+        if (typeof raw.version !== 'number' || raw.version > NOTEBOOK_BUNDLE_VERSION) {
+            throw new Error(`bundle version ${String(raw.version)} is newer than this app supports`);
+        }
+        if (raw.format === NOTEBOOK_COLLECTION_FORMAT) {
+            if (!Array.isArray(raw.notebooks)) throw new Error('"notebooks" must be an array');
+            return raw.notebooks.map(notebook => ({ kind: 'notebook' as const, doc: validateNotebook(notebook), fileName }));
+        }
+        const items: ImportItem[] = [{ kind: 'notebook', doc: validateNotebook(raw.notebook), fileName }];
+        if (raw.conversation) items.push({ kind: 'session', doc: validateSession(raw.conversation), fileName });
+        return items;
+    }
+    // Session download from /session/[id]
+    if (isObject(raw) && 'partyA' in raw && 'history' in raw) {
+        return [{ kind: 'session', doc: validateSession(raw), fileName }];
+    }
+    // Bare notebook document
+    if (isObject(raw) && typeof raw.content === 'string' && typeof raw.id === 'string') {
+        return [{ kind: 'notebook', doc: validateNotebook(raw), fileName }];
+    }
+    const transcript = parseJsonTranscript(raw);
+    if (transcript) {
+        if (transcript.length === 0) throw new Error('transcript has no messages');
+        return [{ kind: 'session', doc: sessionFromTranscript(fileName, text, transcript), fileName }];
+    }
+    throw new Error('unrecognized JSON: expected a notebook bundle, session, or transcript');
+};
+
+/**
+ * Parse one file into importable documents; throws ImportError with a readable reason
+ */
+export const parseImportFile = (fileName: string, text: string): ImportItem[] => {
+    try {
+        if (!text.trim()) throw new Error('file is empty');
+        const extension = fileName.split('.').pop()?.toLowerCase();
+        if (extension === 'json') return parseJson(fileName, text);
+        if (extension === 'md' || extension === 'markdown') {
+            return [{ kind: 'notebook', doc: notebookFromText(fileName, text), fileName }];
+        }
+        if (extension === 'txt') {
+            const transcript = parseTextTranscript(text);
+            return transcript
+                ? [{ kind: 'session', doc: sessionFromTranscript(fileName, text, transcript), fileName }]
+                : [{ kind: 'notebook', doc: notebookFromText(fileName, text), fileName }];
+        }
+        throw new Error(`unsupported file type; use ${IMPORT_FILE_ACCEPT}`);
+    } catch (error) {
+        if (error instanceof ImportError) throw error;
+        throw new ImportError(fileName, error instanceof Error ? error.message : String(error));
+    }
+};
+
+export const readImportFiles = async (files: File[]) => {
+    const items: ImportItem[] = [];
+    const errors: ImportError[] = [];
+    for (const file of files) {
+        try {
+            if (file.size > MAX_IMPORT_BYTES) throw new ImportError(file.name, 'file is larger than 5 MB');
+            items.push(...parseImportFile(file.name, await file.text()));
+        } catch (error) {
+            errors.push(error instanceof ImportError ? error : new ImportError(file.name, String(error)));
+        }
+    }
+    return { items, errors };
+};
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Keys (see importItemKey) of items whose id is already in storage
+ */
+export const findDuplicates = async (items: ImportItem[]): Promise<Set<string>> => {
+    const duplicates = new Set<string>();
+    for (const item of items) {
+        const existing = item.kind === 'notebook' ? await getNotebookById(item.doc.id) : await getSessionById(item.doc.id);
+        if (existing) duplicates.add(importItemKey(item));
+    }
+    return duplicates;
+};
+
+/**
+ * Write items, resolving duplicates with `strategy`. Copies get fresh ids, and links between
+ * items from the same bundle (notebook source session, session notebook) follow them.
+ */
+export const importItems = async (items: ImportItem[], duplicates: Set<string>, strategy: DuplicateStrategy) => {
+    const idMap = new Map<string, string>();
+    const toWrite = items.filter(item => {
+        if (!duplicates.has(importItemKey(item))) return true;
+        if (strategy === 'copy') idMap.set(item.doc.id, createImportId());
+        return strategy !== 'skip';
+    });
+    const remap = (id: string) => idMap.get(id) ?? id;
+    const remapLink = (id: string | undefined) => id && remap(id);
+
+    for (const item of toWrite) {
+        const copied = idMap.has(item.doc.id);
+        const title = copied ? `${item.doc.title} (imported)` : item.doc.title;
+        if (item.kind === 'notebook') {
+            const { doc } = item;
+            await importNotebook({
+                ...doc,
+                id: remap(doc.id),
+                title,
+                source: doc.source && { ...doc.source, sessionId: remapLink(doc.source.sessionId) }
+            }, item.fileName);
+        } else {
+            const { doc } = item;
+            await upsertSession({ ...doc, id: remap(doc.id), title, notebookId: remapLink(doc.notebookId) });
+        }
+    }
+    return { imported: toWrite.length, skipped: items.length - toWrite.length };
+};
@@ -0,0 +1,298 @@
+/**
+ * Document Store
+ * Per-document persistence for notebooks and sessions. Uses IndexedDB (one record per document,
+ * off the main thread) and falls back to a single localStorage array where IndexedDB is unavailable.
+ * Data from the old localStorage keys is migrated into IndexedDB on first open.
+ *
+ * Failures are reported through `storageStatus` so the UI can tell the user, then rethrown.
+ */
+
+export interface StoredDocument {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DocumentStore<T extends StoredDocument> {
+    /** All documents, newest first */
+    list(): Promise<T[]>;
+    get(id: string): Promise<T | null>;
+    put(doc: T): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'unknown';
+
+export class StorageError extends Error {
+    constructor(public kind: StorageErrorKind, message: string, public cause?: unknown) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+export interface StorageIssue {
+    kind: StorageErrorKind;
+    message: string;
+    /** Bytes used / available for this origin when the browser reports it */
+    usage?: number;
+    quota?: number;
+}
+
+type IssueListener = (issue: StorageIssue | null) => void;
+
+/**
+ * Latest storage problem, shared by every store so one banner can surface it
+ */
+class StorageStatus {
+    private issue: StorageIssue | null = null;
+    private listeners = new Set<IssueListener>();
+
+    async report(error: StorageError) {
+        const issue: StorageIssue = { kind: error.kind, message: error.message };
+        if (error.kind === 'quota' && typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+            try {
+                const { usage, quota } = await navigator.storage.estimate();
+                issue.usage = usage;
+                issue.quota = quota;
+            } catch {
+                // Estimate is best effort
+            }
+        }
+        this.issue = issue;
+        this.listeners.forEach(listener => listener(issue));
+    }
+
+    clear() {
+        this.issue = null;
+        this.listeners.forEach(listener => listener(null));
+    }
+
+    getIssue() {
+        return this.issue;
+    }
+
+    subscribe(listener: IssueListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export const storageStatus = new StorageStatus();
+
+const isQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Normalize a failure, report it and hand back the error to throw
+ */
+const fail = (error: unknown, action: string): StorageError => {
+    const storageError = error instanceof StorageError
+        ? error
+        : isQuotaError(error)
+            ? new StorageError('quota', `Browser storage is full; could not ${action}. Delete old notebooks or sessions to free space.`, error)
+            : new StorageError('unknown', `Could not ${action}: ${error instanceof Error ? error.message : String(error)}`, error);
+    console.error(storageError.message, error);
+    void storageStatus.report(storageError);
+    return storageError;
+};
+
+const newestFirst = <T extends StoredDocument>(docs: T[]) =>
+    docs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+const DB_NAME = 'convolab';
+const DB_VERSION = 2;
+
+// Object stores and the localStorage keys their data used to live under (also the fallback's keys)
+export const STORE_LEGACY_KEYS = {
+    notebooks: 'convolab_notebooks',
+    sessions: 'convolab_sessions',
+    notebookRevisions: 'convolab_notebook_revisions'
+} as const;
+
+export type StoreName = keyof typeof STORE_LEGACY_KEYS;
+
+const promisify = <R>(request: IDBRequest<R>) => new Promise<R>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+/**
+ * Copy documents from the old localStorage array into IndexedDB, then drop the key.
+ * The key is only removed after the write commits, so an interrupted migration retries next time.
+ */
+const migrateLegacyKey = async (db: IDBDatabase, storeName: StoreName) => {
+    const legacyKey = STORE_LEGACY_KEYS[storeName];
+    const raw = localStorage.getItem(legacyKey);
+    if (!raw) return;
+
+    let docs: unknown;
+    try {
+        docs = JSON.parse(raw);
+    } catch (error) {
+        console.warn(`Skipping migration of unreadable ${legacyKey}`, error);
+        return;
+    }
+
+    if (Array.isArray(docs)) {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        for (const doc of docs) {
+            if (doc && typeof doc.id === 'string') store.put(doc);
+        }
+        await transactionDone(tx);
+    }
+    localStorage.removeItem(legacyKey);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.keys(STORE_LEGACY_KEYS)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // A newer version opening in another tab waits on this connection; let it go and reopen on next use
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new StorageError('unavailable', 'Storage is blocked by another open tab; close it and reload.'));
+        }).then(async (db) => {
+            for (const name of Object.keys(STORE_LEGACY_KEYS) as StoreName[]) {
+                await migrateLegacyKey(db, name);
+            }
+            return db;
+        }).catch((error) => {
+            // Allow a later call to retry (e.g. after the blocking tab closes)
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+class IndexedDBStore<T extends StoredDocument> implements DocumentStore<T> {
+    constructor(private storeName: StoreName) { }
+
+    private async run<R>(mode: IDBTransactionMode, action: string, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+        try {
+            const db = await openDatabase();
+            const tx = db.transaction(this.storeName, mode);
+            const result = promisify(operation(tx.objectStore(this.storeName)));
+            await transactionDone(tx);
+            return await result;
+        } catch (error) {
+            throw fail(error, action);
+        }
+    }
+
+    async list(): Promise<T[]> {
+        return newestFirst(await this.run('readonly', `load ${this.storeName}`, store => store.getAll() as IDBRequest<T[]>));
+    }
+
+    async get(id: string): Promise<T | null> {
+        const doc = await this.run('readonly', `load from ${this.storeName}`, store => store.get(id) as IDBRequest<T | undefined>);
+        return doc ?? null;
+    }
+
+    async put(doc: T): Promise<void> {
+        await this.run('readwrite', `save to ${this.storeName}`, store => store.put(doc));
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.run('readwrite', `delete from ${this.storeName}`, store => store.delete(id));
+    }
+}
+
+// ============================================================================
+// localStorage fallback (whole array under one key, as before)
+// ============================================================================
+
+class LocalStorageStore<T extends StoredDocument> implements DocumentStore<T> {
+    constructor(private key: string) { }
+
+    private read(): T[] {
+        try {
+            const parsed = JSON.parse(localStorage.getItem(this.key) || '[]');
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            console.warn(`Failed to read ${this.key} from storage`, error);
+            return [];
+        }
+    }
+
+    private write(docs: T[], action: string) {
+        try {
+            localStorage.setItem(this.key, JSON.stringify(docs));
+        } catch (error) {
+            throw fail(error, action);
+        }
+    }
+
+    async list(): Promise<T[]> {
+        return newestFirst(this.read());
+    }
+
+    async get(id: string): Promise<T | null> {
+        return this.read().find(item => item.id === id) || null;
+    }
+
+    async put(doc: T): Promise<void> {
+        const docs = this.read();
+        const index = docs.findIndex(item => item.id === doc.id);
+        if (index >= 0) {
+            docs[index] = doc;
+        } else {
+            docs.unshift(doc);
+        }
+        this.write(docs, `save ${this.key}`);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.write(this.read().filter(item => item.id !== id), `delete from ${this.key}`);
+    }
+}
+
+// Server render: nothing is persisted
+class EmptyStore<T extends StoredDocument> implements DocumentStore<T> {
+    async list(): Promise<T[]> { return []; }
+    async get(): Promise<T | null> { return null; }
+    async put(): Promise<void> { }
+    async delete(): Promise<void> { }
+}
+
+/**
+ * Pick the best available backend for a document collection
+ */
+export function createDocumentStore<T extends StoredDocument>(storeName: StoreName): DocumentStore<T> {
+    if (typeof window === 'undefined') return new EmptyStore<T>();
+    if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB unavailable; storing documents in localStorage');
+        return new LocalStorageStore<T>(STORE_LEGACY_KEYS[storeName]);
+    }
+    return new IndexedDBStore<T>(storeName);
+}
@@ -0,0 +1,54 @@
+/**
+ * Markdown helpers shared by notebook generation (client and server)
+ */
+
+/**
+ * Remove a ```markdown fence some models wrap the whole document in
+ */
+export const stripMarkdownFence = (markdown: string) => {
+    return markdown
+        .trim()
+        .replace(/^```markdown\s*/i, '')
+        .replace(/```\s*$/, '')
+        .trim();
+};
+
+export interface MarkdownSection {
+    heading: string;
+    level: number;
+    start: number; // Offset of the heading line
+    end: number;   // Offset where the next heading of the same or higher level starts
+}
+
+/**
+ * Heading sections of a Markdown document, in order. A section includes its subsections;
+ * headings inside fenced code blocks are ignored.
+ */
+export const splitMarkdownSections = (markdown: string): MarkdownSection[] => {
+    const headings: Omit<MarkdownSection, 'end'>[] = [];
+    let offset = 0;
+    let inFence = false;
+    for (const line of markdown.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        } else if (!inFence) {
+            const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+            if (match) headings.push({ heading: match[2], level: match[1].length, start: offset });
+        }
+        offset += line.length + 1;
+    }
+
+    return headings.map((section, index) => {
+        const next = headings.slice(index + 1).find(item => item.level <= section.level);
+        return { ...section, end: next ? next.start : markdown.length };
+    });
+};
+
+/**
+ * Anchor id for a heading, shared by the rendered notebook and links into it
+ */
+export const slugifyHeading = (heading: string) => heading
+    .toLowerCase()
+    .replace(/[`*_~[\]()]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
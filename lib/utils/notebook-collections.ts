@@ -0,0 +1,133 @@
+/**
+ * Notebook Collections
+ * Folders ("/"-separated paths on `NotebookDoc.folder`) group notebooks into collections;
+ * tags are free-form labels. A collection can ground a conversation like a single notebook:
+ * it is shown as one synthetic document with a `collection:` id, and retrieval runs over its members.
+ */
+
+import { getNotebookById, loadNotebooks, upsertNotebook, type NotebookDoc } from './notebook-storage';
+import type { GroundingNotebook } from '@/lib/ai/retrieval';
+
+export const COLLECTION_ID_PREFIX = 'collection:';
+
+export interface NotebookCollection {
+    path: string;
+    name: string;  // Last path segment
+    depth: number;
+    count: number; // Notebooks in this folder and its subfolders
+}
+
+export const isCollectionId = (id: string) => id.startsWith(COLLECTION_ID_PREFIX);
+
+export const collectionId = (path: string) => `${COLLECTION_ID_PREFIX}${path}`;
+
+/**
+ * "  Spanish / Verbs/ " -> "Spanish/Verbs"; empty means unfiled
+ */
+export const normalizeFolder = (path: string) =>
+    path.split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+
+/**
+ * Comma-separated input -> trimmed, lowercased, de-duplicated tags (a leading "#" is dropped)
+ */
+export const parseTags = (input: string) =>
+    [...new Set(input.split(',').map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean))];
+
+export const isInCollection = (doc: NotebookDoc, path: string) =>
+    !!doc.folder && (doc.folder === path || doc.folder.startsWith(`${path}/`));
+
+/**
+ * Every folder used by a notebook, including parent folders, in tree order
+ */
+export const listCollections = (notebooks: NotebookDoc[]): NotebookCollection[] => {
+    const paths = new Set<string>();
+    for (const doc of notebooks) {
+        const segments = doc.folder?.split('/') ?? [];
+        segments.forEach((_, i) => paths.add(segments.slice(0, i + 1).join('/')));
+    }
+    return [...paths].sort((a, b) => a.localeCompare(b)).map(path => {
+        const segments = path.split('/');
+        return {
+            path,
+            name: segments[segments.length - 1],
+            depth: segments.length - 1,
+            count: notebooks.filter(doc => isInCollection(doc, path)).length
+        };
+    });
+};
+
+export const listTags = (notebooks: NotebookDoc[]) =>
+    [...new Set(notebooks.flatMap(doc => doc.tags ?? []))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Combine a collection into one notebook, each member under its own top-level heading.
+ * Returns null for an empty collection.
+ */
+export const buildCollectionNotebook = (path: string, notebooks: NotebookDoc[]): NotebookDoc | null => {
+    const members = notebooks
+        .filter(doc => isInCollection(doc, path))
+        .sort((a, b) => a.title.localeCompare(b.title));
+    if (members.length === 0) return null;
+
+    const content = members
+        .map(doc => {
+            // Demote the member's own headings so its title stays the only top-level one
+            const body = doc.content.trim().replace(/^(#{1,5})(\s)/gm, '#$1$2');
+            return `# ${doc.title || 'Untitled Notebook'}\n\n${body}`;
+        })
+        .join('\n\n');
+    const updatedAt = members.reduce((latest, doc) => doc.updatedAt > latest ? doc.updatedAt : latest, members[0].updatedAt);
+
+    return {
+        id: collectionId(path),
+        title: `${path} (${members.length} notebook${members.length === 1 ? '' : 's'})`,
+        content,
+        createdAt: updatedAt,
+        updatedAt
+    };
+};
+
+/**
+ * Grounding for a notebook or collection id, as stored on sessions
+ */
+export const resolveGrounding = async (id: string): Promise<NotebookDoc | null> => {
+    if (!isCollectionId(id)) return getNotebookById(id);
+    return buildCollectionNotebook(id.slice(COLLECTION_ID_PREFIX.length), await loadNotebooks());
+};
+
+/**
+ * Notebooks sent for retrieval when grounded on `doc`: a collection's members (so excerpts
+ * cite the real notebooks), or the notebook itself
+ */
+export const loadGroundingNotebooks = async (doc: NotebookDoc): Promise<GroundingNotebook[]> => {
+    const members = isCollectionId(doc.id)
+        ? (await loadNotebooks()).filter(item => isInCollection(item, doc.id.slice(COLLECTION_ID_PREFIX.length)))
+        : [doc];
+    return members.map(({ id, title, content }) => ({ id, title, content }));
+};
+
+// ============================================================================
+// Bulk operations
+// ============================================================================
+
+const updateEach = async (ids: string[], update: (doc: NotebookDoc) => NotebookDoc) => {
+    for (const id of ids) {
+        const doc = await getNotebookById(id);
+        // Metadata only: title and content are unchanged, so upsertNotebook records no revision
+        if (doc) await upsertNotebook(update(doc));
+    }
+};
+
+export const moveNotebooks = (ids: string[], folder: string) => {
+    const path = normalizeFolder(folder);
+    return updateEach(ids, doc => ({ ...doc, folder: path || undefined }));
+};
+
+export const addNotebookTags = (ids: string[], tags: string[]) =>
+    updateEach(ids, doc => ({ ...doc, tags: [...new Set([...(doc.tags ?? []), ...tags])] }));
+
+export const removeNotebookTag = (ids: string[], tag: string) =>
+    updateEach(ids, doc => {
+        const tags = (doc.tags ?? []).filter(item => item !== tag);
+        return { ...doc, tags: tags.length > 0 ? tags : undefined };
+    });
@@ -0,0 +1,242 @@
+/**
+ * Notebook Exporters
+ * Standalone HTML, JSON bundles (notebook + source conversation) and Anki card decks.
+ */
+
+import type { NotebookDoc } from './notebook-storage';
+import type { SessionDoc } from './session-storage';
+
+// ============================================================================
+// Files
+// ============================================================================
+
+export const exportFileName = (title: string, extension: string) =>
+    `${(title.trim() || 'notebook').replace(/[\\/:*?"<>|]+/g, '-')}.${extension}`;
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_STYLES = `
+:root { color-scheme: light dark; --fg: #1f2328; --muted: #59636e; --bg: #ffffff; --code: #f3f4f6; --border: #d1d9e0; --accent: #2563eb; }
+@media (prefers-color-scheme: dark) { :root { --fg: #e6edf3; --muted: #9198a1; --bg: #0d1117; --code: #161b22; --border: #30363d; --accent: #4493f8; } }
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 16px/1.65 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 48px 24px 80px; }
+header.meta { color: var(--muted); font-size: 13px; border-bottom: 1px solid var(--border); padding-bottom: 12px; margin-bottom: 24px; }
+h1, h2, h3, h4 { line-height: 1.3; margin: 1.6em 0 0.5em; }
+h1 { font-size: 2em; margin-top: 0; }
+h2 { font-size: 1.45em; border-bottom: 1px solid var(--border); padding-bottom: 0.2em; }
+h3 { font-size: 1.2em; }
+p, ul, ol, blockquote, pre, table { margin: 0 0 1em; }
+ul, ol { padding-left: 1.5em; }
+li { margin: 0.25em 0; }
+a { color: var(--accent); }
+code { font: 0.875em ui-monospace, SFMono-Regular, Menlo, monospace; background: var(--code); padding: 0.15em 0.35em; border-radius: 4px; }
+pre { background: var(--code); padding: 14px 16px; border-radius: 6px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+blockquote { border-left: 3px solid var(--border); padding-left: 1em; color: var(--muted); font-style: italic; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid var(--border); padding: 6px 10px; text-align: left; }
+hr { border: 0; border-top: 1px solid var(--border); margin: 2em 0; }
+@media print { body { background: #fff; color: #000; } main { padding: 0; max-width: none; } a { color: inherit; } pre, blockquote, table { break-inside: avoid; } h2, h3 { break-after: avoid; } }
+`;
+
+/**
+ * Self-contained HTML page for a notebook; `bodyHtml` is the rendered Markdown
+ */
+export const buildNotebookHtml = (doc: NotebookDoc, bodyHtml: string) => {
+    const meta = [
+        `Updated ${new Date(doc.updatedAt).toLocaleString()}`,
+        doc.source?.partyAContext,
+        doc.source?.partyBContext
+    ].filter(Boolean).map(item => escapeHtml(item as string)).join(' · ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title || 'Notebook')}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header class="meta">${meta}</header>
+${bodyHtml}
+</main>
+</body>
+</html>
+`;
+};
+
+// ============================================================================
+// JSON bundle
+// ============================================================================
+
+export const NOTEBOOK_BUNDLE_FORMAT = 'convolab-notebook';
+export const NOTEBOOK_BUNDLE_VERSION = 1;
+
+export interface NotebookBundle {
+    format: typeof NOTEBOOK_BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    notebook: NotebookDoc; // Includes `source` metadata and revision history
+    conversation: SessionDoc | null; // Session the notebook was generated from, when still saved
+}
+
+export const buildNotebookBundle = (notebook: NotebookDoc, conversation: SessionDoc | null): NotebookBundle => ({
+    format: NOTEBOOK_BUNDLE_FORMAT,
+    version: NOTEBOOK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    notebook,
+    conversation
+});
+
+export const NOTEBOOK_COLLECTION_FORMAT = 'convolab-notebooks';
+
+/**
+ * Several notebooks in one file (bulk export); folders and tags travel with each notebook
+ */
+export interface NotebookCollectionBundle {
+    format: typeof NOTEBOOK_COLLECTION_FORMAT;
+    version: number;
+    exportedAt: string;
+    notebooks: NotebookDoc[];
+}
+
+export const buildNotebookCollectionBundle = (notebooks: NotebookDoc[]): NotebookCollectionBundle => ({
+    format: NOTEBOOK_COLLECTION_FORMAT,
+    version: NOTEBOOK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    notebooks
+});
+
+// ============================================================================
+// Anki
+// ============================================================================
+
+export interface AnkiCard {
+    front: string;
+    back: string;
+}
+
+export type AnkiFormat = 'tsv' | 'csv';
+
+const MAX_ANSWER_LENGTH = 600;
+
+// Plain text from inline Markdown (emphasis, code, links)
+const stripInline = (text: string) => text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+
+const clampAnswer = (text: string) =>
+    text.length > MAX_ANSWER_LENGTH ? `${text.slice(0, MAX_ANSWER_LENGTH - 3).trimEnd()}...` : text;
+
+/**
+ * Pull Q&A cards out of notebook Markdown:
+ * - "Q: ..." lines followed by "A: ..." lines
+ * - definition bullets: "- **Term**: definition" (also "—" or "-" separators)
+ * - question headings ("## Why ...?") answered by the text under them
+ */
+export const extractAnkiCards = (markdown: string): AnkiCard[] => {
+    const cards: AnkiCard[] = [];
+    const lines = markdown.split('\n');
+    let inFence = false;
+    let pendingQuestion: string | null = null;
+    let heading: { question: string; body: string[] } | null = null;
+
+    const addHeadingCard = (section: { question: string; body: string[] } | null) => {
+        const body = section?.body.join('\n').trim();
+        if (section && body) cards.push({ front: section.question, back: clampAnswer(body) });
+    };
+
+    for (const line of lines) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) continue;
+
+        const headingMatch = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (headingMatch) {
+            addHeadingCard(heading);
+            const text = stripInline(headingMatch[1]);
+            heading = text.endsWith('?') ? { question: text, body: [] } : null;
+            continue;
+        }
+
+        const question = line.match(/^\s*(?:[-*]\s+)?(?:\*\*)?Q(?:uestion)?(?:\*\*)?\s*[:.](?:\*\*)?\s*(.+)$/i);
+        if (question) {
+            pendingQuestion = stripInline(question[1]);
+            continue;
+        }
+        const answer = line.match(/^\s*(?:[-*]\s+)?(?:\*\*)?A(?:nswer)?(?:\*\*)?\s*[:.](?:\*\*)?\s*(.+)$/i);
+        if (answer && pendingQuestion) {
+            cards.push({ front: pendingQuestion, back: clampAnswer(stripInline(answer[1])) });
+            pendingQuestion = null;
+            continue;
+        }
+
+        const definition = line.match(/^\s*[-*+]\s+\*\*(.+?)\*\*\s*(?::|—|–|-)\s*(.+)$/)
+            ?? line.match(/^\s*[-*+]\s+\*\*(.+?):\*\*\s*(.+)$/);
+        if (definition) {
+            cards.push({ front: stripInline(definition[1]), back: clampAnswer(stripInline(definition[2])) });
+        }
+
+        heading?.body.push(stripInline(line));
+    }
+    addHeadingCard(heading);
+
+    const seen = new Set<string>();
+    return cards.filter(card => {
+        const key = card.front.toLowerCase();
+        if (!card.front || !card.back || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Field text for an Anki note with HTML enabled
+const toAnkiHtml = (text: string) => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Anki import file (File > Import): front, back, tags. The header lines tell Anki
+ * the separator and that fields contain HTML.
+ */
+export const buildAnkiExport = (cards: AnkiCard[], format: AnkiFormat, deckTitle: string) => {
+    const tag = ['convolab', deckTitle.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')]
+        .filter(Boolean)
+        .join(' ');
+    const separator = format === 'tsv' ? '\t' : ',';
+    const header = [`#separator:${format === 'tsv' ? 'tab' : 'comma'}`, '#html:true', '#tags column:3'];
+    const rows = cards.map(card => {
+        const fields = [toAnkiHtml(card.front), toAnkiHtml(card.back), tag];
+        return format === 'tsv'
+            ? fields.map(field => field.replace(/\t/g, ' ')).join(separator)
+            : fields.map(csvField).join(separator);
+    });
+    return [...header, ...rows].join('\n') + '\n';
+};
@@ -1,3 +1,24 @@
+import { createDocumentStore, type DocumentStore, type StoredDocument } from './document-store';
+import type { UsageRecord, UsageTotals } from './usage-tracker';
+
+export type NotebookRevisionOrigin = 'manual' | 'generated' | 'restored' | 'imported';
+
+/**
+ * Snapshot of a notebook as saved, oldest first. Manual edits are snapshotted at most once per
+ * window, so the notebook may be ahead of its latest revision.
+ */
+export interface NotebookRevision {
+    id: string;
+    createdAt: string;
+    origin: NotebookRevisionOrigin;
+    title: string;
+    content: string;
+    prompt?: string;       // Generation prompt, for AI revisions
+    model?: string;        // "provider/model" that generated it
+    restoredFrom?: string; // Revision id a restore copied
+    importedFrom?: string; // File name, for imported revisions
+}
+
 export interface NotebookDoc {
     id: string;
     title: string;
@@ -8,48 +29,182 @@ export interface NotebookDoc {
         partyAContext?: string;
         partyBContext?: string;
         messageCount?: number;
+        sessionId?: string; // Session the notebook was generated from
     };
+    usage?: UsageTotals; // Accumulated AI generation cost for this notebook
+    // Revision history travelling with the notebook: in export bundles, and inline in notebooks
+    // saved before it had its own store. Stored notebooks keep it in the revision store.
+    revisions?: NotebookRevision[];
+    folder?: string; // Collection path, "/"-separated (e.g. "Spanish/Verbs")
+    tags?: string[];
 }
 
-export const NOTEBOOK_STORAGE_KEY = 'convolab_notebooks';
-
-export const loadNotebooks = (): NotebookDoc[] => {
-    if (typeof window === 'undefined') return [];
-    try {
-        const raw = localStorage.getItem(NOTEBOOK_STORAGE_KEY);
-        if (!raw) return [];
-        const parsed = JSON.parse(raw);
-        return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-        console.warn('Failed to load notebooks from storage', error);
-        return [];
+/**
+ * What produced a save; recorded on the revision it creates
+ */
+export interface NotebookChange {
+    origin: NotebookRevisionOrigin;
+    prompt?: string;
+    model?: string;
+    restoredFrom?: string;
+    importedFrom?: string;
+}
+
+/**
+ * Revision history of one notebook, keyed by the notebook's id. Kept apart from the notebook
+ * so autosaves write only the notebook, not every revision with it.
+ */
+interface NotebookRevisionLog extends StoredDocument {
+    revisions: NotebookRevision[];
+}
+
+const MAX_REVISIONS = 50;
+// Autosaved manual edits within this window of the last manual revision add no revision of their own
+const MANUAL_REVISION_WINDOW_MS = 5 * 60 * 1000;
+
+const createRevisionId = () => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
     }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
-export const saveNotebooks = (notebooks: NotebookDoc[]) => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(NOTEBOOK_STORAGE_KEY, JSON.stringify(notebooks));
+export const describeGenerationModel = (usage: UsageRecord | null | undefined) =>
+    usage ? `${usage.provider}/${usage.model}` : undefined;
+
+let store: DocumentStore<NotebookDoc> | null = null;
+const notebookStore = () => store ??= createDocumentStore<NotebookDoc>('notebooks');
+
+let revisionStore: DocumentStore<NotebookRevisionLog> | null = null;
+const notebookRevisionStore = () => revisionStore ??= createDocumentStore<NotebookRevisionLog>('notebookRevisions');
+
+// The notebook as stored: its history lives in the revision store
+const withoutRevisions = (doc: NotebookDoc): NotebookDoc => {
+    const stored = { ...doc };
+    delete stored.revisions;
+    return stored;
 };
 
-export const upsertNotebook = (doc: NotebookDoc) => {
-    const notebooks = loadNotebooks();
-    const index = notebooks.findIndex(item => item.id === doc.id);
-    if (index >= 0) {
-        notebooks[index] = doc;
-    } else {
-        notebooks.unshift(doc);
+/**
+ * Revision list after saving `doc`, or `revisions` itself when the save adds none. A save that
+ * leaves the title and content as stored (a move, a retag, an autosave on load) adds nothing; a manual
+ * edit shortly after the last manual revision adds nothing; any other change first keeps the
+ * content it replaces when no revision holds it (edits since the last snapshot, or notebooks
+ * saved before revisions existed).
+ */
+const nextRevisions = (
+    existing: NotebookDoc | null,
+    revisions: NotebookRevision[],
+    doc: NotebookDoc,
+    change: NotebookChange,
+    now: string
+): NotebookRevision[] => {
+    if (existing?.content === doc.content && existing.title === doc.title) return revisions;
+    const latest = revisions[revisions.length - 1];
+    if (latest?.content === doc.content && latest.title === doc.title) return revisions;
+    if (change.origin === 'manual' && latest?.origin === 'manual'
+        && Date.parse(now) - Date.parse(latest.createdAt) < MANUAL_REVISION_WINDOW_MS) {
+        return revisions;
     }
-    saveNotebooks(notebooks);
+
+    const next = [...revisions];
+    const replacesUnrecorded = !!existing && existing.content !== doc.content
+        && (latest?.content !== existing.content || latest.title !== existing.title);
+    if (existing && replacesUnrecorded && (change.origin !== 'manual' || !latest)) {
+        next.push({
+            id: createRevisionId(),
+            createdAt: existing.updatedAt,
+            origin: latest || !existing.source ? 'manual' : 'generated',
+            title: existing.title,
+            content: existing.content
+        });
+    }
+
+    next.push({
+        id: createRevisionId(),
+        createdAt: now,
+        title: doc.title,
+        content: doc.content,
+        ...change
+    });
+    return next.slice(-MAX_REVISIONS);
+};
+
+const saveRevisions = async (id: string, revisions: NotebookRevision[], createdAt?: string) => {
+    const now = new Date().toISOString();
+    await notebookRevisionStore().put({ id, createdAt: createdAt ?? now, updatedAt: now, revisions });
 };
 
-export const getNotebookById = (id: string): NotebookDoc | null => {
-    const notebooks = loadNotebooks();
-    return notebooks.find(item => item.id === id) || null;
+export const loadNotebooks = (): Promise<NotebookDoc[]> => notebookStore().list();
+
+/**
+ * Revision history of a notebook, oldest first
+ */
+export const getNotebookRevisions = async (id: string): Promise<NotebookRevision[]> => {
+    const log = await notebookRevisionStore().get(id);
+    if (log) return log.revisions;
+    return (await notebookStore().get(id))?.revisions ?? [];
 };
 
-export const deleteNotebook = (id: string) => {
-    const notebooks = loadNotebooks();
-    const next = notebooks.filter(item => item.id !== id);
-    saveNotebooks(next);
+/**
+ * The notebook with its revision history attached, for export bundles
+ */
+export const withNotebookRevisions = async (doc: NotebookDoc): Promise<NotebookDoc> => {
+    const revisions = await getNotebookRevisions(doc.id);
+    return revisions.length > 0 ? { ...doc, revisions } : withoutRevisions(doc);
 };
 
+/**
+ * Save a notebook and record a revision for the change (see `nextRevisions`). The revision store
+ * is only written when the history changes. Resolves with the doc as saved.
+ */
+export const upsertNotebook = async (doc: NotebookDoc, change: NotebookChange = { origin: 'manual' }): Promise<NotebookDoc> => {
+    const [existing, log] = await Promise.all([notebookStore().get(doc.id), notebookRevisionStore().get(doc.id)]);
+    const saved = withoutRevisions(doc);
+    const revisions = log?.revisions ?? existing?.revisions ?? [];
+    const next = nextRevisions(existing, revisions, saved, change, new Date().toISOString());
+
+    await notebookStore().put(saved);
+    // Inline history from before the revision store moves there on the first save
+    if (next !== revisions || (!log && next.length > 0)) await saveRevisions(doc.id, next, log?.createdAt);
+    return saved;
+};
+
+export const getNotebookById = (id: string): Promise<NotebookDoc | null> => notebookStore().get(id);
+
+export const deleteNotebook = async (id: string): Promise<void> => {
+    await notebookStore().delete(id);
+    await notebookRevisionStore().delete(id);
+};
+
+/**
+ * Make an earlier revision current again; recorded as a new revision so the restore can be undone
+ */
+export const restoreNotebookRevision = async (id: string, revisionId: string): Promise<NotebookDoc | null> => {
+    const [doc, revisions] = await Promise.all([getNotebookById(id), getNotebookRevisions(id)]);
+    const revision = revisions.find(item => item.id === revisionId);
+    if (!doc || !revision) return null;
+    return upsertNotebook(
+        { ...doc, title: revision.title, content: revision.content, updatedAt: new Date().toISOString() },
+        { origin: 'restored', restoredFrom: revision.id }
+    );
+};
+
+/**
+ * Store an imported notebook as is, replacing any notebook with the same id. Bundles keep their
+ * own revision history; other imports start one with an 'imported' revision.
+ */
+export const importNotebook = async (doc: NotebookDoc, fileName: string): Promise<NotebookDoc> => {
+    const saved = withoutRevisions(doc);
+    const revisions: NotebookRevision[] = doc.revisions?.length ? doc.revisions : [{
+        id: createRevisionId(),
+        createdAt: new Date().toISOString(),
+        origin: 'imported',
+        title: doc.title,
+        content: doc.content,
+        importedFrom: fileName
+    }];
+    await notebookStore().put(saved);
+    await saveRevisions(doc.id, revisions);
+    return saved;
+};
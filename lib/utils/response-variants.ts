@@ -0,0 +1,68 @@
+/**
+ * Response Variants
+ * Alternative Party B replies to the same message, sampled at other temperatures or from other
+ * models, compared side by side before one of them becomes the reply in the history.
+ */
+
+import {
+    getLLMConfig,
+    getStoredProviderModel,
+    isProviderConfigured,
+    LLM_PROVIDERS,
+    type LLMFeatureRoute
+} from '@/lib/config/llm-config';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+import type { NotebookCitation } from '@/lib/ai/retrieval';
+
+export type VariantMode = 'temperature' | 'models';
+
+export interface ResponseVariantSpec {
+    label: string;
+    temperature?: number;    // Sampling temperature; the respond default when omitted
+    target?: LLMFeatureRoute; // Provider/model; the respond route when omitted
+}
+
+export interface ResponseVariant extends ResponseVariantSpec {
+    id: string;
+    response: string; // Without citation markers
+    citations: NotebookCitation[];
+    isGenerating: boolean;
+    error: string | null;
+    isTruncated: boolean;
+    usage: TokenUsage | null;
+    servedBy: ServedBy | null;
+}
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+// Alternatives around the respond default (0.7), most useful first; all within every provider's range (Anthropic: 0..1)
+const VARIANT_TEMPERATURES = [1.0, 0.4, 0.2];
+
+/**
+ * Providers a model comparison can use: configured ones other than the respond route's,
+ * each with its selected model. The mock provider is always configured, so it is left out.
+ */
+export const getComparableRoutes = (): LLMFeatureRoute[] => {
+    const { provider: current } = getLLMConfig('respond');
+    return LLM_PROVIDERS
+        .filter(({ id }) => id !== current && id !== 'mock' && isProviderConfigured(id))
+        .map(({ id }) => ({ provider: id, model: getStoredProviderModel(id) }));
+};
+
+/**
+ * Specs for the `count - 1` alternatives to the current reply (which is always the first variant)
+ */
+export const getVariantSpecs = (count: number, mode: VariantMode): ResponseVariantSpec[] => {
+    const alternatives = Math.min(MAX_VARIANTS, Math.max(MIN_VARIANTS, count)) - 1;
+    if (mode === 'models') {
+        return getComparableRoutes().slice(0, alternatives).map(target => ({
+            label: `${LLM_PROVIDERS.find(({ id }) => id === target.provider)?.name ?? target.provider} · ${target.model}`,
+            target
+        }));
+    }
+    return VARIANT_TEMPERATURES.slice(0, alternatives).map(temperature => ({
+        label: `Temperature ${temperature.toFixed(1)}`,
+        temperature
+    }));
+};
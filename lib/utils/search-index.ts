@@ -0,0 +1,239 @@
+/**
+ * Search Index
+ * Client-side full-text index over notebooks (title and heading sections) and saved session
+ * messages, including their translations. Matching is case- and accent-insensitive; every
+ * query term must match (the last one as a prefix, so results update while typing).
+ */
+
+import { splitMarkdownSections } from './markdown';
+import { loadNotebooks, type NotebookDoc } from './notebook-storage';
+import { loadSessions, type SessionDoc } from './session-storage';
+
+export type SearchKind = 'notebook' | 'session';
+
+export interface SearchEntry {
+    kind: SearchKind;
+    docId: string;
+    docTitle: string;
+    field: 'title' | 'section' | 'message' | 'translation';
+    text: string;
+    date: string;          // Last update of the notebook or session
+    heading?: string;      // Notebook section heading
+    offset?: number;       // Notebook: where `text` starts in the content
+    messageIndex?: number; // Session: position in the history
+    role?: string;
+    language?: string;     // Session: language of the message or translation
+}
+
+export interface SearchFilters {
+    kind?: SearchKind;
+    language?: string;
+    since?: string; // ISO date; older documents are excluded
+}
+
+export interface SnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchResult {
+    entry: SearchEntry;
+    score: number;
+    snippet: SnippetPart[];
+    matchOffset: number; // First match within entry.text
+    matchLength: number;
+}
+
+const FIELD_BOOST: Record<SearchEntry['field'], number> = {
+    title: 3,
+    section: 1,
+    message: 1,
+    translation: 0.8
+};
+
+const SNIPPET_RADIUS = 70;
+
+/**
+ * Lowercase and strip accents without changing the string length, so offsets
+ * found in the folded text point at the same characters in the original
+ */
+const foldText = (text: string) => {
+    let folded = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        const plain = char.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+        folded += plain.length === 1 ? plain : char;
+    }
+    return folded;
+};
+
+const tokenize = (folded: string) => folded.match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export class SearchIndex {
+    private entries: SearchEntry[] = [];
+    private folded: string[] = [];
+    // token -> entry index -> term frequency
+    private postings = new Map<string, Map<number, number>>();
+
+    add(entry: SearchEntry) {
+        if (!entry.text.trim()) return;
+        const index = this.entries.length;
+        const folded = foldText(entry.text);
+        this.entries.push(entry);
+        this.folded.push(folded);
+        for (const token of tokenize(folded)) {
+            let posting = this.postings.get(token);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(token, posting);
+            }
+            posting.set(index, (posting.get(index) ?? 0) + 1);
+        }
+    }
+
+    get size() {
+        return this.entries.length;
+    }
+
+    /**
+     * Languages present in session messages, for the language filter
+     */
+    get languages(): string[] {
+        return [...new Set(this.entries.map(entry => entry.language).filter((lang): lang is string => !!lang))].sort();
+    }
+
+    search(query: string, filters: SearchFilters = {}, limit = 50): SearchResult[] {
+        const terms = tokenize(foldText(query));
+        if (terms.length === 0) return [];
+
+        // Per term: entry index -> best score among matching tokens
+        let scores: Map<number, number> | null = null;
+        for (const [position, term] of terms.entries()) {
+            const isLast = position === terms.length - 1;
+            const termScores = new Map<number, number>();
+            for (const [token, posting] of this.postings) {
+                const exact = token === term;
+                if (!exact && !(isLast && token.startsWith(term))) continue;
+                const idf = Math.log(1 + this.entries.length / posting.size);
+                for (const [index, tf] of posting) {
+                    const score = (1 + Math.log(tf)) * idf * (exact ? 1 : 0.7);
+                    termScores.set(index, Math.max(termScores.get(index) ?? 0, score));
+                }
+            }
+            if (scores === null) {
+                scores = termScores;
+            } else {
+                const next = new Map<number, number>();
+                for (const [index, score] of scores) {
+                    const termScore = termScores.get(index);
+                    if (termScore !== undefined) next.set(index, score + termScore);
+                }
+                scores = next;
+            }
+        }
+
+        const results: SearchResult[] = [];
+        for (const [index, score] of (scores ?? new Map<number, number>())) {
+            const entry = this.entries[index];
+            if (filters.kind && entry.kind !== filters.kind) continue;
+            if (filters.language && entry.language !== filters.language) continue;
+            if (filters.since && entry.date < filters.since) continue;
+            results.push({ entry, score: score * FIELD_BOOST[entry.field], ...this.snippet(index, terms) });
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    private snippet(index: number, terms: string[]) {
+        const { text } = this.entries[index];
+        const folded = this.folded[index];
+
+        let matchOffset = -1;
+        let matchLength = 0;
+        for (const term of terms) {
+            const at = folded.indexOf(term);
+            if (at >= 0 && (matchOffset < 0 || at < matchOffset)) {
+                matchOffset = at;
+                matchLength = term.length;
+            }
+        }
+
+        const start = Math.max(0, matchOffset - SNIPPET_RADIUS);
+        const end = Math.min(text.length, Math.max(matchOffset, 0) + matchLength + SNIPPET_RADIUS);
+        const window = folded.slice(start, end);
+
+        // Mark every occurrence of every term inside the window
+        const marks = new Array<boolean>(window.length).fill(false);
+        for (const term of terms) {
+            for (let at = window.indexOf(term); at >= 0; at = window.indexOf(term, at + term.length)) {
+                marks.fill(true, at, at + term.length);
+            }
+        }
+
+        const snippet: SnippetPart[] = [];
+        for (let i = 0; i < window.length; i++) {
+            const char = text[start + i].replace(/\s/, ' ');
+            const last = snippet[snippet.length - 1];
+            if (last && last.match === marks[i]) {
+                last.text += char;
+            } else {
+                snippet.push({ text: char, match: marks[i] });
+            }
+        }
+        if (start > 0) snippet.unshift({ text: '…', match: false });
+        if (end < text.length) snippet.push({ text: '…', match: false });
+
+        return { snippet, matchOffset: Math.max(matchOffset, 0), matchLength };
+    }
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+const addNotebook = (index: SearchIndex, doc: NotebookDoc) => {
+    const base = { kind: 'notebook' as const, docId: doc.id, docTitle: doc.title, date: doc.updatedAt };
+    index.add({ ...base, field: 'title', text: doc.title, offset: 0 });
+
+    // Non-overlapping chunks between consecutive headings; the text before the first heading is its own chunk
+    const headings = splitMarkdownSections(doc.content);
+    const starts = [0, ...headings.map(section => section.start).filter(start => start > 0)];
+    starts.forEach((start, i) => {
+        const end = starts[i + 1] ?? doc.content.length;
+        const heading = headings.find(section => section.start === start)?.heading;
+        index.add({ ...base, field: 'section', text: doc.content.slice(start, end), offset: start, heading });
+    });
+};
+
+const addSession = (index: SearchIndex, doc: SessionDoc) => {
+    const base = { kind: 'session' as const, docId: doc.id, docTitle: doc.title, date: doc.updatedAt };
+    doc.history.forEach((message, messageIndex) => {
+        const party = message.role === 'party_a' ? doc.partyA : doc.partyB;
+        index.add({ ...base, field: 'message', text: message.content, messageIndex, role: message.role, language: party.languages[0] });
+        for (const [language, translation] of Object.entries(message.translations ?? {})) {
+            index.add({ ...base, field: 'translation', text: translation, messageIndex, role: message.role, language });
+        }
+    });
+};
+
+export const buildSearchIndex = (notebooks: NotebookDoc[], sessions: SessionDoc[]) => {
+    const index = new SearchIndex();
+    notebooks.forEach(doc => addNotebook(index, doc));
+    sessions.forEach(doc => addSession(index, doc));
+    return index;
+};
+
+export const loadSearchIndex = async () => {
+    const [notebooks, sessions] = await Promise.all([loadNotebooks(), loadSessions()]);
+    return buildSearchIndex(notebooks, sessions);
+};
+
+/**
+ * Where a result opens: the notebook page selects the match, the session page scrolls to the message
+ */
+export const getResultHref = ({ entry, matchOffset, matchLength }: SearchResult) => {
+    if (entry.kind === 'notebook') {
+        if (entry.field === 'title') return `/notebook/${entry.docId}`;
+        return `/notebook/${entry.docId}?at=${(entry.offset ?? 0) + matchOffset}&len=${matchLength}`;
+    }
+    return `/session/${entry.docId}#message-${entry.messageIndex ?? 0}`;
+};
@@ -0,0 +1,67 @@
+import { createDocumentStore, type DocumentStore } from './document-store';
+import type { ConversationTree } from './conversation-tree';
+
+export interface SessionHistoryItem {
+    role: string;
+    content: string;
+    translations?: Record<string, string>;
+}
+
+export interface SessionParty {
+    context: string;
+    languages: string[];
+}
+
+export interface SessionDoc {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    partyA: SessionParty;
+    partyB: SessionParty;
+    history: SessionHistoryItem[]; // Active branch
+    tree?: ConversationTree;       // Every branch, once the conversation has been rewound and continued differently
+    notebookId?: string; // Notebook or collection (`collection:<path>`) the conversation was grounded on, if any
+}
+
+export const createSessionId = () => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+};
+
+/**
+ * Default title: Party B's role, else the opening message
+ */
+export const buildSessionTitle = (partyBContext: string, history: SessionHistoryItem[]) => {
+    const source = partyBContext.trim() || history[0]?.content.trim() || '';
+    if (!source) return 'Untitled session';
+    return source.length > 60 ? `${source.slice(0, 57)}...` : source;
+};
+
+let store: DocumentStore<SessionDoc> | null = null;
+const sessionStore = () => store ??= createDocumentStore<SessionDoc>('sessions');
+
+export const loadSessions = (): Promise<SessionDoc[]> => sessionStore().list();
+
+export const upsertSession = (doc: SessionDoc): Promise<void> => sessionStore().put(doc);
+
+export const getSessionById = (id: string): Promise<SessionDoc | null> => sessionStore().get(id);
+
+export const deleteSession = (id: string): Promise<void> => sessionStore().delete(id);
+
+export const duplicateSession = async (id: string): Promise<SessionDoc | null> => {
+    const original = await getSessionById(id);
+    if (!original) return null;
+    const now = new Date().toISOString();
+    const copy: SessionDoc = {
+        ...structuredClone(original),
+        id: createSessionId(),
+        title: `${original.title} (copy)`,
+        createdAt: now,
+        updatedAt: now
+    };
+    await upsertSession(copy);
+    return copy;
+};
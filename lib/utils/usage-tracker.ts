@@ -0,0 +1,149 @@
+/**
+ * Usage Tracker
+ * Collects the token usage AI routes report and prices it with MODEL_PRICING.
+ * Services record every call here; meters subscribe and keep their own running totals.
+ * Also remembers which provider/model last answered, since fallbacks may differ from the selection.
+ */
+
+import { estimateCost, getLLMConfig, type LLMFeature, type LLMProvider } from '@/lib/config/llm-config';
+import type { ServedBy, TokenUsage } from '@/lib/ai/providers/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsageRecord {
+    feature: LLMFeature;
+    provider: LLMProvider;
+    model: string;
+    usage: TokenUsage;
+    cost: number | null; // USD; null when the model has no known pricing
+}
+
+export interface FeatureUsage {
+    totalTokens: number;
+    cost: number;
+    requests: number;
+}
+
+export interface UsageTotals {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;             // USD across priced requests
+    requests: number;
+    unpricedRequests: number; // Requests whose model is missing from MODEL_PRICING
+    byFeature: Partial<Record<LLMFeature, FeatureUsage>>;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    requests: 0,
+    unpricedRequests: 0,
+    byFeature: {}
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export const addUsage = (totals: UsageTotals, record: UsageRecord): UsageTotals => {
+    const cost = record.cost ?? 0;
+    const feature = totals.byFeature[record.feature] || { totalTokens: 0, cost: 0, requests: 0 };
+
+    return {
+        promptTokens: totals.promptTokens + record.usage.promptTokens,
+        completionTokens: totals.completionTokens + record.usage.completionTokens,
+        totalTokens: totals.totalTokens + record.usage.totalTokens,
+        cost: totals.cost + cost,
+        requests: totals.requests + 1,
+        unpricedRequests: totals.unpricedRequests + (record.cost === null ? 1 : 0),
+        byFeature: {
+            ...totals.byFeature,
+            [record.feature]: {
+                totalTokens: feature.totalTokens + record.usage.totalTokens,
+                cost: feature.cost + cost,
+                requests: feature.requests + 1
+            }
+        }
+    };
+};
+
+export const formatCost = (cost: number) => {
+    if (cost === 0) return '$0.00';
+    if (cost < 0.01) return `$${cost.toFixed(4)}`;
+    return `$${cost.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number) => {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+    return `${tokens}`;
+};
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+type UsageListener = (record: UsageRecord) => void;
+type ServedListener = (servedBy: ServedBy) => void;
+
+class UsageTracker {
+    private listeners = new Set<UsageListener>();
+    private servedListeners = new Set<ServedListener>();
+    private lastServed: ServedBy | null = null;
+
+    /**
+     * Record a finished request, priced against the model that served it
+     * (or the feature's configured model when the route didn't say). Responses without usage
+     * (e.g. from the Python backend) only update the serving model.
+     */
+    record(feature: LLMFeature, usage?: TokenUsage | null, servedBy?: ServedBy | null): UsageRecord | null {
+        if (servedBy) this.served(servedBy);
+        if (!usage) return null;
+
+        const { provider, model } = servedBy ?? getLLMConfig(feature);
+        const record: UsageRecord = {
+            feature,
+            provider,
+            model,
+            usage,
+            cost: estimateCost(provider, model, usage)
+        };
+
+        this.listeners.forEach(listener => listener(record));
+        return record;
+    }
+
+    subscribe(listener: UsageListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Note which provider/model answered; streams report this before any usage arrives
+     */
+    served(servedBy: ServedBy) {
+        this.lastServed = servedBy;
+        this.servedListeners.forEach(listener => listener(servedBy));
+    }
+
+    getLastServed(): ServedBy | null {
+        return this.lastServed;
+    }
+
+    subscribeServed(listener: ServedListener): () => void {
+        this.servedListeners.add(listener);
+        return () => {
+            this.servedListeners.delete(listener);
+        };
+    }
+}
+
+// Singleton instance
+export const usageTracker = new UsageTracker();
@@ -1,6 +1,13 @@
 import type { NextConfig } from "next";
+import { readFileSync } from "fs";
+
+// Encrypted provider key vault (see scripts/key-vault.mjs). Only the ciphertext is exposed to
+// the server routes; it is decrypted at request time with LLM_KEY_VAULT_SECRET.
+const keyVaultFile = process.env.LLM_KEY_VAULT_FILE;
+const keyVault = keyVaultFile ? readFileSync(keyVaultFile, 'utf8').trim() : undefined;
 
 const nextConfig: NextConfig = {
+  env: keyVault ? { LLM_KEY_VAULT: keyVault } : undefined,
   async rewrites() {
     const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8000';
     return [
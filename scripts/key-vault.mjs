@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+/**
+ * Encrypt provider API keys into a vault file the AI routes can unlock on the server.
+ *
+ * Usage:
+ *   LLM_KEY_VAULT_SECRET=... node scripts/key-vault.mjs keys.json llm-keys.vault
+ *
+ * keys.json: { "providers": { "openai": { "apiKey": "sk-..." }, "custom": { "baseUrl": "http://localhost:11434/v1" } } }
+ *
+ * Then start the app with LLM_KEY_VAULT_FILE=llm-keys.vault and the same LLM_KEY_VAULT_SECRET.
+ * Must match decryptVault in lib/ai/key-vault.ts.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { webcrypto as crypto } from 'crypto';
+
+const KDF_ITERATIONS = 210000;
+
+const [input, output] = process.argv.slice(2);
+const secret = process.env.LLM_KEY_VAULT_SECRET;
+
+if (!input || !output || !secret) {
+    console.error('Usage: LLM_KEY_VAULT_SECRET=... node scripts/key-vault.mjs <keys.json> <output.vault>');
+    process.exit(1);
+}
+
+const contents = JSON.parse(readFileSync(input, 'utf8'));
+if (!contents || typeof contents.providers !== 'object') {
+    console.error('keys.json must contain a "providers" object');
+    process.exit(1);
+}
+
+const salt = crypto.getRandomValues(new Uint8Array(16));
+const iv = crypto.getRandomValues(new Uint8Array(12));
+
+const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KDF_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+);
+const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(contents)));
+
+const toBase64 = (bytes) => Buffer.from(bytes).toString('base64');
+writeFileSync(output, JSON.stringify({ v: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }) + '\n');
+console.log(`Wrote ${Object.keys(contents.providers).length} provider(s) to ${output}`);